@@ -13,7 +13,7 @@ export const ENV = {
   
   // JWT
   JWT_SECRET: process.env.JWT_SECRET || 'your-secret-key-change-in-production',
-  JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN || '7d',
+  JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN || '15m',
   JWT_REFRESH_EXPIRES_IN: process.env.JWT_REFRESH_EXPIRES_IN || '30d',
   
   // Client
@@ -26,9 +26,82 @@ export const ENV = {
   // API
   API_PREFIX: process.env.API_PREFIX || '/api',
   
+  // Encryption key for recoverable secrets at rest (falls back to the JWT secret)
+  DATA_ENCRYPTION_KEY: process.env.DATA_ENCRYPTION_KEY || process.env.JWT_SECRET || 'your-secret-key-change-in-production',
+
+  // Two-factor authentication
+  REQUIRE_ADMIN_2FA: process.env.REQUIRE_ADMIN_2FA === 'true',
+  TWO_FACTOR_ISSUER: process.env.TWO_FACTOR_ISSUER || 'EduFleet Exchange',
+  TWO_FACTOR_CHALLENGE_EXPIRES_IN: process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN || '5m',
+
+  // Login protection and rate limiting
+  RATE_LIMIT_STORE: process.env.RATE_LIMIT_STORE as 'memory' | 'mongo' | undefined,
+  LOGIN_MAX_FAILED_ATTEMPTS: parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5', 10),
+  LOGIN_LOCKOUT_BASE_MINUTES: parseInt(process.env.LOGIN_LOCKOUT_BASE_MINUTES || '5', 10),
+  LOGIN_LOCKOUT_MAX_MINUTES: parseInt(process.env.LOGIN_LOCKOUT_MAX_MINUTES || '1440', 10),
+  AUTH_RATE_LIMIT_WINDOW_MINUTES: parseInt(process.env.AUTH_RATE_LIMIT_WINDOW_MINUTES || '15', 10),
+  AUTH_RATE_LIMIT_MAX: parseInt(process.env.AUTH_RATE_LIMIT_MAX || '100', 10),
+  API_KEY_RATE_LIMIT_WINDOW_MINUTES: parseInt(process.env.API_KEY_RATE_LIMIT_WINDOW_MINUTES || '1', 10),
+  API_KEY_RATE_LIMIT_MAX: parseInt(process.env.API_KEY_RATE_LIMIT_MAX || '60', 10),
+
+  // Mail
+  MAIL_FROM: process.env.MAIL_FROM || 'EduFleet Exchange <no-reply@edufleet.exchange>',
+
+  // Password reset
+  PASSWORD_RESET_TTL_MINUTES: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10),
+
+  // Email verification
+  EMAIL_VERIFICATION_TTL_HOURS: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '24', 10),
+  EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS: parseInt(process.env.EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS || '60', 10),
+
+  // Admin impersonation ("login as user") token lifetime
+  IMPERSONATION_TTL_MINUTES: parseInt(process.env.IMPERSONATION_TTL_MINUTES || '30', 10),
+
+  // Self-service account deletion grace period
+  ACCOUNT_DELETION_GRACE_DAYS: parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '14', 10),
+
+  // API keys (ERP integrations)
+  MAX_API_KEYS_PER_USER: parseInt(process.env.MAX_API_KEYS_PER_USER || '10', 10),
+
+  // Listing expiry (vehicles expire after the plan's listing lifetime, jobs at their deadline)
+  VEHICLE_LISTING_LIFETIME_DAYS: parseInt(process.env.VEHICLE_LISTING_LIFETIME_DAYS || '60', 10),
+  LISTING_EXPIRY_REMINDER_DAYS: parseInt(process.env.LISTING_EXPIRY_REMINDER_DAYS || '3', 10),
+  JOB_RENEWAL_DAYS: parseInt(process.env.JOB_RENEWAL_DAYS || '30', 10),
+
+  // A new listing whose registration number is already actively listed by another
+  // account is held for moderator review ('review') or refused ('block')
+  DUPLICATE_REGISTRATION_POLICY: (process.env.DUPLICATE_REGISTRATION_POLICY || 'review') as 'review' | 'block',
+
+  // Vehicle document (insurance, fitness, road tax, permit) expiry reminders, days before expiry
+  VEHICLE_DOCUMENT_REMINDER_DAYS: process.env.VEHICLE_DOCUMENT_REMINDER_DAYS || '30,7,1',
+
+  // Background job scheduler
+  SCHEDULER_ENABLED: process.env.SCHEDULER_ENABLED !== 'false',
+  SCHEDULER_POLL_INTERVAL_SECONDS: parseInt(process.env.SCHEDULER_POLL_INTERVAL_SECONDS || '30', 10),
+  SCHEDULER_LOCK_MINUTES: parseInt(process.env.SCHEDULER_LOCK_MINUTES || '10', 10),
+  SCHEDULER_MAX_ATTEMPTS: parseInt(process.env.SCHEDULER_MAX_ATTEMPTS || '3', 10),
+  SCHEDULER_RETRY_BASE_SECONDS: parseInt(process.env.SCHEDULER_RETRY_BASE_SECONDS || '60', 10),
+  SCHEDULER_RUN_RETENTION_DAYS: parseInt(process.env.SCHEDULER_RUN_RETENTION_DAYS || '30', 10),
+
+  // Saved vehicle searches
+  MAX_SAVED_SEARCHES_PER_USER: parseInt(process.env.MAX_SAVED_SEARCHES_PER_USER || '20', 10),
+
+  // Watchlist
+  MAX_WATCHES_PER_USER: parseInt(process.env.MAX_WATCHES_PER_USER || '200', 10),
+  WATCHED_JOB_DEADLINE_REMINDER_DAYS: parseInt(process.env.WATCHED_JOB_DEADLINE_REMINDER_DAYS || '2', 10),
+
+  // Organizations
+  ORGANIZATION_INVITE_TTL_DAYS: parseInt(process.env.ORGANIZATION_INVITE_TTL_DAYS || '7', 10),
+
   // Google OAuth (if needed)
   GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID,
   GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET,
+  GOOGLE_REDIRECT_URI: process.env.GOOGLE_REDIRECT_URI
+    || `http://localhost:${process.env.PORT || '3000'}${process.env.API_PREFIX || '/api'}/auth/google/callback`,
+  // Endpoint overrides (e.g. a local stub IdP in tests); defaults are Google's
+  GOOGLE_AUTH_URL: process.env.GOOGLE_AUTH_URL,
+  GOOGLE_TOKEN_URL: process.env.GOOGLE_TOKEN_URL,
+  GOOGLE_USERINFO_URL: process.env.GOOGLE_USERINFO_URL,
 } as const;
 
 export const isProduction = ENV.NODE_ENV === 'production';
@@ -1,23 +1,37 @@
 /**
  * JWT Configuration
  * Handles JSON Web Token settings for authentication
+ *
+ * Access tokens are short-lived JWTs. Refresh tokens are opaque random
+ * strings stored hashed in the Session collection and rotated on every use.
  */
 
 import { ENV, isProduction } from './environment.js';
+import { durationToMs } from '../utils/duration.js';
 
 export const JWT_CONFIG = {
   secret: ENV.JWT_SECRET,
   expiresIn: ENV.JWT_EXPIRES_IN,
   refreshExpiresIn: ENV.JWT_REFRESH_EXPIRES_IN,
   
-  // Cookie options for storing JWT
+  // Cookie options for storing the access token JWT
   cookieOptions: {
     httpOnly: true,
     secure: isProduction,
     sameSite: 'strict' as const,
-    maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+    maxAge: durationToMs(ENV.JWT_EXPIRES_IN),
     path: '/',
   },
+
+  // Cookie options for the refresh token (only sent to the auth routes)
+  refreshCookieName: 'refreshToken',
+  refreshCookieOptions: {
+    httpOnly: true,
+    secure: isProduction,
+    sameSite: 'strict' as const,
+    maxAge: durationToMs(ENV.JWT_REFRESH_EXPIRES_IN),
+    path: `${ENV.API_PREFIX}/auth`,
+  },
   
   // Token issuer and audience (optional, for additional security)
   issuer: 'edufleet-exchange',
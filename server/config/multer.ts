@@ -39,20 +39,34 @@ export const imageFileFilter = (
   }
 };
 
-// File filter for documents
+// Accepted document types by extension. Both the extension and the uploaded
+// mimetype must match exactly; files are later served with the type derived
+// from the extension, never the one the client sent.
+export const DOCUMENT_MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+export const documentMimeType = (fileName: string): string | undefined => {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  return Object.hasOwn(DOCUMENT_MIME_TYPES, extension) ? DOCUMENT_MIME_TYPES[extension] : undefined;
+};
+
+// File filter for documents (vehicle papers are PDFs or scans/photos)
 export const documentFileFilter = (
   req: any,
   file: Express.Multer.File,
   cb: multer.FileFilterCallback
 ) => {
-  const allowedTypes = /pdf|doc|docx|txt/;
-  const extension = file.originalname.split('.').pop()?.toLowerCase() || '';
-  const extname = allowedTypes.test(extension);
+  const expected = documentMimeType(file.originalname);
 
-  if (extname) {
+  if (expected && file.mimetype.toLowerCase() === expected) {
     cb(null, true);
   } else {
-    cb(new Error('Only document files are allowed (pdf, doc, docx, txt)'));
+    cb(new Error('Only PDF or image files are allowed (pdf, jpeg, jpg, png, webp)'));
   }
 };
 
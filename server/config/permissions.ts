@@ -0,0 +1,111 @@
+/**
+ * Permission Registry
+ * Every action that routes and controllers authorize, and the roles that hold it.
+ *
+ * Permissions are `resource:action` strings. Admin accounts can carry an
+ * adminRole that narrows them to a subset; admins without one are super admins.
+ */
+
+export const PERMISSIONS = [
+  // Vehicles
+  'vehicle:browse',
+  'vehicle:create',
+  'vehicle:manage', // edit/delete own listings (any listing for admins)
+  'vehicle:moderate', // approve, reject, prioritise, see unapproved listings
+  // Jobs and applications
+  'job:create',
+  'job:manage',
+  'job:apply',
+  'application:review',
+  // Vendors
+  'product:create',
+  'supplier:moderate',
+  // Ads
+  'ad:manage',
+  // Organizations
+  'organization:create',
+  'organization:join',
+  // Integrations
+  'api_key:manage',
+  // Administration
+  'stats:read',
+  'user:read',
+  'user:manage',
+  'user:impersonate',
+  'session:manage',
+  'subscription:manage',
+  'subscription:review',
+  'admin:manage',
+  'audit:read',
+  'scheduler:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ADMIN_ROLES = ['super_admin', 'moderator', 'billing_admin', 'support'] as const;
+
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+// Permissions for non-admin account roles
+export const ROLE_PERMISSIONS: Record<string, readonly Permission[]> = {
+  institute: [
+    'vehicle:browse',
+    'vehicle:create',
+    'vehicle:manage',
+    'job:create',
+    'job:manage',
+    'application:review',
+    'organization:create',
+    'organization:join',
+    'api_key:manage',
+  ],
+  teacher: ['vehicle:browse', 'job:apply'],
+  vendor: ['product:create'],
+  guest: ['vehicle:browse'],
+};
+
+// Permissions for admin sub-roles
+export const ADMIN_ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  super_admin: PERMISSIONS,
+  moderator: [
+    'vehicle:browse',
+    'vehicle:manage',
+    'vehicle:moderate',
+    'job:manage',
+    'application:review',
+    'supplier:moderate',
+    'ad:manage',
+    'stats:read',
+    'user:read',
+  ],
+  billing_admin: [
+    'vehicle:browse',
+    'subscription:manage',
+    'subscription:review',
+    'stats:read',
+    'user:read',
+  ],
+  support: [
+    'vehicle:browse',
+    'stats:read',
+    'user:read',
+    'user:manage',
+    'user:impersonate',
+    'session:manage',
+    'audit:read',
+  ],
+};
+
+// Scopes an API key can carry: `resource:read` allows GET requests to the
+// resource's router, `resource:write` allows every method. The key's user
+// must still hold the permission each route requires.
+export const API_KEY_SCOPES = ['jobs:read', 'jobs:write', 'vehicles:read', 'vehicles:write'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// Router (mounted under API_PREFIX) that each scope resource opens to API keys.
+// Every other route refuses API-key authentication.
+export const API_KEY_SCOPE_ROUTES: Record<string, string> = {
+  jobs: '/jobs',
+  vehicles: '/vehicles',
+};
@@ -1,4 +1,5 @@
 import { Response } from 'express';
+import mongoose from 'mongoose';
 import Vehicle from '../models/Vehicle.js';
 import User from '../models/User.js';
 import Job from '../models/Job.js';
@@ -6,6 +7,16 @@ import Supplier from '../models/Supplier.js';
 import SubscriptionPlan from '../models/SubscriptionPlan.js';
 import Notification from '../models/Notification.js';
 import { AuthRequest } from '../middleware/auth.js';
+import AuditLog from '../models/AuditLog.js';
+import { ENV } from '../config/environment.js';
+import { revokeAllSessions, createImpersonationSession } from '../services/sessionService.js';
+import { recordAudit } from '../services/auditLog.js';
+import { listAccountLockouts, clearAccountLockout } from '../services/loginProtection.js';
+import { hasPermission } from '../services/permissionService.js';
+import { vehicleExpiryDate } from '../services/listingExpiry.js';
+import { findRegistrationConflicts, findRegistrationConflictsFor } from '../services/registrationConflicts.js';
+import { notifySavedSearchMatches } from '../services/savedSearchAlerts.js';
+import { ADMIN_ROLES } from '../config/permissions.js';
 
 // @desc    Get admin dashboard stats
 // @route   GET /api/admin/stats
@@ -67,9 +78,15 @@ export const getPendingVehicles = async (req: AuthRequest, res: Response): Promi
       .sort({ createdAt: -1 })
       .lean();
 
+    // Other active listings with the same registration number
+    const conflicts = await findRegistrationConflictsFor(vehicles);
+
     res.status(200).json({
       success: true,
-      data: vehicles,
+      data: vehicles.map((vehicle) => ({
+        ...vehicle,
+        registrationConflicts: conflicts.get(String(vehicle._id)) ?? [],
+      })),
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -87,7 +104,7 @@ export const getPendingVehicles = async (req: AuthRequest, res: Response): Promi
 // @access  Private (Admin)
 export const approveVehicle = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { status, reason } = req.body;
+    const { status, reason, allowDuplicate } = req.body;
     const vehicleId = req.params.id;
 
     if (!['approved', 'rejected'].includes(status)) {
@@ -110,7 +127,29 @@ export const approveVehicle = async (req: AuthRequest, res: Response): Promise<v
       return;
     }
 
-    vehicle.status = status;
+    // Approving over a live listing of the same vehicle needs an explicit override
+    if (status === 'approved' && allowDuplicate !== true) {
+      const live = await findRegistrationConflicts(vehicle.registrationNumber, {
+        excludeId: vehicle._id as mongoose.Types.ObjectId,
+        statuses: ['approved', 'reserved'],
+      });
+      if (live.length > 0) {
+        res.status(409).json({
+          success: false,
+          error: 'Another live listing uses this registration number. Resend with allowDuplicate to approve anyway.',
+          code: 'REGISTRATION_CONFLICT',
+          conflicts: live,
+        });
+        return;
+      }
+    }
+
+    vehicle.setStatus(status, req.user!._id, reason);
+    if (status === 'approved') {
+      // The listing lifetime starts when it goes live
+      vehicle.expiresAt = await vehicleExpiryDate(vehicle.sellerId);
+      vehicle.expiryReminderSentAt = undefined;
+    }
     await vehicle.save();
 
     // Create notification for vehicle owner
@@ -133,6 +172,15 @@ export const approveVehicle = async (req: AuthRequest, res: Response): Promise<v
       // Continue even if notification fails
     }
 
+    // Buyers whose saved searches match the new listing
+    if (status === 'approved') {
+      try {
+        await notifySavedSearchMatches(vehicle);
+      } catch (alertError) {
+        console.error('Failed to send saved search alerts:', alertError);
+      }
+    }
+
     res.status(200).json({
       success: true,
       data: vehicle,
@@ -242,6 +290,16 @@ export const updateUserStatus = async (req: AuthRequest, res: Response): Promise
       return;
     }
 
+    // Changing the plan is a billing action, not just account management
+    if (planId && !hasPermission(req.user, 'subscription:manage')) {
+      res.status(403).json({
+        success: false,
+        error: 'Insufficient permissions to change subscription plans',
+        code: 'FORBIDDEN',
+      });
+      return;
+    }
+
     if (isActive !== undefined) {
       user.isActive = isActive;
     }
@@ -274,6 +332,11 @@ export const updateUserStatus = async (req: AuthRequest, res: Response): Promise
 
     await user.save();
 
+    // Deactivation takes effect immediately on every device
+    if (isActive === false) {
+      await revokeAllSessions(user._id, 'account_deactivated');
+    }
+
     res.status(200).json({
       success: true,
       data: user,
@@ -288,4 +351,254 @@ export const updateUserStatus = async (req: AuthRequest, res: Response): Promise
       code: 'UPDATE_ERROR',
     });
   }
-};
\ No newline at end of file
+};
+
+// @desc    List accounts currently locked out after failed logins
+// @route   GET /api/admin/lockouts
+// @access  Private (Admin)
+export const getLockouts = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const lockouts = await listAccountLockouts();
+
+    res.status(200).json({
+      success: true,
+      data: lockouts.map((lockout) => ({
+        email: lockout.email,
+        lockedUntil: lockout.lockedUntil,
+        lockoutCount: lockout.lockoutCount,
+        lastFailureAt: lockout.lastFailureAt,
+      })),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Get lockouts error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch lockouts',
+      code: 'FETCH_ERROR',
+    });
+  }
+};
+
+// @desc    Clear a user's login lockout
+// @route   DELETE /api/admin/users/:id/lockout
+// @access  Private (Admin)
+export const clearUserLockout = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.params.id).select('email');
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    await clearAccountLockout(user.email);
+
+    res.status(200).json({
+      success: true,
+      data: { cleared: true },
+      message: 'Lockout cleared',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Clear lockout error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to clear lockout',
+      code: 'UPDATE_ERROR',
+    });
+  }
+};
+
+// @desc    Set an admin's sub-role (moderator, billing admin, ...)
+// @route   PUT /api/admin/users/:id/admin-role
+// @access  Private (Super Admin)
+export const updateAdminRole = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { adminRole } = req.body;
+
+    if (!ADMIN_ROLES.includes(adminRole)) {
+      res.status(400).json({
+        success: false,
+        error: `Admin role must be one of: ${ADMIN_ROLES.join(', ')}`,
+        code: 'VALIDATION_ERROR',
+      });
+      return;
+    }
+
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    if (user.role !== 'admin') {
+      res.status(400).json({
+        success: false,
+        error: 'Admin roles can only be assigned to admin accounts',
+        code: 'NOT_AN_ADMIN',
+      });
+      return;
+    }
+
+    // Guard against an admin locking themselves out of admin management
+    if (user._id.toString() === req.userId && adminRole !== 'super_admin') {
+      res.status(400).json({
+        success: false,
+        error: 'You cannot remove your own super admin role',
+        code: 'SELF_DEMOTION',
+      });
+      return;
+    }
+
+    user.adminRole = adminRole;
+    await user.save({ validateBeforeSave: false });
+
+    res.status(200).json({
+      success: true,
+      data: { _id: user._id, adminRole: user.adminRole },
+      message: 'Admin role updated',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Update admin role error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update admin role',
+      code: 'UPDATE_ERROR',
+    });
+  }
+};
+
+// @desc    Sign in as a user for support (time-limited, audited)
+// @route   POST /api/admin/users/:id/impersonate
+// @access  Private (Admin)
+export const impersonateUser = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { reason } = req.body;
+    const user = await User.findById(req.params.id).select('name email role isActive');
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    if (user.role === 'admin') {
+      res.status(403).json({
+        success: false,
+        error: 'Admin accounts cannot be impersonated',
+        code: 'IMPERSONATION_FORBIDDEN',
+      });
+      return;
+    }
+
+    if (!user.isActive) {
+      res.status(400).json({
+        success: false,
+        error: 'Account is deactivated',
+        code: 'ACCOUNT_DEACTIVATED',
+      });
+      return;
+    }
+
+    const ttlMinutes = ENV.IMPERSONATION_TTL_MINUTES;
+    const { accessToken, session } = await createImpersonationSession(req.userId!, user._id, req, ttlMinutes);
+
+    await recordAudit(
+      {
+        action: 'impersonation.start',
+        actorId: req.userId!,
+        subjectUserId: user._id,
+        sessionId: session._id,
+        statusCode: 200,
+        metadata: reason ? { reason: String(reason).slice(0, 500) } : undefined,
+      },
+      req
+    );
+
+    res.status(200).json({
+      success: true,
+      data: {
+        token: accessToken,
+        expiresAt: session.expiresAt,
+        impersonated: true,
+        user: {
+          id: user._id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+        },
+      },
+      message: `Signed in as ${user.email} for ${ttlMinutes} minutes`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Impersonate user error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to impersonate user',
+      code: 'IMPERSONATION_ERROR',
+    });
+  }
+};
+
+// @desc    Get audit log entries
+// @route   GET /api/admin/audit-logs
+// @access  Private (Admin)
+export const getAuditLogs = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { action, actorId, subjectUserId, page = 1, pageSize = 50 } = req.query;
+
+    const query: any = {};
+    if (action) query.action = action;
+    if (actorId) query.actorId = actorId;
+    if (subjectUserId) query.subjectUserId = subjectUserId;
+
+    const pageNum = Math.max(1, Number(page));
+    const limit = Math.min(200, Math.max(1, Number(pageSize)));
+    const skip = (pageNum - 1) * limit;
+
+    const [entries, total] = await Promise.all([
+      AuditLog.find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .populate('actorId', 'name email')
+        .populate('subjectUserId', 'name email')
+        .lean(),
+      AuditLog.countDocuments(query),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        items: entries,
+        total,
+        page: pageNum,
+        pageSize: limit,
+        hasMore: skip + entries.length < total,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Get audit logs error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch audit logs',
+      code: 'FETCH_ERROR',
+    });
+  }
+};
@@ -0,0 +1,190 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.js';
+import { IApiKey } from '../models/ApiKey.js';
+import { API_KEY_SCOPES, ApiKeyScope } from '../config/permissions.js';
+import { ENV } from '../config/environment.js';
+import {
+  createApiKey,
+  countActiveApiKeys,
+  listApiKeys,
+  revokeApiKey,
+} from '../services/apiKeyService.js';
+import { findMembership, roleHasCapability } from '../services/organizationService.js';
+import { recordAudit } from '../services/auditLog.js';
+
+// Shape a key for API responses (never exposes the hash)
+const serializeApiKey = (apiKey: IApiKey) => ({
+  id: apiKey._id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  owner: apiKey.userId,
+  organizationId: apiKey.organizationId,
+  lastUsedAt: apiKey.lastUsedAt,
+  lastUsedIp: apiKey.lastUsedIp,
+  expiresAt: apiKey.expiresAt,
+  revokedAt: apiKey.revokedAt,
+  createdAt: apiKey.createdAt,
+  active: !apiKey.revokedAt && (!apiKey.expiresAt || apiKey.expiresAt > new Date()),
+});
+
+// Organization whose keys the user may manage (owners and principals)
+const managedOrganizationId = async (userId: string) => {
+  const membership = await findMembership(userId);
+  return membership && roleHasCapability(membership.member.role, 'manage_members')
+    ? membership.organization._id
+    : undefined;
+};
+
+// @desc    List my API keys (and my organization's, for its managers)
+// @route   GET /api/auth/api-keys
+// @access  Private (Institute)
+export const getMyApiKeys = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const apiKeys = await listApiKeys(req.userId!, await managedOrganizationId(req.userId!));
+
+    res.status(200).json({
+      success: true,
+      data: apiKeys.map(serializeApiKey),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Get API keys error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch API keys',
+      code: 'FETCH_ERROR',
+    });
+  }
+};
+
+// @desc    Create an API key. The key is only shown in this response.
+// @route   POST /api/auth/api-keys
+// @access  Private (Institute)
+export const createMyApiKey = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { name, scopes, expiresInDays } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      res.status(400).json({
+        success: false,
+        error: 'Key name is required',
+        code: 'VALIDATION_ERROR',
+      });
+      return;
+    }
+
+    if (
+      !Array.isArray(scopes) ||
+      scopes.length === 0 ||
+      !scopes.every((scope) => API_KEY_SCOPES.includes(scope))
+    ) {
+      res.status(400).json({
+        success: false,
+        error: `Scopes must be one or more of: ${API_KEY_SCOPES.join(', ')}`,
+        code: 'INVALID_SCOPES',
+      });
+      return;
+    }
+
+    let expiresAt: Date | undefined;
+    if (expiresInDays !== undefined) {
+      const days = Number(expiresInDays);
+      if (!Number.isInteger(days) || days < 1 || days > 365) {
+        res.status(400).json({
+          success: false,
+          error: 'expiresInDays must be a whole number between 1 and 365',
+          code: 'VALIDATION_ERROR',
+        });
+        return;
+      }
+      expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+    }
+
+    if ((await countActiveApiKeys(req.userId!)) >= ENV.MAX_API_KEYS_PER_USER) {
+      res.status(400).json({
+        success: false,
+        error: `You can have at most ${ENV.MAX_API_KEYS_PER_USER} active API keys. Revoke one first.`,
+        code: 'API_KEY_LIMIT_REACHED',
+      });
+      return;
+    }
+
+    const membership = await findMembership(req.userId!);
+    const { apiKey, key } = await createApiKey(req.userId!, {
+      name: name.trim(),
+      scopes: scopes as ApiKeyScope[],
+      organizationId: membership?.organization._id,
+      expiresAt,
+    });
+
+    await recordAudit(
+      {
+        action: 'api_key.created',
+        actorId: req.userId!,
+        subjectUserId: req.userId!,
+        metadata: { apiKeyId: apiKey._id.toString(), scopes: apiKey.scopes },
+      },
+      req
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { ...serializeApiKey(apiKey), key },
+      message: 'API key created. Copy it now: it will not be shown again.',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Create API key error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create API key',
+      code: 'CREATE_ERROR',
+    });
+  }
+};
+
+// @desc    Revoke an API key
+// @route   DELETE /api/auth/api-keys/:id
+// @access  Private (Institute)
+export const revokeMyApiKey = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const revoked = await revokeApiKey(
+      req.userId!,
+      req.params.id as string,
+      await managedOrganizationId(req.userId!)
+    );
+
+    if (!revoked) {
+      res.status(404).json({
+        success: false,
+        error: 'API key not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    await recordAudit(
+      {
+        action: 'api_key.revoked',
+        actorId: req.userId!,
+        metadata: { apiKeyId: req.params.id },
+      },
+      req
+    );
+
+    res.status(200).json({
+      success: true,
+      data: { revoked: true },
+      message: 'API key revoked',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Revoke API key error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke API key',
+      code: 'REVOKE_ERROR',
+    });
+  }
+};
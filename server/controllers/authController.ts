@@ -1,14 +1,97 @@
 import { Response } from 'express';
 import jwt from 'jsonwebtoken';
-import User from '../models/User.js';
-import SubscriptionPlan from '../models/SubscriptionPlan.js';
+import User, { IUser } from '../models/User.js';
 import { JWT_CONFIG } from '../config/jwt.js';
+import { ENV } from '../config/environment.js';
 import { AuthRequest } from '../middleware/auth.js';
+import { buildFreeSubscription } from '../services/subscriptionService.js';
+import {
+  getAccountLock,
+  registerFailedLogin,
+  registerSuccessfulLogin,
+} from '../services/loginProtection.js';
+import { sendTooManyAttempts } from '../middleware/rateLimit.js';
+import { sendMail } from '../services/mailer.js';
+import {
+  passwordResetEmail,
+  passwordChangedEmail,
+  emailVerificationEmail,
+} from '../services/emailTemplates.js';
+import { createHashedToken, hashToken } from '../utils/tokens.js';
+import {
+  createSession,
+  rotateSession,
+  deleteSessionByToken,
+  deleteSessionById,
+  revokeAllSessions,
+  setAuthCookies,
+  clearAuthCookies,
+  getRefreshTokenFromRequest,
+} from '../services/sessionService.js';
+import {
+  TWO_FACTOR_FIELDS,
+  isTwoFactorRequired,
+  issueChallengeToken,
+  verifyChallengeToken,
+  verifySecondFactor,
+} from '../services/twoFactorService.js';
+
+// Issue a fresh verification token for the user and email the link.
+// Any previously issued verification link stops working.
+const sendVerificationEmail = async (user: IUser): Promise<void> => {
+  const { token, hash } = createHashedToken();
+  const ttlHours = ENV.EMAIL_VERIFICATION_TTL_HOURS;
+
+  user.emailVerificationToken = hash;
+  user.emailVerificationExpires = new Date(Date.now() + ttlHours * 60 * 60 * 1000);
+  user.emailVerificationSentAt = new Date();
+  await user.save({ validateBeforeSave: false });
+
+  const verifyUrl = `${ENV.CLIENT_URL}/verify-email?token=${token}`;
+  await sendMail(emailVerificationEmail(user.email, user.name, verifyUrl, ttlHours));
+};
 
-// Generate JWT token
-const generateToken = (userId: string): string => {
-  return jwt.sign({ userId }, JWT_CONFIG.secret, {
-    expiresIn: JWT_CONFIG.expiresIn as any,
+// Public profile fields returned by the auth endpoints
+const buildUserData = (user: IUser) => ({
+  id: user._id,
+  name: user.name,
+  email: user.email,
+  role: user.role,
+  isVerified: user.isVerified,
+  instituteName: user.instituteName,
+  contactPerson: user.contactPerson,
+  avatar: user.avatar,
+  phone: user.phone,
+  location: user.location,
+  experience: user.experience,
+  qualifications: user.qualifications,
+  subjects: user.subjects,
+  bio: user.bio,
+  isAvailable: user.isAvailable,
+  deletionScheduledFor: user.deletionScheduledFor,
+});
+
+// Start a session, set auth cookies and send the standard login payload
+const sendLoginResponse = async (
+  req: AuthRequest,
+  res: Response,
+  user: IUser,
+  message: string
+): Promise<void> => {
+  const tokens = await createSession(user._id, req);
+  setAuthCookies(res, tokens);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      user: buildUserData(user),
+      token: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      // Client should send the user to 2FA enrollment before anything else
+      twoFactorEnrollmentRequired: isTwoFactorRequired(user) && !user.twoFactor?.enabled,
+    },
+    message,
+    timestamp: new Date().toISOString(),
   });
 };
 
@@ -32,45 +115,8 @@ export const signup = async (req: AuthRequest, res: Response): Promise<void> =>
       return;
     }
 
-    // Determine plan type based on role
-    // Default to institute if not specified or unrecognized
-    let planType = 'institute';
-    if (role === 'teacher') {
-      planType = 'teacher';
-    } else if (role === 'supplier' || role === 'vendor') {
-      planType = 'vendor';
-    }
-
-    // Find default free plan
-    const freePlan = await SubscriptionPlan.findOne({
-      planType,
-      price: 0,
-      isActive: true
-    });
-
-    let subscription = undefined;
-
-    if (freePlan) {
-      const startDate = new Date();
-      const endDate = new Date();
-      endDate.setDate(endDate.getDate() + freePlan.duration);
-
-      subscription = {
-        planId: freePlan._id,
-        status: 'active' as const,
-        paymentStatus: 'completed' as const,
-        startDate,
-        endDate,
-        listingsUsed: 0,
-        listingsLimit: freePlan.features.maxListings,
-        jobPostsUsed: 0,
-        jobPostsLimit: freePlan.features.maxJobPosts,
-        browseCount: 0,
-        browseCountLimit: freePlan.features.maxBrowsesPerMonth,
-        lastBrowseReset: startDate,
-        notes: 'Free plan assigned on signup'
-      };
-    }
+    // Assign the role's free plan
+    const subscription = await buildFreeSubscription(role);
 
     // Create user
     const user = await User.create({
@@ -90,35 +136,26 @@ export const signup = async (req: AuthRequest, res: Response): Promise<void> =>
       subscription,
     });
 
-    // Generate token
-    const token = generateToken(user._id.toString());
+    // Send email verification link (signup still succeeds if mail fails)
+    try {
+      await sendVerificationEmail(user);
+    } catch (mailError) {
+      console.error('Failed to send verification email:', mailError);
+    }
 
-    // Set cookie
-    res.cookie('token', token, JWT_CONFIG.cookieOptions);
+    // Start session and set auth cookies
+    const tokens = await createSession(user._id, req);
+    setAuthCookies(res, tokens);
 
     // Return user data
-    const userData = {
-      id: user._id,
-      name: user.name,
-      email: user.email,
-      role: user.role,
-      instituteName: user.instituteName,
-      contactPerson: user.contactPerson,
-      avatar: user.avatar,
-      phone: user.phone,
-      location: user.location,
-      experience: user.experience,
-      qualifications: user.qualifications,
-      subjects: user.subjects,
-      bio: user.bio,
-      isAvailable: user.isAvailable,
-    };
+    const userData = buildUserData(user);
 
     res.status(201).json({
       success: true,
       data: {
         user: userData,
-        token,
+        token: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
       },
       message: 'User registered successfully',
       timestamp: new Date().toISOString(),
@@ -150,9 +187,26 @@ export const login = async (req: AuthRequest, res: Response): Promise<void> => {
       return;
     }
 
+    // Refuse attempts while the account is locked out
+    const lockedUntil = await getAccountLock(String(email));
+    if (lockedUntil) {
+      sendTooManyAttempts(res, lockedUntil, 'Too many failed login attempts. Please try again later');
+      return;
+    }
+
     // Find user and include password
-    const user = await User.findOne({ email }).select('+password');
-    if (!user) {
+    const user = await User.findOne({ email: String(email) }).select('+password');
+
+    // Check password (unknown emails count as failures too, so lockout
+    // behaviour does not reveal whether an account exists)
+    const isPasswordValid = user ? await user.comparePassword(password) : false;
+    if (!user || !isPasswordValid) {
+      const lockedNow = await registerFailedLogin(String(email));
+      if (lockedNow) {
+        sendTooManyAttempts(res, lockedNow, 'Too many failed login attempts. Please try again later');
+        return;
+      }
+
       res.status(401).json({
         success: false,
         error: 'Invalid email or password',
@@ -161,19 +215,72 @@ export const login = async (req: AuthRequest, res: Response): Promise<void> => {
       return;
     }
 
-    // Check password
-    const isPasswordValid = await user.comparePassword(password);
-    if (!isPasswordValid) {
+    // Check if account is active
+    if (!user.isActive) {
+      res.status(403).json({
+        success: false,
+        error: 'Account is deactivated',
+        code: 'ACCOUNT_DEACTIVATED',
+      });
+      return;
+    }
+
+    // Accounts with 2FA get a short-lived challenge instead of a session. Failed
+    // attempts are only cleared once the second factor is verified too, or the
+    // password alone would reset the lockout on code guessing.
+    if (user.twoFactor?.enabled) {
+      res.status(200).json({
+        success: true,
+        data: {
+          requiresTwoFactor: true,
+          challengeToken: issueChallengeToken(user._id.toString()),
+        },
+        message: 'Enter the code from your authenticator app',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    await registerSuccessfulLogin(user.email);
+    await sendLoginResponse(req, res, user, 'Login successful');
+  } catch (error) {
+    console.error('Login error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Login failed',
+      code: 'LOGIN_ERROR',
+    });
+  }
+};
+
+// @desc    Complete login with a TOTP or recovery code
+// @route   POST /api/auth/2fa/verify
+// @access  Public (requires challenge token from login)
+export const verifyTwoFactorLogin = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      res.status(400).json({
+        success: false,
+        error: 'Challenge token and a verification code are required',
+        code: 'MISSING_FIELDS',
+      });
+      return;
+    }
+
+    const userId = verifyChallengeToken(String(challengeToken));
+    if (!userId) {
       res.status(401).json({
         success: false,
-        error: 'Invalid email or password',
-        code: 'INVALID_CREDENTIALS',
+        error: 'Login challenge is invalid or has expired. Please log in again',
+        code: 'INVALID_CHALLENGE',
       });
       return;
     }
 
-    // Check if account is active
-    if (!user.isActive) {
+    const user = await User.findById(userId).select(TWO_FACTOR_FIELDS);
+    if (!user || !user.isActive) {
       res.status(403).json({
         success: false,
         error: 'Account is deactivated',
@@ -182,41 +289,38 @@ export const login = async (req: AuthRequest, res: Response): Promise<void> => {
       return;
     }
 
-    // Generate token
-    const token = generateToken(user._id.toString());
+    const lockedUntil = await getAccountLock(user.email);
+    if (lockedUntil) {
+      sendTooManyAttempts(res, lockedUntil, 'Too many failed login attempts. Please try again later');
+      return;
+    }
 
-    // Set cookie
-    res.cookie('token', token, JWT_CONFIG.cookieOptions);
+    const verified = verifySecondFactor(user, {
+      code: code ? String(code) : undefined,
+      recoveryCode: recoveryCode ? String(recoveryCode) : undefined,
+    });
+    if (!verified) {
+      const lockedNow = await registerFailedLogin(user.email);
+      if (lockedNow) {
+        sendTooManyAttempts(res, lockedNow, 'Too many failed login attempts. Please try again later');
+        return;
+      }
 
-    // Return user data
-    const userData = {
-      id: user._id,
-      name: user.name,
-      email: user.email,
-      role: user.role,
-      instituteName: user.instituteName,
-      contactPerson: user.contactPerson,
-      avatar: user.avatar,
-      phone: user.phone,
-      location: user.location,
-      experience: user.experience,
-      qualifications: user.qualifications,
-      subjects: user.subjects,
-      bio: user.bio,
-      isAvailable: user.isAvailable,
-    };
+      res.status(401).json({
+        success: false,
+        error: 'Invalid verification code',
+        code: 'INVALID_TWO_FACTOR_CODE',
+      });
+      return;
+    }
 
-    res.status(200).json({
-      success: true,
-      data: {
-        user: userData,
-        token,
-      },
-      message: 'Login successful',
-      timestamp: new Date().toISOString(),
-    });
+    // Persist replay step / consumed recovery code
+    await user.save({ validateBeforeSave: false });
+    await registerSuccessfulLogin(user.email);
+
+    await sendLoginResponse(req, res, user, 'Login successful');
   } catch (error) {
-    console.error('Login error:', error);
+    console.error('Verify 2FA login error:', error);
     res.status(500).json({
       success: false,
       error: 'Login failed',
@@ -227,11 +331,19 @@ export const login = async (req: AuthRequest, res: Response): Promise<void> => {
 
 // @desc    Logout user
 // @route   POST /api/auth/logout
-// @access  Private
+// @access  Public (uses refresh token cookie or access token session)
 export const logout = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    // Clear cookie
-    res.clearCookie('token');
+    // Delete the server-side session so its refresh token can no longer be used
+    const refreshToken = getRefreshTokenFromRequest(req);
+    if (refreshToken) {
+      await deleteSessionByToken(refreshToken);
+    } else if (req.sessionId) {
+      await deleteSessionById(req.sessionId);
+    }
+
+    // Clear cookies
+    clearAuthCookies(res);
 
     res.status(200).json({
       success: true,
@@ -282,6 +394,7 @@ export const getCurrentUser = async (req: AuthRequest, res: Response): Promise<v
       name: user.name,
       email: user.email,
       role: user.role,
+      isVerified: user.isVerified,
       instituteName: user.instituteName,
       contactPerson: user.contactPerson,
       avatar: user.avatar,
@@ -293,6 +406,8 @@ export const getCurrentUser = async (req: AuthRequest, res: Response): Promise<v
       bio: user.bio,
       isAvailable: user.isAvailable,
       subscription: user.subscription,
+      // Lets the client show an "acting as" banner
+      impersonatedBy: req.impersonatorId,
     };
 
     res.status(200).json({
@@ -342,29 +457,75 @@ export const validateToken = async (req: AuthRequest, res: Response): Promise<vo
   }
 };
 
-// @desc    Refresh token
+// @desc    Rotate refresh token and issue a new access token
 // @route   POST /api/auth/refresh
-// @access  Private
+// @access  Public (requires refresh token)
 export const refreshToken = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    if (!req.user) {
+    const presentedToken = getRefreshTokenFromRequest(req);
+
+    if (!presentedToken) {
       res.status(401).json({
         success: false,
-        error: 'Not authenticated',
-        code: 'NOT_AUTHENTICATED',
+        error: 'Refresh token required',
+        code: 'REFRESH_TOKEN_REQUIRED',
+      });
+      return;
+    }
+
+    const result = await rotateSession(presentedToken, req);
+
+    if (result.status === 'reused') {
+      console.warn(`Refresh token reuse detected for session ${result.session._id}; session revoked`);
+      clearAuthCookies(res);
+      res.status(401).json({
+        success: false,
+        error: 'Refresh token has already been used. Please log in again',
+        code: 'REFRESH_TOKEN_REUSED',
+      });
+      return;
+    }
+
+    if (result.status === 'revoked') {
+      clearAuthCookies(res);
+      res.status(401).json({
+        success: false,
+        error: 'Session has been revoked. Please log in again',
+        code: 'SESSION_REVOKED',
+      });
+      return;
+    }
+
+    if (result.status === 'invalid') {
+      clearAuthCookies(res);
+      res.status(401).json({
+        success: false,
+        error: 'Invalid or expired refresh token',
+        code: 'INVALID_REFRESH_TOKEN',
       });
       return;
     }
 
-    // Generate new token
-    const token = generateToken(req.user._id.toString());
+    const user = await User.findById(result.session.userId);
+    if (!user || !user.isActive) {
+      await deleteSessionById(result.session._id.toString());
+      clearAuthCookies(res);
+      res.status(403).json({
+        success: false,
+        error: 'Account is deactivated',
+        code: 'ACCOUNT_DEACTIVATED',
+      });
+      return;
+    }
 
-    // Set cookie
-    res.cookie('token', token, JWT_CONFIG.cookieOptions);
+    setAuthCookies(res, result);
 
     res.status(200).json({
       success: true,
-      data: { token },
+      data: {
+        token: result.accessToken,
+        refreshToken: result.refreshToken,
+      },
       message: 'Token refreshed successfully',
       timestamp: new Date().toISOString(),
     });
@@ -376,4 +537,309 @@ export const refreshToken = async (req: AuthRequest, res: Response): Promise<voi
       code: 'REFRESH_ERROR',
     });
   }
-};
\ No newline at end of file
+};
+
+// @desc    Request password reset email
+// @route   POST /api/auth/forgot-password
+// @access  Public
+export const forgotPassword = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email || typeof email !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Email is required',
+        code: 'MISSING_FIELDS',
+      });
+      return;
+    }
+
+    const user = await User.findOne({ email: email.toLowerCase().trim() });
+
+    // Only active accounts get a reset link, but the response is the same
+    // either way so the endpoint cannot be used to discover accounts
+    if (user && user.isActive) {
+      const { token, hash } = createHashedToken();
+      const ttlMinutes = ENV.PASSWORD_RESET_TTL_MINUTES;
+
+      user.passwordResetToken = hash;
+      user.passwordResetExpires = new Date(Date.now() + ttlMinutes * 60 * 1000);
+      await user.save({ validateBeforeSave: false });
+
+      const resetUrl = `${ENV.CLIENT_URL}/reset-password?token=${token}`;
+
+      try {
+        await sendMail(passwordResetEmail(user.email, user.name, resetUrl, ttlMinutes));
+      } catch (mailError) {
+        console.error('Failed to send password reset email:', mailError);
+      }
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { requested: true },
+      message: 'If an account exists for this email, a password reset link has been sent',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to process password reset request',
+      code: 'FORGOT_PASSWORD_ERROR',
+    });
+  }
+};
+
+// @desc    Reset password using emailed token
+// @route   POST /api/auth/reset-password
+// @access  Public
+export const resetPassword = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || !password || typeof token !== 'string' || typeof password !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Token and new password are required',
+        code: 'MISSING_FIELDS',
+      });
+      return;
+    }
+
+    if (password.length < 6) {
+      res.status(400).json({
+        success: false,
+        error: 'Password must be at least 6 characters',
+        code: 'VALIDATION_ERROR',
+      });
+      return;
+    }
+
+    const user = await User.findOne({
+      passwordResetToken: hashToken(token),
+      passwordResetExpires: { $gt: new Date() },
+    }).select('+passwordResetToken +passwordResetExpires');
+
+    if (!user) {
+      res.status(400).json({
+        success: false,
+        error: 'Password reset link is invalid or has expired',
+        code: 'INVALID_RESET_TOKEN',
+      });
+      return;
+    }
+
+    // Setting the password stamps passwordChangedAt (see User pre-save hook),
+    // which invalidates every access token issued before now
+    user.password = password;
+    user.passwordResetToken = undefined;
+    user.passwordResetExpires = undefined;
+    await user.save();
+
+    // Sign out everywhere
+    await revokeAllSessions(user._id, 'password_reset');
+    clearAuthCookies(res);
+
+    try {
+      await sendMail(passwordChangedEmail(user.email, user.name));
+    } catch (mailError) {
+      console.error('Failed to send password changed email:', mailError);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { reset: true },
+      message: 'Password has been reset. Please log in with your new password',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reset password',
+      code: 'RESET_PASSWORD_ERROR',
+    });
+  }
+};
+
+// @desc    Change my password (signs out every other session)
+// @route   POST /api/auth/change-password
+// @access  Private
+export const changePassword = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    if (!newPassword || typeof newPassword !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'New password is required',
+        code: 'MISSING_FIELDS',
+      });
+      return;
+    }
+
+    if (newPassword.length < 6) {
+      res.status(400).json({
+        success: false,
+        error: 'Password must be at least 6 characters',
+        code: 'VALIDATION_ERROR',
+      });
+      return;
+    }
+
+    const user = await User.findById(req.userId).select('+password');
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    // Accounts created through Google have no password to confirm yet
+    if (user.password && !(await user.comparePassword(String(currentPassword || '')))) {
+      res.status(401).json({
+        success: false,
+        error: 'Current password is incorrect',
+        code: 'INVALID_CREDENTIALS',
+      });
+      return;
+    }
+
+    user.password = newPassword;
+    await user.save();
+
+    // The change invalidates existing tokens, so start a fresh session here
+    await revokeAllSessions(user._id, 'password_changed');
+
+    try {
+      await sendMail(passwordChangedEmail(user.email, user.name));
+    } catch (mailError) {
+      console.error('Failed to send password changed email:', mailError);
+    }
+
+    await sendLoginResponse(req, res, user, 'Password changed successfully');
+  } catch (error) {
+    console.error('Change password error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to change password',
+      code: 'CHANGE_PASSWORD_ERROR',
+    });
+  }
+};
+
+// @desc    Confirm email address using emailed token
+// @route   GET /api/auth/verify-email
+// @access  Public
+export const verifyEmail = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { token } = req.query;
+
+    if (!token || typeof token !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Verification token is required',
+        code: 'MISSING_FIELDS',
+      });
+      return;
+    }
+
+    const user = await User.findOne({
+      emailVerificationToken: hashToken(token),
+      emailVerificationExpires: { $gt: new Date() },
+    }).select('+emailVerificationToken +emailVerificationExpires');
+
+    if (!user) {
+      res.status(400).json({
+        success: false,
+        error: 'Verification link is invalid or has expired',
+        code: 'INVALID_VERIFICATION_TOKEN',
+      });
+      return;
+    }
+
+    user.isVerified = true;
+    user.emailVerificationToken = undefined;
+    user.emailVerificationExpires = undefined;
+    await user.save({ validateBeforeSave: false });
+
+    res.status(200).json({
+      success: true,
+      data: { verified: true },
+      message: 'Email verified successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to verify email',
+      code: 'VERIFY_EMAIL_ERROR',
+    });
+  }
+};
+
+// @desc    Resend email verification link
+// @route   POST /api/auth/resend-verification
+// @access  Private
+export const resendVerification = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.userId);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    if (user.isVerified) {
+      res.status(400).json({
+        success: false,
+        error: 'Email is already verified',
+        code: 'ALREADY_VERIFIED',
+      });
+      return;
+    }
+
+    // Throttle resends per account
+    const cooldownMs = ENV.EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS * 1000;
+    const lastSentAt = user.emailVerificationSentAt?.getTime() ?? 0;
+    const waitMs = lastSentAt + cooldownMs - Date.now();
+
+    if (waitMs > 0) {
+      const retryAfter = Math.ceil(waitMs / 1000);
+      res.setHeader('Retry-After', String(retryAfter));
+      res.status(429).json({
+        success: false,
+        error: `Please wait ${retryAfter} seconds before requesting another verification email`,
+        code: 'VERIFICATION_THROTTLED',
+        retryAfter,
+      });
+      return;
+    }
+
+    await sendVerificationEmail(user);
+
+    res.status(200).json({
+      success: true,
+      data: { sent: true },
+      message: 'Verification email sent',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send verification email',
+      code: 'RESEND_VERIFICATION_ERROR',
+    });
+  }
+};
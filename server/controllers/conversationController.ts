@@ -0,0 +1,451 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Conversation, { ConversationSide, IConversation } from '../models/Conversation.js';
+import Message, { IMessageAttachment } from '../models/Message.js';
+import Notification from '../models/Notification.js';
+import { AuthRequest } from '../middleware/auth.js';
+import {
+  CONVERSATION_SUBJECT_TYPES,
+  ConversationSubject,
+  findConversationSubject,
+  findOrStartConversation,
+  sellerAccountIds,
+  conversationSide,
+  postMessage,
+  markConversationRead,
+  countUnreadMessages,
+} from '../services/conversationService.js';
+import { canManageInstituteRecord } from '../services/organizationService.js';
+import { hasPermission } from '../services/permissionService.js';
+import { maskEmail, maskPhone } from '../utils/contactMask.js';
+
+const MAX_ATTACHMENTS = 5;
+
+// Shape a conversation for the viewer's side of it
+const serializeConversation = (conversation: IConversation, side: ConversationSide) => ({
+  id: conversation._id,
+  subjectType: conversation.subjectType,
+  subjectId: conversation.subjectId,
+  subjectTitle: conversation.subjectTitle,
+  buyer: conversation.buyerId,
+  seller: conversation.sellerId,
+  side,
+  unreadCount: side === 'buyer' ? conversation.buyerUnreadCount : conversation.sellerUnreadCount,
+  lastMessageAt: conversation.lastMessageAt,
+  lastMessagePreview: conversation.lastMessagePreview,
+  contactRevealed: !!conversation.contactRevealedAt,
+  createdAt: conversation.createdAt,
+});
+
+// Seller contact details, masked for the buyer until the seller reveals them
+const sellerContactFor = (conversation: IConversation, side: ConversationSide, subject: ConversationSubject | null) => {
+  if (!subject) return null;
+
+  const { contact } = subject;
+  if (side === 'seller' || conversation.contactRevealedAt) {
+    return contact;
+  }
+
+  return { name: contact.name, email: maskEmail(contact.email), phone: maskPhone(contact.phone) };
+};
+
+// Validate attachment references (files uploaded beforehand through /api/upload)
+const parseAttachments = (raw: unknown): IMessageAttachment[] | null => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw) || raw.length > MAX_ATTACHMENTS) return null;
+
+  const attachments: IMessageAttachment[] = [];
+  for (const item of raw) {
+    if (
+      !item ||
+      typeof item.url !== 'string' ||
+      typeof item.name !== 'string' ||
+      !(item.url.startsWith('/uploads/') || item.url.startsWith('https://'))
+    ) {
+      return null;
+    }
+    attachments.push({
+      url: item.url,
+      name: item.name.slice(0, 200),
+      mimeType: typeof item.mimeType === 'string' ? item.mimeType : undefined,
+      size: typeof item.size === 'number' ? item.size : undefined,
+    });
+  }
+
+  return attachments;
+};
+
+// Validate a message body/attachments pair, answering 400 if unusable
+const readMessageInput = (req: AuthRequest, res: Response): { body: string; attachments: IMessageAttachment[] } | null => {
+  const body = typeof req.body.message === 'string' ? req.body.message.trim() : '';
+  const attachments = parseAttachments(req.body.attachments);
+
+  if (!attachments) {
+    res.status(400).json({
+      success: false,
+      error: `Attachments must be at most ${MAX_ATTACHMENTS} uploaded files ({ url, name })`,
+      code: 'INVALID_ATTACHMENTS',
+    });
+    return null;
+  }
+
+  if (!body && attachments.length === 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Message cannot be empty',
+      code: 'VALIDATION_ERROR',
+    });
+    return null;
+  }
+
+  if (body.length > 2000) {
+    res.status(400).json({
+      success: false,
+      error: 'Message cannot exceed 2000 characters',
+      code: 'VALIDATION_ERROR',
+    });
+    return null;
+  }
+
+  return { body, attachments };
+};
+
+// Load a conversation the user takes part in, answering 404 otherwise
+const loadConversation = async (
+  req: AuthRequest,
+  res: Response
+): Promise<{ conversation: IConversation; side: ConversationSide } | null> => {
+  const conversation = mongoose.isValidObjectId(req.params.id)
+    ? await Conversation.findById(req.params.id)
+    : null;
+  const side = conversation ? await conversationSide(req.user!, conversation) : null;
+
+  if (!conversation || !side) {
+    res.status(404).json({
+      success: false,
+      error: 'Conversation not found',
+      code: 'NOT_FOUND',
+    });
+    return null;
+  }
+
+  return { conversation, side };
+};
+
+// @desc    List my conversations (buying or selling inbox)
+// @route   GET /api/conversations?box=buying|selling
+// @access  Private
+export const getConversations = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { box = 'buying', unreadOnly, page = 1, pageSize = 20 } = req.query;
+
+    if (box !== 'buying' && box !== 'selling') {
+      res.status(400).json({
+        success: false,
+        error: 'box must be "buying" or "selling"',
+        code: 'VALIDATION_ERROR',
+      });
+      return;
+    }
+
+    const side: ConversationSide = box === 'buying' ? 'buyer' : 'seller';
+    const query: any =
+      side === 'buyer'
+        ? { buyerId: req.userId }
+        : { sellerId: { $in: await sellerAccountIds(req.userId!) } };
+
+    if (unreadOnly === 'true') {
+      query[side === 'buyer' ? 'buyerUnreadCount' : 'sellerUnreadCount'] = { $gt: 0 };
+    }
+
+    const pageNum = Math.max(1, Number(page) || 1);
+    const limit = Math.min(100, Math.max(1, Number(pageSize) || 20));
+    const skip = (pageNum - 1) * limit;
+
+    const [conversations, total] = await Promise.all([
+      Conversation.find(query)
+        .populate(side === 'buyer' ? 'sellerId' : 'buyerId', 'name instituteName avatar')
+        .sort({ lastMessageAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      Conversation.countDocuments(query),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        items: conversations.map((conversation) => serializeConversation(conversation, side)),
+        total,
+        page: pageNum,
+        pageSize: limit,
+        hasMore: skip + conversations.length < total,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Get conversations error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch conversations',
+      code: 'FETCH_ERROR',
+    });
+  }
+};
+
+// @desc    Unread message counts for my inboxes
+// @route   GET /api/conversations/unread-count
+// @access  Private
+export const getUnreadMessageCount = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { buying, selling } = await countUnreadMessages(req.userId!);
+
+    res.status(200).json({
+      success: true,
+      data: { buying, selling, total: buying + selling },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Get unread message count error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch unread count',
+      code: 'FETCH_ERROR',
+    });
+  }
+};
+
+// @desc    Ask the seller of a listing a question (starts or continues my thread)
+// @route   POST /api/conversations
+// @access  Private (verified)
+export const startConversation = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { subjectType, subjectId } = req.body;
+
+    if (!CONVERSATION_SUBJECT_TYPES.includes(subjectType)) {
+      res.status(400).json({
+        success: false,
+        error: `subjectType must be one of: ${CONVERSATION_SUBJECT_TYPES.join(', ')}`,
+        code: 'VALIDATION_ERROR',
+      });
+      return;
+    }
+
+    if (subjectType === 'vehicle' && !hasPermission(req.user, 'vehicle:browse')) {
+      res.status(403).json({
+        success: false,
+        error: 'Vehicle browsing is not applicable for your account',
+        code: 'ACCESS_DENIED',
+      });
+      return;
+    }
+
+    const input = readMessageInput(req, res);
+    if (!input) return;
+
+    const subject = await findConversationSubject(subjectType, subjectId);
+    if (!subject) {
+      res.status(404).json({
+        success: false,
+        error: 'Listing not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    // Sellers (and their staff) cannot open an inquiry on their own listing
+    if (await canManageInstituteRecord(req.user!, subject.sellerId, 'manage_vehicles')) {
+      res.status(400).json({
+        success: false,
+        error: 'You cannot message yourself about your own listing',
+        code: 'OWN_LISTING',
+      });
+      return;
+    }
+
+    const conversation = await findOrStartConversation(subjectType, subjectId, subject, req.user!._id);
+    const message = await postMessage(conversation, req.user!, 'buyer', input.body, input.attachments);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        conversation: serializeConversation(conversation, 'buyer'),
+        message,
+      },
+      message: 'Message sent',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Start conversation error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send message',
+      code: 'CREATE_ERROR',
+    });
+  }
+};
+
+// @desc    Get a conversation with its messages (newest first), marking it read
+// @route   GET /api/conversations/:id
+// @access  Private (participants)
+export const getConversation = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const loaded = await loadConversation(req, res);
+    if (!loaded) return;
+
+    const { conversation, side } = loaded;
+    const { page = 1, pageSize = 50 } = req.query;
+    const pageNum = Math.max(1, Number(page) || 1);
+    const limit = Math.min(100, Math.max(1, Number(pageSize) || 50));
+    const skip = (pageNum - 1) * limit;
+
+    const [messages, total, subject] = await Promise.all([
+      Message.find({ conversationId: conversation._id })
+        .populate('senderId', 'name avatar')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      Message.countDocuments({ conversationId: conversation._id }),
+      findConversationSubject(conversation.subjectType, conversation.subjectId, { approvedOnly: false }),
+    ]);
+
+    await markConversationRead(conversation._id, side);
+    if (side === 'buyer') conversation.buyerUnreadCount = 0;
+    else conversation.sellerUnreadCount = 0;
+
+    res.status(200).json({
+      success: true,
+      data: {
+        conversation: serializeConversation(conversation, side),
+        sellerContact: sellerContactFor(conversation, side, subject),
+        messages: {
+          items: messages,
+          total,
+          page: pageNum,
+          pageSize: limit,
+          hasMore: skip + messages.length < total,
+        },
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Get conversation error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch conversation',
+      code: 'FETCH_ERROR',
+    });
+  }
+};
+
+// @desc    Reply in a conversation
+// @route   POST /api/conversations/:id/messages
+// @access  Private (participants)
+export const sendMessage = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const loaded = await loadConversation(req, res);
+    if (!loaded) return;
+
+    const input = readMessageInput(req, res);
+    if (!input) return;
+
+    const { conversation, side } = loaded;
+    const message = await postMessage(conversation, req.user!, side, input.body, input.attachments);
+
+    // Replying implies the sender has read the thread
+    await markConversationRead(conversation._id, side);
+
+    res.status(201).json({
+      success: true,
+      data: message,
+      message: 'Message sent',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Send message error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send message',
+      code: 'CREATE_ERROR',
+    });
+  }
+};
+
+// @desc    Mark a conversation as read
+// @route   PUT /api/conversations/:id/read
+// @access  Private (participants)
+export const markConversationAsRead = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const loaded = await loadConversation(req, res);
+    if (!loaded) return;
+
+    await markConversationRead(loaded.conversation._id, loaded.side);
+
+    res.status(200).json({
+      success: true,
+      message: 'Conversation marked as read',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Mark conversation read error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to mark conversation as read',
+      code: 'UPDATE_ERROR',
+    });
+  }
+};
+
+// @desc    Share my contact details with the buyer in this conversation
+// @route   POST /api/conversations/:id/reveal-contact
+// @access  Private (seller)
+export const revealSellerContact = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const loaded = await loadConversation(req, res);
+    if (!loaded) return;
+
+    const { conversation, side } = loaded;
+    if (side !== 'seller') {
+      res.status(403).json({
+        success: false,
+        error: 'Only the seller can share their contact details',
+        code: 'FORBIDDEN',
+      });
+      return;
+    }
+
+    if (!conversation.contactRevealedAt) {
+      conversation.contactRevealedAt = new Date();
+      await conversation.save();
+
+      await Notification.create({
+        userId: conversation.buyerId,
+        type: 'message',
+        title: 'Seller shared contact details',
+        message: `The seller of ${conversation.subjectTitle} has shared their contact details with you`,
+        link: `/messages/${conversation._id}`,
+        metadata: { conversationId: conversation._id },
+      });
+    }
+
+    const subject = await findConversationSubject(conversation.subjectType, conversation.subjectId, {
+      approvedOnly: false,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        conversation: serializeConversation(conversation, side),
+        sellerContact: sellerContactFor(conversation, side, subject),
+      },
+      message: 'Contact details shared with the buyer',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Reveal seller contact error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to share contact details',
+      code: 'UPDATE_ERROR',
+    });
+  }
+};
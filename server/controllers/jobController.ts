@@ -5,6 +5,17 @@ import Notification from '../models/Notification.js';
 import Application from '../models/Application.js';
 import { AuthRequest } from '../middleware/auth.js';
 import { ISubscriptionPlan } from '../models/SubscriptionPlan.js';
+import {
+  findMembership,
+  resolveActingAccount,
+  resolveAccountId,
+  roleHasCapability,
+} from '../services/organizationService.js';
+import { can } from '../services/permissionService.js';
+import { notifyListingRemoved, withWatcherCounts } from '../services/watchlist.js';
+import { parseNearSearch, nearQuery, withinRadiusQuery, withDistance } from '../services/geoSearch.js';
+import { parseFacetNames, computeFacets, JOB_FACETS } from '../services/searchFacets.js';
+import { ENV } from '../config/environment.js';
 
 // Helper to get data delay date
 const getDataDelayDate = (user: any): Date | null => {
@@ -20,6 +31,17 @@ const getDataDelayDate = (user: any): Date | null => {
   return delayDate;
 };
 
+// Managed by the renew endpoint and the expiry sweep, never by a plain create or update
+const LIFECYCLE_FIELDS = ['expiredAt', 'renewedAt', 'renewalCount', 'deadlineReminderSentAt', 'applicationsCount'];
+
+const withoutLifecycleFields = (body: Record<string, unknown>): Record<string, unknown> => {
+  const fields = { ...body };
+  for (const field of LIFECYCLE_FIELDS) {
+    delete fields[field];
+  }
+  return fields;
+};
+
 // Create a new job
 export const createJob = async (req: AuthRequest, res: Response) => {
   try {
@@ -34,11 +56,22 @@ export const createJob = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Check subscription limits for job posts
+    // Staff post on behalf of their organization's institute account
+    const acting = await resolveActingAccount(user, 'manage_jobs');
+    if (!acting) {
+      return res.status(403).json({
+        success: false,
+        error: 'Your organization role does not allow posting jobs',
+        code: 'UNAUTHORIZED',
+      });
+    }
+    const account = acting.account;
+
+    // Check subscription limits for job posts (shared across the organization)
     if (user.role !== 'admin') {
-      const plan = user.subscription?.planId as unknown as ISubscriptionPlan;
+      const plan = account.subscription?.planId as unknown as ISubscriptionPlan;
       const maxJobPosts = plan?.features?.maxJobPosts ?? 0;
-      const jobPostsUsed = user.subscription?.jobPostsUsed ?? 0;
+      const jobPostsUsed = account.subscription?.jobPostsUsed ?? 0;
 
       if (maxJobPosts !== -1 && jobPostsUsed >= maxJobPosts) {
         return res.status(403).json({
@@ -50,18 +83,18 @@ export const createJob = async (req: AuthRequest, res: Response) => {
     }
 
     const jobData = {
-      ...req.body,
-      instituteId: userId,
-      instituteName: user.instituteName || user.name,
-      contactEmail: user.email,
+      ...withoutLifecycleFields(req.body),
+      instituteId: account._id,
+      instituteName: account.instituteName || account.name,
+      contactEmail: account.email,
     };
 
     const job = await Job.create(jobData);
 
     // Update jobPostsUsed counter
-    if (user.subscription) {
-      user.subscription.jobPostsUsed = (user.subscription.jobPostsUsed || 0) + 1;
-      await user.save();
+    if (account.subscription) {
+      account.subscription.jobPostsUsed = (account.subscription.jobPostsUsed || 0) + 1;
+      await account.save();
     }
 
     res.status(201).json({
@@ -93,74 +126,121 @@ export const getAllJobs = async (req: AuthRequest, res: Response) => {
       limit = 20,
     } = req.query;
 
-    const query: any = { status: 'active' };
+    const { near, error: nearError } = parseNearSearch(req.query);
+    if (nearError) {
+      return res.status(400).json({
+        success: false,
+        error: nearError,
+        code: 'VALIDATION_ERROR',
+      });
+    }
+
+    const { names: facetNames, error: facetError } = parseFacetNames(req.query.facets, JOB_FACETS);
+    if (facetError) {
+      return res.status(400).json({
+        success: false,
+        error: facetError,
+        code: 'VALIDATION_ERROR',
+      });
+    }
+
+    const baseQuery: any = { status: 'active' };
 
     // Apply subscription data delay
     const delayDate = getDataDelayDate(req.user);
     if (delayDate) {
-      query.createdAt = { $lte: delayDate };
+      baseQuery.createdAt = { $lte: delayDate };
     }
 
-    // Apply filters
+    // Apply filters, kept per query parameter so facets can leave their own out
+    const filters: Record<string, any> = {};
+
     if (location) {
-      query.$or = [
-        { 'location.city': new RegExp(location as string, 'i') },
-        { 'location.state': new RegExp(location as string, 'i') },
-      ];
+      filters.location = {
+        $or: [
+          { 'location.city': new RegExp(location as string, 'i') },
+          { 'location.state': new RegExp(location as string, 'i') },
+        ],
+      };
     }
 
     if (subjects) {
       const subjectArray = (subjects as string).split(',');
-      query.subjects = { $in: subjectArray };
+      filters.subjects = { subjects: { $in: subjectArray } };
     }
 
     if (employmentType) {
-      query.employmentType = employmentType;
+      filters.employmentType = { employmentType };
     }
 
     if (minSalary) {
-      query['salary.min'] = { $gte: Number(minSalary) };
+      filters.minSalary = { 'salary.min': { $gte: Number(minSalary) } };
     }
 
     if (maxSalary) {
-      query['salary.max'] = { $lte: Number(maxSalary) };
+      filters.maxSalary = { 'salary.max': { $lte: Number(maxSalary) } };
     }
 
     if (experience) {
-      query['experience.min'] = { $lte: Number(experience) };
-      query['experience.max'] = { $gte: Number(experience) };
+      filters.experience = {
+        'experience.min': { $lte: Number(experience) },
+        'experience.max': { $gte: Number(experience) },
+      };
     }
 
     if (search) {
-      query.$or = [
-        { title: new RegExp(search as string, 'i') },
-        { description: new RegExp(search as string, 'i') },
-        { instituteName: new RegExp(search as string, 'i') },
-      ];
+      filters.search = {
+        $or: [
+          { title: new RegExp(search as string, 'i') },
+          { description: new RegExp(search as string, 'i') },
+          { instituteName: new RegExp(search as string, 'i') },
+        ],
+      };
     }
 
+    // The query minus the filters named
+    const matchFor = (ignores: string[]) =>
+      Object.assign(
+        { ...baseQuery },
+        ...Object.entries(filters)
+          .filter(([name]) => !ignores.includes(name))
+          .map(([, condition]) => condition)
+      );
+    const query = matchFor([]);
+
     // Pagination
     const pageNum = Number(page);
     const limitNum = Number(limit);
     const skip = (pageNum - 1) * limitNum;
 
-    const jobs = await Job.find(query)
-      .sort(sort as string)
+    // Nearest first when searching by distance
+    const jobs = await Job.find(near ? { ...query, ...nearQuery(near) } : query)
+      .sort(near ? {} : (sort as string))
       .skip(skip)
       .limit(limitNum)
-      .populate('instituteId', 'name instituteName email phone');
+      .populate('instituteId', 'name instituteName email phone')
+      .lean();
 
-    const total = await Job.countDocuments(query);
+    const total = await Job.countDocuments(near ? { ...query, ...withinRadiusQuery(near) } : query);
+
+    const facets =
+      facetNames.length > 0
+        ? await computeFacets(Job, facetNames, JOB_FACETS, (ignores) => ({
+            ...matchFor(ignores),
+            ...(near ? withinRadiusQuery(near) : {}),
+          }))
+        : undefined;
 
     res.status(200).json({
       success: true,
-      data: jobs,
+      data: near ? withDistance(near, jobs) : jobs,
       pagination: {
         page: pageNum,
         limit: limitNum,
         total,
         pages: Math.ceil(total / limitNum),
       },
+      ...(facets ? { facets } : {}),
     });
   } catch (error: any) {
     res.status(500).json({
@@ -215,9 +295,6 @@ export const getJobById = async (req: AuthRequest, res: Response) => {
 // Update job
 export const updateJob = async (req: Request, res: Response) => {
   try {
-    const userId = (req as any).user.id;
-    const userRole = (req as any).user.role;
-
     let job = await Job.findById(req.params.id);
 
     if (!job) {
@@ -228,8 +305,8 @@ export const updateJob = async (req: Request, res: Response) => {
       });
     }
 
-    // Check ownership (unless admin)
-    if (userRole !== 'admin' && job.instituteId.toString() !== userId) {
+    // Check ownership through organization membership (unless admin)
+    if (!(await can((req as any).user, 'job:manage', { ownerId: job.instituteId }))) {
       return res.status(403).json({
         success: false,
         error: 'Not authorized to update this job',
@@ -237,11 +314,23 @@ export const updateJob = async (req: Request, res: Response) => {
       });
     }
 
-    job = await Job.findByIdAndUpdate(req.params.id, req.body, {
+    // An expired job only comes back through renewJob, which checks the plan limit
+    const updates = withoutLifecycleFields(req.body);
+    if (job.status === 'expired') {
+      delete updates.status;
+      delete updates.applicationDeadline;
+    }
+
+    const previousStatus = job.status;
+    job = await Job.findByIdAndUpdate(req.params.id, updates, {
       new: true,
       runValidators: true,
     });
 
+    if (job && previousStatus === 'active' && job.status !== 'active') {
+      await notifyListingRemoved('Job', job, 'is no longer accepting applications');
+    }
+
     res.status(200).json({
       success: true,
       data: job,
@@ -255,12 +344,91 @@ export const updateJob = async (req: Request, res: Response) => {
   }
 };
 
+// Renew an expired job posting or extend an active one (counts as a job post)
+export const renewJob = async (req: AuthRequest, res: Response) => {
+  try {
+    const job = await Job.findById(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+        code: 'JOB_NOT_FOUND',
+      });
+    }
+
+    if (!(await can(req.user, 'job:manage', { ownerId: job.instituteId }))) {
+      return res.status(403).json({
+        success: false,
+        error: 'Not authorized to renew this job',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    if (job.status !== 'active' && job.status !== 'expired') {
+      return res.status(400).json({
+        success: false,
+        error: 'Closed jobs cannot be renewed',
+        code: 'INVALID_STATUS',
+      });
+    }
+
+    const deadline = req.body.applicationDeadline
+      ? new Date(req.body.applicationDeadline)
+      : new Date(Date.now() + ENV.JOB_RENEWAL_DAYS * 24 * 60 * 60 * 1000);
+
+    if (isNaN(deadline.getTime()) || deadline <= new Date()) {
+      return res.status(400).json({
+        success: false,
+        error: 'applicationDeadline must be a date in the future',
+        code: 'VALIDATION_ERROR',
+      });
+    }
+
+    // Renewals use up a job post from the owner's plan
+    const account = await User.findById(job.instituteId).populate('subscription.planId');
+    if (req.user!.role !== 'admin' && account) {
+      const plan = account.subscription?.planId as unknown as ISubscriptionPlan;
+      const maxJobPosts = plan?.features?.maxJobPosts ?? 0;
+      const jobPostsUsed = account.subscription?.jobPostsUsed ?? 0;
+
+      if (maxJobPosts !== -1 && jobPostsUsed >= maxJobPosts) {
+        return res.status(403).json({
+          success: false,
+          error: `You have reached your job post limit (${maxJobPosts}). Please upgrade your plan.`,
+          code: 'LIMIT_REACHED',
+        });
+      }
+    }
+
+    job.status = 'active';
+    job.applicationDeadline = deadline;
+    job.deadlineReminderSentAt = undefined;
+    job.renewedAt = new Date();
+    job.renewalCount = (job.renewalCount || 0) + 1;
+    await job.save();
+
+    if (account?.subscription) {
+      account.subscription.jobPostsUsed = (account.subscription.jobPostsUsed || 0) + 1;
+      await account.save();
+    }
+
+    res.status(200).json({
+      success: true,
+      data: job,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message || 'Failed to renew job',
+      code: 'RENEW_JOB_FAILED',
+    });
+  }
+};
+
 // Delete job
 export const deleteJob = async (req: Request, res: Response) => {
   try {
-    const userId = (req as any).user.id;
-    const userRole = (req as any).user.role;
-
     const job = await Job.findById(req.params.id);
 
     if (!job) {
@@ -271,8 +439,8 @@ export const deleteJob = async (req: Request, res: Response) => {
       });
     }
 
-    // Check ownership (unless admin)
-    if (userRole !== 'admin' && job.instituteId.toString() !== userId) {
+    // Check ownership through organization membership (unless admin)
+    if (!(await can((req as any).user, 'job:manage', { ownerId: job.instituteId }))) {
       return res.status(403).json({
         success: false,
         error: 'Not authorized to delete this job',
@@ -281,6 +449,7 @@ export const deleteJob = async (req: Request, res: Response) => {
     }
 
     await Job.findByIdAndDelete(req.params.id);
+    await notifyListingRemoved('Job', job, 'was removed by the institute', { deleted: true });
 
     res.status(200).json({
       success: true,
@@ -299,12 +468,13 @@ export const deleteJob = async (req: Request, res: Response) => {
 export const getInstituteJobs = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user.id;
+    const accountId = await resolveAccountId(userId);
 
-    const jobs = await Job.find({ instituteId: userId }).sort('-createdAt');
+    const jobs = await Job.find({ instituteId: accountId }).sort('-createdAt').lean();
 
     res.status(200).json({
       success: true,
-      data: jobs,
+      data: await withWatcherCounts('Job', jobs),
     });
   } catch (error: any) {
     res.status(500).json({
@@ -418,11 +588,21 @@ export const getApplications = async (req: Request, res: Response) => {
       // Teacher: get their own applications
       query.teacherId = userId;
     } else if (userRole === 'institute') {
-      // Institute: get applications for their jobs
+      // Institute: get applications for their (organization's) jobs
+      const membership = await findMembership(userId);
+      if (membership && !roleHasCapability(membership.member.role, 'manage_applications')) {
+        return res.status(403).json({
+          success: false,
+          error: 'Not authorized to view these applications',
+          code: 'UNAUTHORIZED',
+        });
+      }
+      const accountId = membership ? membership.organization.ownerId.toString() : userId;
+
       if (jobId) {
         // Verify job belongs to institute
         const job = await Job.findById(jobId);
-        if (!job || job.instituteId.toString() !== userId) {
+        if (!job || job.instituteId.toString() !== accountId) {
           return res.status(403).json({
             success: false,
             error: 'Not authorized to view these applications',
@@ -431,7 +611,7 @@ export const getApplications = async (req: Request, res: Response) => {
         }
         query.jobId = jobId;
       } else {
-        query.instituteId = userId;
+        query.instituteId = accountId;
       }
     } else if (userRole === 'admin') {
       // Admin: get all or filter by jobId
@@ -505,7 +685,6 @@ const validateStatusTransition = (currentStatus: string, newStatus: string): { v
 export const updateApplicationStatus = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user.id;
-    const userRole = (req as any).user.role;
     const applicationId = req.params.id;
     const { status, interviewScheduled } = req.body;
 
@@ -519,8 +698,8 @@ export const updateApplicationStatus = async (req: Request, res: Response) => {
       });
     }
 
-    // Check authorization
-    if (userRole !== 'admin' && application.instituteId.toString() !== userId) {
+    // Check authorization through organization membership (unless admin)
+    if (!(await can((req as any).user, 'application:review', { ownerId: application.instituteId }))) {
       return res.status(403).json({
         success: false,
         error: 'Not authorized to update this application',
@@ -668,7 +847,6 @@ export const updateApplicationStatus = async (req: Request, res: Response) => {
 export const rescheduleInterview = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user.id;
-    const userRole = (req as any).user.role;
     const applicationId = req.params.id;
     const { interviewScheduled } = req.body;
 
@@ -690,8 +868,8 @@ export const rescheduleInterview = async (req: Request, res: Response) => {
       });
     }
 
-    // Check authorization
-    if (userRole !== 'admin' && application.instituteId.toString() !== userId) {
+    // Check authorization through organization membership (unless admin)
+    if (!(await can((req as any).user, 'application:review', { ownerId: application.instituteId }))) {
       return res.status(403).json({
         success: false,
         error: 'Not authorized to reschedule this interview',
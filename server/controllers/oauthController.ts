@@ -0,0 +1,177 @@
+import { Response } from 'express';
+import crypto from 'crypto';
+import User, { IUser } from '../models/User.js';
+import { ENV, isProduction } from '../config/environment.js';
+import { AuthRequest } from '../middleware/auth.js';
+import { getGoogleOAuthClient, GoogleProfile } from '../services/googleOAuth.js';
+import { buildFreeSubscription } from '../services/subscriptionService.js';
+import { createSession, setAuthCookies, revokeAllSessions } from '../services/sessionService.js';
+import { issueChallengeToken } from '../services/twoFactorService.js';
+
+const STATE_COOKIE = 'oauth_state';
+const SIGNUP_ROLES = ['institute', 'teacher', 'vendor'];
+
+// Lax so the cookie survives the top-level redirect back from Google
+const stateCookieOptions = {
+  httpOnly: true,
+  secure: isProduction,
+  sameSite: 'lax' as const,
+  maxAge: 10 * 60 * 1000, // 10 minutes
+  path: `${ENV.API_PREFIX}/auth/google`,
+};
+
+const redirectWithError = (res: Response, code: string): void => {
+  res.redirect(`${ENV.CLIENT_URL}/login?error=${encodeURIComponent(code)}`);
+};
+
+// Find the account for a Google profile, linking or creating it as needed
+const findOrCreateGoogleUser = async (
+  profile: GoogleProfile,
+  role: string
+): Promise<{ user?: IUser; error?: string }> => {
+  const linked = await User.findOne({ googleId: profile.googleId });
+  if (linked) {
+    return { user: linked };
+  }
+
+  // Only trust the email for linking/creation if Google has verified it
+  if (!profile.emailVerified) {
+    return { error: 'GOOGLE_EMAIL_UNVERIFIED' };
+  }
+
+  const existing = await User.findOne({ email: profile.email });
+  if (existing) {
+    // An unverified account may have been registered by someone else with this
+    // email; Google proves ownership now, so drop their password, second
+    // factor and sessions before handing the account over
+    if (!existing.isVerified) {
+      existing.password = undefined;
+      existing.twoFactor = { enabled: false };
+      existing.emailVerificationToken = undefined;
+      existing.emailVerificationExpires = undefined;
+      existing.passwordResetToken = undefined;
+      existing.passwordResetExpires = undefined;
+      existing.isVerified = true;
+      await revokeAllSessions(existing._id, 'google_account_claimed');
+    }
+    existing.googleId = profile.googleId;
+    await existing.save({ validateBeforeSave: false });
+    return { user: existing };
+  }
+
+  const subscription = await buildFreeSubscription(role);
+
+  const user = await User.create({
+    name: profile.name,
+    email: profile.email,
+    googleId: profile.googleId,
+    role,
+    isVerified: true,
+    avatar: profile.picture || `https://api.dicebear.com/7.x/avataaars/svg?seed=${profile.email}`,
+    subscription,
+  });
+
+  return { user };
+};
+
+// @desc    Start Google sign-in (redirects to Google)
+// @route   GET /api/auth/google
+// @access  Public
+export const googleAuth = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const client = getGoogleOAuthClient();
+
+    if (!client) {
+      res.status(503).json({
+        success: false,
+        error: 'Google sign-in is not configured',
+        code: 'GOOGLE_OAUTH_DISABLED',
+      });
+      return;
+    }
+
+    // Role only applies if this sign-in ends up creating a new account
+    const requestedRole = typeof req.query.role === 'string' ? req.query.role : 'institute';
+    const role = SIGNUP_ROLES.includes(requestedRole) ? requestedRole : 'institute';
+
+    const state = crypto.randomBytes(16).toString('hex');
+    res.cookie(STATE_COOKIE, `${state}.${role}`, stateCookieOptions);
+
+    res.redirect(client.getAuthorizationUrl(state));
+  } catch (error) {
+    console.error('Google auth start error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to start Google sign-in',
+      code: 'GOOGLE_OAUTH_ERROR',
+    });
+  }
+};
+
+// @desc    Google sign-in callback
+// @route   GET /api/auth/google/callback
+// @access  Public
+export const googleAuthCallback = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const client = getGoogleOAuthClient();
+    const { code, state, error } = req.query;
+    const [expectedState, role] = String(req.cookies?.[STATE_COOKIE] || '').split('.');
+
+    res.clearCookie(STATE_COOKIE, { path: stateCookieOptions.path });
+
+    if (!client) {
+      redirectWithError(res, 'GOOGLE_OAUTH_DISABLED');
+      return;
+    }
+
+    if (error) {
+      redirectWithError(res, 'GOOGLE_ACCESS_DENIED');
+      return;
+    }
+
+    if (!expectedState || state !== expectedState) {
+      redirectWithError(res, 'INVALID_OAUTH_STATE');
+      return;
+    }
+
+    if (!code || typeof code !== 'string') {
+      redirectWithError(res, 'MISSING_OAUTH_CODE');
+      return;
+    }
+
+    const profile = await client.exchangeCode(code);
+    const result = await findOrCreateGoogleUser(profile, role || 'institute');
+
+    if (!result.user) {
+      redirectWithError(res, result.error || 'GOOGLE_OAUTH_ERROR');
+      return;
+    }
+
+    const user = result.user;
+
+    if (!user.isActive) {
+      redirectWithError(res, 'ACCOUNT_DEACTIVATED');
+      return;
+    }
+
+    // Google replaces the password step, not the second factor
+    if (user.twoFactor?.enabled) {
+      const challengeToken = issueChallengeToken(user._id.toString());
+      res.redirect(`${ENV.CLIENT_URL}/login/two-factor#challengeToken=${encodeURIComponent(challengeToken)}`);
+      return;
+    }
+
+    const tokens = await createSession(user._id, req);
+    setAuthCookies(res, tokens);
+
+    // Tokens go in the fragment so they never reach server logs
+    const fragment = new URLSearchParams({
+      token: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+    });
+    res.redirect(`${ENV.CLIENT_URL}/auth/google/success#${fragment.toString()}`);
+  } catch (error) {
+    console.error('Google auth callback error:', error);
+    redirectWithError(res, 'GOOGLE_OAUTH_ERROR');
+  }
+};
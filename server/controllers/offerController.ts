@@ -0,0 +1,517 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Offer, { IOffer } from '../models/Offer.js';
+import Vehicle from '../models/Vehicle.js';
+import { AuthRequest } from '../middleware/auth.js';
+import {
+  OfferSide,
+  OPEN_OFFER_STATUSES,
+  formatPrice,
+  isOfferOpen,
+  offerTurn,
+  offerSide,
+  recordOfferEvent,
+  expireIfDue,
+  notifyCounterparty,
+  acceptOffer as acceptOpenOffer,
+} from '../services/offerService.js';
+import { changeVehicleStatus } from '../services/vehicleLifecycle.js';
+import { sellerAccountIds } from '../services/conversationService.js';
+import { can } from '../services/permissionService.js';
+
+const MAX_OFFER_EXPIRY_DAYS = 30;
+
+// Read amount/message/expiry for a new proposal, answering 400 if invalid
+const readProposal = (
+  req: AuthRequest,
+  res: Response
+): { amount: number; message?: string; expiresAt?: Date } | null => {
+  const amount = Number(req.body.amount);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Offer amount must be a positive number',
+      code: 'VALIDATION_ERROR',
+    });
+    return null;
+  }
+
+  const message = typeof req.body.message === 'string' ? req.body.message.trim().slice(0, 1000) : undefined;
+
+  let expiresAt: Date | undefined;
+  if (req.body.expiresInDays !== undefined) {
+    const days = Number(req.body.expiresInDays);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_OFFER_EXPIRY_DAYS) {
+      res.status(400).json({
+        success: false,
+        error: `expiresInDays must be a whole number between 1 and ${MAX_OFFER_EXPIRY_DAYS}`,
+        code: 'VALIDATION_ERROR',
+      });
+      return null;
+    }
+    expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  }
+
+  return { amount: Math.round(amount), message: message || undefined, expiresAt };
+};
+
+// Load an offer the user is a party to (expiring it if its deadline passed)
+const loadOffer = async (req: AuthRequest, res: Response): Promise<{ offer: IOffer; side: OfferSide } | null> => {
+  const offer = mongoose.isValidObjectId(req.params.id) ? await Offer.findById(req.params.id) : null;
+  const side = offer ? await offerSide(req.user!, offer) : null;
+
+  if (!offer || !side) {
+    res.status(404).json({
+      success: false,
+      error: 'Offer not found',
+      code: 'NOT_FOUND',
+    });
+    return null;
+  }
+
+  await expireIfDue(offer);
+  return { offer, side };
+};
+
+// The offer must be open and waiting for this side
+const requireTurn = (offer: IOffer, side: OfferSide, res: Response): boolean => {
+  if (!isOfferOpen(offer)) {
+    res.status(400).json({
+      success: false,
+      error: `This offer is ${offer.status} and can no longer be changed`,
+      code: 'OFFER_CLOSED',
+    });
+    return false;
+  }
+
+  if (offerTurn(offer) !== side) {
+    res.status(400).json({
+      success: false,
+      error: `This offer is waiting for the ${offerTurn(offer)} to respond`,
+      code: 'NOT_YOUR_TURN',
+    });
+    return false;
+  }
+
+  return true;
+};
+
+// @desc    Make an offer on a vehicle
+// @route   POST /api/vehicles/:id/offers
+// @access  Private (verified)
+export const makeOffer = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const vehicle = mongoose.isValidObjectId(req.params.id) ? await Vehicle.findById(req.params.id) : null;
+
+    if (!vehicle || vehicle.status !== 'approved') {
+      res.status(404).json({
+        success: false,
+        error: 'Vehicle not found or not available',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    if (await can(req.user, 'vehicle:manage', { ownerId: vehicle.sellerId })) {
+      res.status(400).json({
+        success: false,
+        error: 'You cannot make an offer on your own listing',
+        code: 'OWN_LISTING',
+      });
+      return;
+    }
+
+    const proposal = readProposal(req, res);
+    if (!proposal) return;
+
+    const existing = await Offer.findOne({
+      vehicleId: vehicle._id,
+      buyerId: req.user!._id,
+      status: { $in: OPEN_OFFER_STATUSES },
+    });
+    if (existing && !(await expireIfDue(existing))) {
+      res.status(409).json({
+        success: false,
+        error: 'You already have an open offer on this vehicle',
+        code: 'OFFER_EXISTS',
+        data: { offerId: existing._id },
+      });
+      return;
+    }
+
+    const offer = new Offer({
+      vehicleId: vehicle._id,
+      vehicleTitle: vehicle.title,
+      buyerId: req.user!._id,
+      buyerName: req.user!.name,
+      sellerId: vehicle.sellerId,
+      amount: proposal.amount,
+      listPrice: vehicle.price,
+      expiresAt: proposal.expiresAt,
+    });
+    recordOfferEvent(offer, 'offered', req.user!._id, { amount: proposal.amount, message: proposal.message });
+    await offer.save();
+
+    await notifyCounterparty(
+      offer,
+      'buyer',
+      'New offer received',
+      `${req.user!.name} offered ${formatPrice(offer.amount)} for ${vehicle.title}`
+    );
+
+    res.status(201).json({
+      success: true,
+      data: offer,
+      message: 'Offer sent to the seller',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Make offer error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to make offer',
+      code: 'CREATE_ERROR',
+    });
+  }
+};
+
+// @desc    Offer history for a vehicle (all offers for the seller, my own for buyers)
+// @route   GET /api/vehicles/:id/offers
+// @access  Private
+export const getVehicleOffers = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const vehicle = mongoose.isValidObjectId(req.params.id)
+      ? await Vehicle.findById(req.params.id).select('sellerId')
+      : null;
+
+    if (!vehicle) {
+      res.status(404).json({
+        success: false,
+        error: 'Vehicle not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    const isSeller = await can(req.user, 'vehicle:manage', { ownerId: vehicle.sellerId });
+    const offers = await Offer.find({
+      vehicleId: vehicle._id,
+      ...(isSeller ? {} : { buyerId: req.user!._id }),
+    }).sort({ createdAt: -1 });
+
+    for (const offer of offers) {
+      await expireIfDue(offer);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: offers,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Get vehicle offers error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch offers',
+      code: 'FETCH_ERROR',
+    });
+  }
+};
+
+// @desc    List offers I made (buying) or received (selling)
+// @route   GET /api/offers?box=buying|selling
+// @access  Private
+export const getMyOffers = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { box = 'buying', status, page = 1, pageSize = 20 } = req.query;
+
+    if (box !== 'buying' && box !== 'selling') {
+      res.status(400).json({
+        success: false,
+        error: 'box must be "buying" or "selling"',
+        code: 'VALIDATION_ERROR',
+      });
+      return;
+    }
+
+    const query: any =
+      box === 'buying'
+        ? { buyerId: req.userId }
+        : { sellerId: { $in: await sellerAccountIds(req.userId!) } };
+    if (status) query.status = status;
+
+    const pageNum = Math.max(1, Number(page) || 1);
+    const limit = Math.min(100, Math.max(1, Number(pageSize) || 20));
+    const skip = (pageNum - 1) * limit;
+
+    const [offers, total] = await Promise.all([
+      Offer.find(query).sort({ updatedAt: -1 }).skip(skip).limit(limit),
+      Offer.countDocuments(query),
+    ]);
+
+    for (const offer of offers) {
+      await expireIfDue(offer);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        items: offers,
+        total,
+        page: pageNum,
+        pageSize: limit,
+        hasMore: skip + offers.length < total,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Get my offers error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch offers',
+      code: 'FETCH_ERROR',
+    });
+  }
+};
+
+// @desc    Get an offer with its negotiation history
+// @route   GET /api/offers/:id
+// @access  Private (buyer or seller)
+export const getOffer = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const loaded = await loadOffer(req, res);
+    if (!loaded) return;
+
+    const { offer, side } = loaded;
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...offer.toObject(),
+        side,
+        // Whose answer the offer is waiting for (null once it is settled)
+        awaiting: isOfferOpen(offer) ? offerTurn(offer) : null,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Get offer error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch offer',
+      code: 'FETCH_ERROR',
+    });
+  }
+};
+
+// @desc    Counter an offer with a new amount
+// @route   POST /api/offers/:id/counter
+// @access  Private (party whose turn it is)
+export const counterOffer = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const loaded = await loadOffer(req, res);
+    if (!loaded) return;
+
+    const { offer, side } = loaded;
+    if (!requireTurn(offer, side, res)) return;
+
+    const proposal = readProposal(req, res);
+    if (!proposal) return;
+
+    offer.amount = proposal.amount;
+    offer.expiresAt = proposal.expiresAt;
+    offer.status = side === 'seller' ? 'countered' : 'pending';
+    recordOfferEvent(offer, 'countered', req.user!._id, { amount: proposal.amount, message: proposal.message });
+    await offer.save();
+
+    await notifyCounterparty(
+      offer,
+      side,
+      'Counter-offer received',
+      `New counter-offer of ${formatPrice(offer.amount)} for ${offer.vehicleTitle}`
+    );
+
+    res.status(200).json({
+      success: true,
+      data: offer,
+      message: 'Counter-offer sent',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Counter offer error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to counter offer',
+      code: 'UPDATE_ERROR',
+    });
+  }
+};
+
+// @desc    Accept the amount on the table; reserves the vehicle
+// @route   POST /api/offers/:id/accept
+// @access  Private (party whose turn it is)
+export const acceptOffer = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const loaded = await loadOffer(req, res);
+    if (!loaded) return;
+
+    const { offer, side } = loaded;
+    if (!requireTurn(offer, side, res)) return;
+
+    const vehicle = await acceptOpenOffer(offer, req.user!, side);
+    if (!vehicle) {
+      res.status(409).json({
+        success: false,
+        error: 'This vehicle is no longer available',
+        code: 'VEHICLE_UNAVAILABLE',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { offer, vehicle: { id: vehicle._id, status: vehicle.status } },
+      message: 'Offer accepted. The vehicle is now reserved.',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Accept offer error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to accept offer',
+      code: 'UPDATE_ERROR',
+    });
+  }
+};
+
+// @desc    Reject an offer
+// @route   POST /api/offers/:id/reject
+// @access  Private (party whose turn it is)
+export const rejectOffer = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const loaded = await loadOffer(req, res);
+    if (!loaded) return;
+
+    const { offer, side } = loaded;
+    if (!requireTurn(offer, side, res)) return;
+
+    const message = typeof req.body.message === 'string' ? req.body.message.trim().slice(0, 1000) : undefined;
+    offer.status = 'rejected';
+    recordOfferEvent(offer, 'rejected', req.user!._id, { message: message || undefined });
+    await offer.save();
+
+    await notifyCounterparty(
+      offer,
+      side,
+      'Offer declined',
+      `The offer of ${formatPrice(offer.amount)} for ${offer.vehicleTitle} was declined`
+    );
+
+    res.status(200).json({
+      success: true,
+      data: offer,
+      message: 'Offer rejected',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Reject offer error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reject offer',
+      code: 'UPDATE_ERROR',
+    });
+  }
+};
+
+// @desc    Withdraw my open offer
+// @route   POST /api/offers/:id/withdraw
+// @access  Private (buyer)
+export const withdrawOffer = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const loaded = await loadOffer(req, res);
+    if (!loaded) return;
+
+    const { offer, side } = loaded;
+    if (side !== 'buyer' || !isOfferOpen(offer)) {
+      res.status(400).json({
+        success: false,
+        error: 'Only an open offer can be withdrawn by the buyer',
+        code: 'INVALID_STATE',
+      });
+      return;
+    }
+
+    offer.status = 'withdrawn';
+    recordOfferEvent(offer, 'withdrawn', req.user!._id);
+    await offer.save();
+
+    await notifyCounterparty(
+      offer,
+      'buyer',
+      'Offer withdrawn',
+      `${offer.buyerName} withdrew their offer for ${offer.vehicleTitle}`
+    );
+
+    res.status(200).json({
+      success: true,
+      data: offer,
+      message: 'Offer withdrawn',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Withdraw offer error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to withdraw offer',
+      code: 'UPDATE_ERROR',
+    });
+  }
+};
+
+// @desc    Mark the sale agreed in an accepted offer as completed; the vehicle becomes sold
+// @route   POST /api/offers/:id/complete
+// @access  Private (seller)
+export const completeSale = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const loaded = await loadOffer(req, res);
+    if (!loaded) return;
+
+    const { offer, side } = loaded;
+    if (side !== 'seller' || offer.status !== 'accepted' || offer.completedAt) {
+      res.status(400).json({
+        success: false,
+        error: 'Only the seller can complete an accepted offer',
+        code: 'INVALID_STATE',
+      });
+      return;
+    }
+
+    // Completing the accepted offer is part of the reserved -> sold transition
+    const reserved = await Vehicle.findOne({ _id: offer.vehicleId, status: 'reserved' });
+    const vehicle = reserved ? await changeVehicleStatus(reserved, 'sold', req.user!._id, 'Sale completed') : null;
+    if (!vehicle) {
+      res.status(409).json({
+        success: false,
+        error: 'The vehicle is no longer reserved for this offer',
+        code: 'VEHICLE_UNAVAILABLE',
+      });
+      return;
+    }
+
+    const completed = await Offer.findById(offer._id);
+
+    res.status(200).json({
+      success: true,
+      data: { offer: completed || offer, vehicle: { id: vehicle._id, status: vehicle.status } },
+      message: 'Sale completed. The vehicle is marked as sold.',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Complete sale error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to complete sale',
+      code: 'UPDATE_ERROR',
+    });
+  }
+};
@@ -0,0 +1,516 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Organization from '../models/Organization.js';
+import OrganizationInvitation from '../models/OrganizationInvitation.js';
+import User from '../models/User.js';
+import { ENV } from '../config/environment.js';
+import { AuthRequest } from '../middleware/auth.js';
+import {
+  Membership,
+  OrganizationCapability,
+  findMembership,
+  roleHasCapability,
+} from '../services/organizationService.js';
+import { sendMail } from '../services/mailer.js';
+import { organizationInvitationEmail } from '../services/emailTemplates.js';
+import { revokeUserApiKeys } from '../services/apiKeyService.js';
+import { createHashedToken, hashToken } from '../utils/tokens.js';
+
+const STAFF_ROLES = ['principal', 'hr', 'transport_manager'];
+
+// Load the caller's organization, answering 404/403 if they have none or lack the capability
+const requireMembership = async (
+  req: AuthRequest,
+  res: Response,
+  capability?: OrganizationCapability
+): Promise<Membership | null> => {
+  const membership = await findMembership(req.userId!);
+
+  if (!membership) {
+    res.status(404).json({
+      success: false,
+      error: 'You are not a member of an organization',
+      code: 'NOT_FOUND',
+    });
+    return null;
+  }
+
+  if (capability && !roleHasCapability(membership.member.role, capability)) {
+    res.status(403).json({
+      success: false,
+      error: 'Your organization role does not allow this action',
+      code: 'FORBIDDEN',
+    });
+    return null;
+  }
+
+  return membership;
+};
+
+// @desc    Create an organization for my institute account
+// @route   POST /api/organizations
+// @access  Private (Institute)
+export const createOrganization = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+
+    if (await findMembership(user._id)) {
+      res.status(409).json({
+        success: false,
+        error: 'You already belong to an organization',
+        code: 'ALREADY_IN_ORGANIZATION',
+      });
+      return;
+    }
+
+    const organization = await Organization.create({
+      name: req.body.name || user.instituteName || user.name,
+      ownerId: user._id,
+      members: [{ userId: user._id, role: 'owner', joinedAt: new Date() }],
+    });
+
+    res.status(201).json({
+      success: true,
+      data: organization,
+      message: 'Organization created successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Create organization error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create organization',
+      code: 'CREATE_ERROR',
+    });
+  }
+};
+
+// @desc    Get my organization, its members and pending invitations
+// @route   GET /api/organizations/me
+// @access  Private
+export const getMyOrganization = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const membership = await requireMembership(req, res);
+    if (!membership) return;
+
+    const { organization, member } = membership;
+    await organization.populate('members.userId', 'name email avatar');
+
+    const invitations = roleHasCapability(member.role, 'manage_members')
+      ? await OrganizationInvitation.find({
+          organizationId: organization._id,
+          acceptedAt: { $exists: false },
+          revokedAt: { $exists: false },
+          expiresAt: { $gt: new Date() },
+        }).sort({ createdAt: -1 })
+      : [];
+
+    res.status(200).json({
+      success: true,
+      data: {
+        organization,
+        myRole: member.role,
+        invitations,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Get organization error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch organization',
+      code: 'FETCH_ERROR',
+    });
+  }
+};
+
+// @desc    Rename my organization
+// @route   PATCH /api/organizations/me
+// @access  Private (Owner/Principal)
+export const updateMyOrganization = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const membership = await requireMembership(req, res, 'manage_members');
+    if (!membership) return;
+
+    const { organization } = membership;
+    if (req.body.name !== undefined) {
+      organization.name = req.body.name;
+    }
+    await organization.save();
+
+    res.status(200).json({
+      success: true,
+      data: organization,
+      message: 'Organization updated successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Update organization error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update organization',
+      code: 'UPDATE_ERROR',
+    });
+  }
+};
+
+// @desc    Invite a staff member by email
+// @route   POST /api/organizations/me/invitations
+// @access  Private (Owner/Principal)
+export const inviteMember = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const membership = await requireMembership(req, res, 'manage_members');
+    if (!membership) return;
+
+    const { organization } = membership;
+    const email = typeof req.body.email === 'string' ? req.body.email.toLowerCase().trim() : '';
+    const { role } = req.body;
+
+    if (!email || !STAFF_ROLES.includes(role)) {
+      res.status(400).json({
+        success: false,
+        error: `Email and a role (${STAFF_ROLES.join(', ')}) are required`,
+        code: 'VALIDATION_ERROR',
+      });
+      return;
+    }
+
+    const existingUser = await User.findOne({ email }).select('_id');
+    if (existingUser && (await findMembership(existingUser._id))) {
+      res.status(409).json({
+        success: false,
+        error: 'This user already belongs to an organization',
+        code: 'ALREADY_IN_ORGANIZATION',
+      });
+      return;
+    }
+
+    // A new invitation replaces any pending one for the same address
+    await OrganizationInvitation.updateMany(
+      {
+        organizationId: organization._id,
+        email,
+        acceptedAt: { $exists: false },
+        revokedAt: { $exists: false },
+      },
+      { $set: { revokedAt: new Date() } }
+    );
+
+    const ttlDays = ENV.ORGANIZATION_INVITE_TTL_DAYS;
+    const { token, hash } = createHashedToken();
+
+    const invitation = await OrganizationInvitation.create({
+      organizationId: organization._id,
+      email,
+      role,
+      tokenHash: hash,
+      invitedBy: req.userId,
+      expiresAt: new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000),
+    });
+
+    const acceptUrl = `${ENV.CLIENT_URL}/organization/invite?token=${token}`;
+    await sendMail(
+      organizationInvitationEmail(email, organization.name, req.user!.name, role, acceptUrl, ttlDays)
+    );
+
+    res.status(201).json({
+      success: true,
+      data: {
+        _id: invitation._id,
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+      },
+      message: 'Invitation sent',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Invite member error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send invitation',
+      code: 'INVITE_ERROR',
+    });
+  }
+};
+
+// @desc    Revoke a pending invitation
+// @route   DELETE /api/organizations/me/invitations/:id
+// @access  Private (Owner/Principal)
+export const revokeInvitation = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const membership = await requireMembership(req, res, 'manage_members');
+    if (!membership) return;
+
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      res.status(404).json({
+        success: false,
+        error: 'Invitation not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    const result = await OrganizationInvitation.updateOne(
+      {
+        _id: req.params.id,
+        organizationId: membership.organization._id,
+        acceptedAt: { $exists: false },
+        revokedAt: { $exists: false },
+      },
+      { $set: { revokedAt: new Date() } }
+    );
+
+    if (result.modifiedCount === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Invitation not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { revoked: true },
+      message: 'Invitation revoked',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Revoke invitation error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke invitation',
+      code: 'REVOKE_ERROR',
+    });
+  }
+};
+
+// @desc    Accept an invitation with the emailed token
+// @route   POST /api/organizations/invitations/accept
+// @access  Private (Institute)
+export const acceptInvitation = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { token } = req.body;
+    const user = req.user!;
+
+    const invitation = token
+      ? await OrganizationInvitation.findOne({
+          tokenHash: hashToken(String(token)),
+          acceptedAt: { $exists: false },
+          revokedAt: { $exists: false },
+          expiresAt: { $gt: new Date() },
+        })
+      : null;
+
+    if (!invitation) {
+      res.status(400).json({
+        success: false,
+        error: 'Invitation is invalid or has expired',
+        code: 'INVALID_INVITATION',
+      });
+      return;
+    }
+
+    // The invitation is bound to the address it was sent to
+    if (invitation.email !== user.email) {
+      res.status(403).json({
+        success: false,
+        error: 'This invitation was sent to a different email address',
+        code: 'INVITATION_EMAIL_MISMATCH',
+      });
+      return;
+    }
+
+    if (await findMembership(user._id)) {
+      res.status(409).json({
+        success: false,
+        error: 'You already belong to an organization',
+        code: 'ALREADY_IN_ORGANIZATION',
+      });
+      return;
+    }
+
+    // Claim the invitation first so two concurrent accepts cannot both use it
+    const claimed = await OrganizationInvitation.findOneAndUpdate(
+      { _id: invitation._id, acceptedAt: { $exists: false }, revokedAt: { $exists: false } },
+      { $set: { acceptedAt: new Date(), acceptedBy: user._id } }
+    );
+    if (!claimed) {
+      res.status(400).json({
+        success: false,
+        error: 'Invitation is invalid or has expired',
+        code: 'INVALID_INVITATION',
+      });
+      return;
+    }
+
+    const releaseInvitation = () =>
+      OrganizationInvitation.updateOne({ _id: invitation._id }, { $unset: { acceptedAt: 1, acceptedBy: 1 } });
+
+    // The unique index on members.userId stops a concurrent accept of another
+    // organization's invitation from adding the same user twice
+    let organization;
+    try {
+      organization = await Organization.findOneAndUpdate(
+        { _id: invitation.organizationId, 'members.userId': { $ne: user._id } },
+        {
+          $push: {
+            members: {
+              userId: user._id,
+              role: invitation.role,
+              invitedBy: invitation.invitedBy,
+              joinedAt: new Date(),
+            },
+          },
+        },
+        { new: true }
+      );
+    } catch (error: any) {
+      if (error?.code !== 11000) throw error;
+      await releaseInvitation();
+      res.status(409).json({
+        success: false,
+        error: 'You already belong to an organization',
+        code: 'ALREADY_IN_ORGANIZATION',
+      });
+      return;
+    }
+
+    if (!organization) {
+      await releaseInvitation();
+      res.status(404).json({
+        success: false,
+        error: 'Organization not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { organization, role: invitation.role },
+      message: `You have joined ${organization.name}`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Accept invitation error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to accept invitation',
+      code: 'ACCEPT_ERROR',
+    });
+  }
+};
+
+// @desc    Change a member's role
+// @route   PATCH /api/organizations/me/members/:userId
+// @access  Private (Owner/Principal)
+export const updateMemberRole = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const membership = await requireMembership(req, res, 'manage_members');
+    if (!membership) return;
+
+    const { organization } = membership;
+    const { role } = req.body;
+
+    if (!STAFF_ROLES.includes(role)) {
+      res.status(400).json({
+        success: false,
+        error: `Role must be one of: ${STAFF_ROLES.join(', ')}`,
+        code: 'VALIDATION_ERROR',
+      });
+      return;
+    }
+
+    const target = organization.members.find((entry) => entry.userId.toString() === req.params.userId);
+
+    if (!target) {
+      res.status(404).json({
+        success: false,
+        error: 'Member not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    if (target.role === 'owner') {
+      res.status(400).json({
+        success: false,
+        error: "The owner's role cannot be changed",
+        code: 'OWNER_ROLE_IMMUTABLE',
+      });
+      return;
+    }
+
+    target.role = role;
+    await organization.save();
+
+    res.status(200).json({
+      success: true,
+      data: target,
+      message: 'Member role updated',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Update member role error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update member role',
+      code: 'UPDATE_ERROR',
+    });
+  }
+};
+
+// @desc    Remove a member (or leave the organization)
+// @route   DELETE /api/organizations/me/members/:userId
+// @access  Private (Owner/Principal, or the member themself)
+export const removeMember = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const leaving = req.params.userId === req.userId;
+    const membership = await requireMembership(req, res, leaving ? undefined : 'manage_members');
+    if (!membership) return;
+
+    const { organization } = membership;
+    const target = organization.members.find((entry) => entry.userId.toString() === req.params.userId);
+
+    if (!target) {
+      res.status(404).json({
+        success: false,
+        error: 'Member not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    if (target.role === 'owner') {
+      res.status(400).json({
+        success: false,
+        error: 'The owner cannot be removed from the organization',
+        code: 'OWNER_ROLE_IMMUTABLE',
+      });
+      return;
+    }
+
+    await Organization.updateOne(
+      { _id: organization._id },
+      { $pull: { members: { userId: target.userId } } }
+    );
+    // Keys issued while working for the organization leave with the member
+    await revokeUserApiKeys(target.userId, organization._id);
+
+    res.status(200).json({
+      success: true,
+      data: { removed: true },
+      message: leaving ? 'You have left the organization' : 'Member removed',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Remove member error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove member',
+      code: 'DELETE_ERROR',
+    });
+  }
+};
@@ -0,0 +1,195 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import SavedSearch from '../models/SavedSearch.js';
+import User from '../models/User.js';
+import { AuthRequest } from '../middleware/auth.js';
+import { ENV } from '../config/environment.js';
+import { parseVehicleFilters, describeVehicleFilters } from '../services/vehicleSearch.js';
+import { alertModeFor } from '../services/savedSearchAlerts.js';
+
+// Load one of the current user's saved searches, or answer 404
+const findOwnSearch = async (req: AuthRequest, res: Response) => {
+  const search = mongoose.isValidObjectId(req.params.id)
+    ? await SavedSearch.findOne({ _id: req.params.id, userId: req.userId })
+    : null;
+
+  if (!search) {
+    res.status(404).json({
+      success: false,
+      error: 'Saved search not found',
+      code: 'NOT_FOUND',
+    });
+  }
+  return search;
+};
+
+// @desc    List my saved vehicle searches, with how their alerts are delivered
+// @route   GET /api/saved-searches
+// @access  Private
+export const getMySavedSearches = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const [searches, user] = await Promise.all([
+      SavedSearch.find({ userId: req.userId }).select('-digestVehicleIds').sort({ createdAt: -1 }).lean(),
+      User.findById(req.userId).populate('subscription.planId'),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        items: searches.map((search) => ({ ...search, summary: describeVehicleFilters(search.filters ?? {}) })),
+        alertMode: user ? alertModeFor(user) : 'digest',
+        limit: ENV.MAX_SAVED_SEARCHES_PER_USER,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Get saved searches error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch saved searches',
+      code: 'FETCH_ERROR',
+    });
+  }
+};
+
+// @desc    Save a vehicle search (same filters as GET /api/vehicles)
+// @route   POST /api/saved-searches
+// @access  Private
+export const createSavedSearch = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { name, alertsEnabled } = req.body;
+    const { filters, errors } = parseVehicleFilters(req.body.filters ?? {});
+
+    if (typeof name !== 'string' || !name.trim()) {
+      res.status(400).json({
+        success: false,
+        error: 'Name is required',
+        code: 'VALIDATION_ERROR',
+      });
+      return;
+    }
+
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: errors.join('; '),
+        code: 'INVALID_FILTERS',
+      });
+      return;
+    }
+
+    if ((await SavedSearch.countDocuments({ userId: req.userId })) >= ENV.MAX_SAVED_SEARCHES_PER_USER) {
+      res.status(400).json({
+        success: false,
+        error: `You can save at most ${ENV.MAX_SAVED_SEARCHES_PER_USER} searches. Delete one first.`,
+        code: 'SAVED_SEARCH_LIMIT_REACHED',
+      });
+      return;
+    }
+
+    const search = await SavedSearch.create({
+      userId: req.userId,
+      name: name.trim(),
+      filters,
+      alertsEnabled: alertsEnabled !== false,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: search,
+      message: 'Search saved',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Create saved search error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to save search',
+      code: 'CREATE_ERROR',
+    });
+  }
+};
+
+// @desc    Rename a saved search, change its filters or turn its alerts on/off
+// @route   PUT /api/saved-searches/:id
+// @access  Private
+export const updateSavedSearch = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const search = await findOwnSearch(req, res);
+    if (!search) return;
+
+    const { name, alertsEnabled } = req.body;
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        res.status(400).json({
+          success: false,
+          error: 'Name cannot be empty',
+          code: 'VALIDATION_ERROR',
+        });
+        return;
+      }
+      search.name = name.trim();
+    }
+
+    if (req.body.filters !== undefined) {
+      const { filters, errors } = parseVehicleFilters(req.body.filters ?? {});
+      if (errors.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: errors.join('; '),
+          code: 'INVALID_FILTERS',
+        });
+        return;
+      }
+      search.filters = filters;
+      // Queued matches were for the old filters
+      search.digestVehicleIds = [];
+    }
+
+    if (typeof alertsEnabled === 'boolean') {
+      search.alertsEnabled = alertsEnabled;
+    }
+
+    await search.save();
+
+    res.status(200).json({
+      success: true,
+      data: search,
+      message: 'Saved search updated',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Update saved search error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update saved search',
+      code: 'UPDATE_ERROR',
+    });
+  }
+};
+
+// @desc    Delete a saved search
+// @route   DELETE /api/saved-searches/:id
+// @access  Private
+export const deleteSavedSearch = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const search = await findOwnSearch(req, res);
+    if (!search) return;
+
+    await search.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: 'Saved search deleted',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Delete saved search error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete saved search',
+      code: 'DELETE_ERROR',
+    });
+  }
+};
@@ -0,0 +1,224 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import ScheduledJob from '../models/ScheduledJob.js';
+import ScheduledJobRun from '../models/ScheduledJobRun.js';
+import { AuthRequest } from '../middleware/auth.js';
+import { recordAudit } from '../services/auditLog.js';
+import { listJobDefinitions, getJobDefinition, runJobNow, syncScheduledJobs } from '../services/scheduler.js';
+
+const RUN_STATUSES = ['running', 'succeeded', 'failed'];
+
+// @desc    List background jobs with their schedule, lock and last result
+// @route   GET /api/admin/scheduled-jobs
+// @access  Private (Admin)
+export const getScheduledJobs = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    await syncScheduledJobs();
+
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const [jobs, failures] = await Promise.all([
+      ScheduledJob.find().lean(),
+      ScheduledJobRun.aggregate([
+        { $match: { status: 'failed', startedAt: { $gte: since } } },
+        { $group: { _id: '$jobName', count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    const failureCounts = new Map(failures.map((entry) => [entry._id as string, entry.count as number]));
+    const jobsByName = new Map(jobs.map((job) => [job.name, job]));
+
+    const items = listJobDefinitions().map((definition) => {
+      const job = jobsByName.get(definition.name);
+      return {
+        name: definition.name,
+        description: definition.description,
+        schedule: definition.schedule,
+        enabled: job?.enabled ?? true,
+        nextRunAt: job?.nextRunAt,
+        lastRunAt: job?.lastRunAt,
+        lastSucceededAt: job?.lastSucceededAt,
+        lastStatus: job?.lastStatus,
+        lastError: job?.lastError,
+        attempts: job?.attempts ?? 0,
+        running: Boolean(job?.lockedUntil && job.lockedUntil > new Date()),
+        lockedBy: job?.lockedBy,
+        failuresLast24h: failureCounts.get(definition.name) ?? 0,
+      };
+    });
+
+    res.status(200).json({
+      success: true,
+      data: items,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Get scheduled jobs error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch scheduled jobs',
+      code: 'FETCH_ERROR',
+    });
+  }
+};
+
+// @desc    List background job runs, newest first (filter by job and status)
+// @route   GET /api/admin/scheduled-jobs/runs
+// @access  Private (Admin)
+export const getScheduledJobRuns = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { job, status, page = 1, pageSize = 50 } = req.query;
+
+    const query: any = {};
+    if (job) query.jobName = String(job);
+    if (status) {
+      if (!RUN_STATUSES.includes(String(status))) {
+        res.status(400).json({
+          success: false,
+          error: `Status must be one of: ${RUN_STATUSES.join(', ')}`,
+          code: 'INVALID_STATUS',
+        });
+        return;
+      }
+      query.status = String(status);
+    }
+
+    const pageNum = Math.max(1, Number(page));
+    const limit = Math.min(200, Math.max(1, Number(pageSize)));
+    const skip = (pageNum - 1) * limit;
+
+    const [runs, total] = await Promise.all([
+      ScheduledJobRun.find(query)
+        .sort({ startedAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .populate('triggeredBy', 'name email')
+        .lean(),
+      ScheduledJobRun.countDocuments(query),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        items: runs,
+        total,
+        page: pageNum,
+        pageSize: limit,
+        hasMore: skip + runs.length < total,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Get scheduled job runs error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch scheduled job runs',
+      code: 'FETCH_ERROR',
+    });
+  }
+};
+
+// @desc    Run a background job now
+// @route   POST /api/admin/scheduled-jobs/:name/run
+// @access  Private (Admin)
+export const runScheduledJob = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const name = String(req.params.name);
+    if (!getJobDefinition(name)) {
+      res.status(404).json({
+        success: false,
+        error: 'Scheduled job not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    const run = await runJobNow(name, new mongoose.Types.ObjectId(req.userId!));
+    if (!run) {
+      res.status(409).json({
+        success: false,
+        error: 'The job is already running',
+        code: 'JOB_RUNNING',
+      });
+      return;
+    }
+
+    await recordAudit(
+      {
+        action: 'scheduler.job_run',
+        actorId: req.userId!,
+        statusCode: 200,
+        metadata: { job: name, runId: run._id, status: run.status },
+      },
+      req
+    );
+
+    res.status(200).json({
+      success: true,
+      data: run,
+      message: run.status === 'succeeded' ? `Job "${name}" completed` : `Job "${name}" failed`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Run scheduled job error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to run scheduled job',
+      code: 'UPDATE_ERROR',
+    });
+  }
+};
+
+// @desc    Enable or disable a background job
+// @route   PUT /api/admin/scheduled-jobs/:name
+// @access  Private (Admin)
+export const updateScheduledJob = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const name = String(req.params.name);
+    const { enabled } = req.body;
+
+    if (typeof enabled !== 'boolean') {
+      res.status(400).json({
+        success: false,
+        error: 'enabled must be true or false',
+        code: 'VALIDATION_ERROR',
+      });
+      return;
+    }
+
+    if (!getJobDefinition(name)) {
+      res.status(404).json({
+        success: false,
+        error: 'Scheduled job not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    await syncScheduledJobs();
+    const job = await ScheduledJob.findOneAndUpdate({ name }, { $set: { enabled } }, { new: true });
+
+    await recordAudit(
+      {
+        action: enabled ? 'scheduler.job_enabled' : 'scheduler.job_disabled',
+        actorId: req.userId!,
+        statusCode: 200,
+        metadata: { job: name },
+      },
+      req
+    );
+
+    res.status(200).json({
+      success: true,
+      data: job,
+      message: `Job "${name}" ${enabled ? 'enabled' : 'disabled'}`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Update scheduled job error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update scheduled job',
+      code: 'UPDATE_ERROR',
+    });
+  }
+};
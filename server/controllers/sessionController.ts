@@ -0,0 +1,205 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import User from '../models/User.js';
+import { ISession } from '../models/Session.js';
+import { AuthRequest } from '../middleware/auth.js';
+import {
+  listActiveSessions,
+  revokeSession,
+  revokeAllSessions,
+} from '../services/sessionService.js';
+import { describeUserAgent } from '../utils/userAgent.js';
+
+// Shape a session for API responses (never exposes token hashes)
+const serializeSession = (session: ISession, currentSessionId?: string) => ({
+  id: session._id,
+  device: describeUserAgent(session.userAgent),
+  userAgent: session.userAgent,
+  ipAddress: session.ipAddress,
+  lastSeenAt: session.lastUsedAt,
+  createdAt: session.createdAt,
+  expiresAt: session.expiresAt,
+  current: session._id.toString() === currentSessionId,
+  impersonated: !!session.impersonatedBy,
+});
+
+// @desc    List my active sessions
+// @route   GET /api/auth/sessions
+// @access  Private
+export const getMySessions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const sessions = await listActiveSessions(req.userId!);
+
+    res.status(200).json({
+      success: true,
+      data: sessions.map((session) => serializeSession(session, req.sessionId)),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch sessions',
+      code: 'FETCH_ERROR',
+    });
+  }
+};
+
+// @desc    Sign out one of my sessions
+// @route   DELETE /api/auth/sessions/:id
+// @access  Private
+export const revokeMySession = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const revoked =
+      mongoose.isValidObjectId(req.params.id) &&
+      (await revokeSession(req.userId!, req.params.id as string, 'user_signout'));
+
+    if (!revoked) {
+      res.status(404).json({
+        success: false,
+        error: 'Session not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { revoked: true, current: req.params.id === req.sessionId },
+      message: 'Session signed out',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke session',
+      code: 'REVOKE_ERROR',
+    });
+  }
+};
+
+// @desc    Sign out all of my other sessions
+// @route   DELETE /api/auth/sessions
+// @access  Private
+export const revokeOtherSessions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const revokedCount = await revokeAllSessions(req.userId!, 'user_signout_others', req.sessionId);
+
+    res.status(200).json({
+      success: true,
+      data: { revokedCount },
+      message: 'Signed out of all other sessions',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Revoke other sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke sessions',
+      code: 'REVOKE_ERROR',
+    });
+  }
+};
+
+// @desc    List a user's active sessions
+// @route   GET /api/admin/users/:id/sessions
+// @access  Private (Admin)
+export const getUserSessions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = mongoose.isValidObjectId(req.params.id) ? await User.findById(req.params.id).select('_id') : null;
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    const sessions = await listActiveSessions(user._id);
+
+    res.status(200).json({
+      success: true,
+      data: sessions.map((session) => serializeSession(session)),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Get user sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch sessions',
+      code: 'FETCH_ERROR',
+    });
+  }
+};
+
+// @desc    Sign out one of a user's sessions
+// @route   DELETE /api/admin/users/:id/sessions/:sessionId
+// @access  Private (Admin)
+export const revokeUserSession = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const revoked =
+      mongoose.isValidObjectId(req.params.id) &&
+      mongoose.isValidObjectId(req.params.sessionId) &&
+      (await revokeSession(req.params.id as string, req.params.sessionId as string, 'admin_signout'));
+
+    if (!revoked) {
+      res.status(404).json({
+        success: false,
+        error: 'Session not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { revoked: true },
+      message: 'Session signed out',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Revoke user session error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke session',
+      code: 'REVOKE_ERROR',
+    });
+  }
+};
+
+// @desc    Sign out all of a user's sessions
+// @route   DELETE /api/admin/users/:id/sessions
+// @access  Private (Admin)
+export const revokeAllUserSessions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = mongoose.isValidObjectId(req.params.id) ? await User.findById(req.params.id).select('_id') : null;
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    const revokedCount = await revokeAllSessions(user._id, 'admin_signout');
+
+    res.status(200).json({
+      success: true,
+      data: { revokedCount },
+      message: 'All sessions signed out',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Revoke all user sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke sessions',
+      code: 'REVOKE_ERROR',
+    });
+  }
+};
@@ -3,6 +3,7 @@ import SubscriptionPlan from '../models/SubscriptionPlan.js';
 import User from '../models/User.js';
 import SubscriptionRequest from '../models/SubscriptionRequest.js';
 import { AuthRequest } from '../middleware/auth.js';
+import { resetBillingPeriodIfDue } from '../services/subscriptionService.js';
 
 // ==========================================
 //SUBSCRIPTION PLAN CRUD
@@ -839,27 +840,6 @@ export const getUserSubscriptionRequests = async (req: AuthRequest, res: Respons
 // SUBSCRIPTION ENFORCEMENT ENDPOINTS
 // ==========================================
 
-// Helper function to check if subscription needs billing reset
-const checkAndResetBillingPeriod = async (user: any) => {
-  if (!user.subscription || !user.subscription.lastBrowseReset) {
-    return false;
-  }
-
-  const now = new Date();
-  const lastReset = new Date(user.subscription.lastBrowseReset);
-  const daysSinceReset = Math.floor((now.getTime() - lastReset.getTime()) / (1000 * 60 * 60 * 24));
-
-  // Reset if 30 days have passed
-  if (daysSinceReset >= 30) {
-    user.subscription.browseCount = 0;
-    user.subscription.lastBrowseReset = now;
-    await user.save();
-    return true;
-  }
-
-  return false;
-};
-
 // Check browse limit
 export const checkBrowseLimit = async (req: AuthRequest, res: Response) => {
   try {
@@ -875,7 +855,7 @@ export const checkBrowseLimit = async (req: AuthRequest, res: Response) => {
     }
 
     // Check and reset billing period if needed
-    await checkAndResetBillingPeriod(user);
+    await resetBillingPeriodIfDue(user);
 
     // No subscription - return default free limits
     if (!user.subscription || !user.subscription.planId) {
@@ -947,7 +927,7 @@ export const incrementBrowseCount = async (req: AuthRequest, res: Response) => {
     }
 
     // Check and reset billing period if needed
-    await checkAndResetBillingPeriod(user);
+    await resetBillingPeriodIfDue(user);
 
     if (!user.subscription || user.subscription.status !== 'active') {
       return res.json({
@@ -4,6 +4,9 @@ import Notification from '../models/Notification.js';
 import User from '../models/User.js';
 import SubscriptionPlan from '../models/SubscriptionPlan.js';
 import { AuthRequest } from '../middleware/auth.js';
+import { hasPermission } from '../services/permissionService.js';
+import { notifyListingRemoved, withWatcherCounts } from '../services/watchlist.js';
+import { parseNearSearch, nearQuery, withinRadiusQuery, withDistance } from '../services/geoSearch.js';
 
 // Create a new supplier
 export const createSupplier = async (req: Request, res: Response) => {
@@ -47,10 +50,19 @@ export const getAllSuppliers = async (req: AuthRequest, res: Response) => {
       status, // Extract status from query
     } = req.query;
 
+    const { near, error: nearError } = parseNearSearch(req.query);
+    if (nearError) {
+      return res.status(400).json({
+        success: false,
+        error: nearError,
+        code: 'VALIDATION_ERROR',
+      });
+    }
+
     const query: any = {};
 
-    // Only allow non-approved status for admins
-    if (!req.user || req.user.role !== 'admin') {
+    // Only allow non-approved status for supplier moderators
+    if (!hasPermission(req.user, 'supplier:moderate')) {
       query.status = 'approved';
     } else if (status) {
       query.status = status;
@@ -95,8 +107,9 @@ export const getAllSuppliers = async (req: AuthRequest, res: Response) => {
     const limitNum = Number(limit);
     const skip = (pageNum - 1) * limitNum;
 
-    const suppliers = await Supplier.find(query)
-      .sort(sort as string)
+    // Nearest first when searching by distance
+    const found = await Supplier.find(near ? { ...query, ...nearQuery(near) } : query)
+      .sort(near ? {} : (sort as string))
       .skip(skip)
       .limit(limitNum)
       .populate({
@@ -109,7 +122,8 @@ export const getAllSuppliers = async (req: AuthRequest, res: Response) => {
       })
       .lean();
 
-    const total = await Supplier.countDocuments(query);
+    const total = await Supplier.countDocuments(near ? { ...query, ...withinRadiusQuery(near) } : query);
+    const suppliers = near ? withDistance(near, found) : found;
 
     // Map to include isPaid flag
     const mappedSuppliers = suppliers.map((s: any) => {
@@ -166,7 +180,7 @@ export const getSupplierById = async (req: AuthRequest, res: Response) => {
     const isPaid = creator?.subscription?.status === 'active';
 
     // If not admin and not owner, check if vendor is paid to show details
-    if (!isPaid && (!req.user || (req.user.role !== 'admin' && req.user._id.toString() !== creator?._id?.toString()))) {
+    if (!isPaid && (!req.user || (!hasPermission(req.user, 'supplier:moderate') && req.user._id.toString() !== creator?._id?.toString()))) {
       return res.status(403).json({
         success: false,
         error: 'Access restricted: Full details are only available for featured vendors. Please contact admin for details.',
@@ -194,7 +208,7 @@ export const getSupplierById = async (req: AuthRequest, res: Response) => {
 export const updateSupplier = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user.id;
-    const userRole = (req as any).user.role;
+    const isModerator = hasPermission((req as any).user, 'supplier:moderate');
 
     let supplier = await Supplier.findById(req.params.id);
 
@@ -206,8 +220,8 @@ export const updateSupplier = async (req: Request, res: Response) => {
       });
     }
 
-    // Check ownership (unless admin)
-    if (userRole !== 'admin' && supplier.createdBy.toString() !== userId) {
+    // Check ownership (unless supplier moderator)
+    if (!isModerator && supplier.createdBy.toString() !== userId) {
       return res.status(403).json({
         success: false,
         error: 'Not authorized to update this supplier',
@@ -215,17 +229,23 @@ export const updateSupplier = async (req: Request, res: Response) => {
       });
     }
 
-    // If updating from admin, don't reset status
+    // If updating as a moderator, don't reset status
     const updateData = { ...req.body };
-    if (userRole !== 'admin') {
+    if (!isModerator) {
       updateData.status = 'pending'; // Re-approval required for user edits
     }
 
+    const previousStatus = supplier.status;
     supplier = await Supplier.findByIdAndUpdate(req.params.id, updateData, {
       new: true,
       runValidators: true,
     });
 
+    // Re-approval after an edit is temporary; rejection or withdrawal is not
+    if (supplier && previousStatus === 'approved' && ['rejected', 'withdrawn'].includes(supplier.status)) {
+      await notifyListingRemoved('Supplier', { _id: supplier._id, title: supplier.name }, 'is no longer listed');
+    }
+
     res.status(200).json({
       success: true,
       data: supplier,
@@ -243,7 +263,7 @@ export const updateSupplier = async (req: Request, res: Response) => {
 export const deleteSupplier = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user.id;
-    const userRole = (req as any).user.role;
+    const isModerator = hasPermission((req as any).user, 'supplier:moderate');
 
     const supplier = await Supplier.findById(req.params.id);
 
@@ -255,8 +275,8 @@ export const deleteSupplier = async (req: Request, res: Response) => {
       });
     }
 
-    // Check ownership (unless admin)
-    if (userRole !== 'admin' && supplier.createdBy.toString() !== userId) {
+    // Check ownership (unless supplier moderator)
+    if (!isModerator && supplier.createdBy.toString() !== userId) {
       return res.status(403).json({
         success: false,
         error: 'Not authorized to delete this supplier',
@@ -265,6 +285,7 @@ export const deleteSupplier = async (req: Request, res: Response) => {
     }
 
     await Supplier.findByIdAndDelete(req.params.id);
+    await notifyListingRemoved('Supplier', { _id: supplier._id, title: supplier.name }, 'was removed', { deleted: true });
 
     res.status(200).json({
       success: true,
@@ -284,11 +305,11 @@ export const getMySuppliers = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user.id;
 
-    const suppliers = await Supplier.find({ createdBy: userId }).sort('-createdAt');
+    const suppliers = await Supplier.find({ createdBy: userId }).sort('-createdAt').lean();
 
     res.status(200).json({
       success: true,
-      data: suppliers,
+      data: await withWatcherCounts('Supplier', suppliers),
     });
   } catch (error: any) {
     res.status(500).json({
@@ -360,9 +381,14 @@ export const approveSupplierStatus = async (req: AuthRequest, res: Response) =>
       });
     }
 
+    const previousStatus = supplier.status;
     supplier.status = status;
     await supplier.save();
 
+    if (previousStatus === 'approved' && status === 'rejected') {
+      await notifyListingRemoved('Supplier', { _id: supplier._id, title: supplier.name }, 'is no longer listed');
+    }
+
     // If approved and planId provided, update user subscription
     if (status === 'approved' && planId) {
       const user = await User.findById(supplier.createdBy);
@@ -420,10 +446,9 @@ export const approveSupplierStatus = async (req: AuthRequest, res: Response) =>
 // Toggle supplier verification
 export const toggleVerification = async (req: AuthRequest, res: Response) => {
   try {
-    const userRole = req.user?.role;
     const supplierId = req.params.id;
 
-    if (userRole !== 'admin') {
+    if (!hasPermission(req.user, 'supplier:moderate')) {
       return res.status(403).json({
         success: false,
         error: 'Not authorized to verify suppliers',
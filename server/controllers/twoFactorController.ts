@@ -0,0 +1,291 @@
+import { Response } from 'express';
+import User from '../models/User.js';
+import { ENV } from '../config/environment.js';
+import { AuthRequest } from '../middleware/auth.js';
+import {
+  TWO_FACTOR_FIELDS,
+  isTwoFactorRequired,
+  generateRecoveryCodes,
+  verifySecondFactor,
+} from '../services/twoFactorService.js';
+import { revokeAllSessions } from '../services/sessionService.js';
+import { generateTotpSecret, buildOtpauthUri, verifyTotp } from '../utils/totp.js';
+import { encryptSecret, decryptSecret } from '../utils/encryption.js';
+
+// @desc    Get my 2FA status
+// @route   GET /api/auth/2fa
+// @access  Private
+export const getTwoFactorStatus = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.userId).select(TWO_FACTOR_FIELDS);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        enabled: !!user.twoFactor?.enabled,
+        enabledAt: user.twoFactor?.enabledAt,
+        required: isTwoFactorRequired(user),
+        recoveryCodesRemaining: user.twoFactor?.recoveryCodes?.length || 0,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Get 2FA status error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch two-factor status',
+      code: 'FETCH_ERROR',
+    });
+  }
+};
+
+// @desc    Start 2FA enrollment (returns secret and otpauth URI)
+// @route   POST /api/auth/2fa/setup
+// @access  Private
+export const setupTwoFactor = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.userId).select(TWO_FACTOR_FIELDS);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    if (user.twoFactor?.enabled) {
+      res.status(400).json({
+        success: false,
+        error: 'Two-factor authentication is already enabled',
+        code: 'TWO_FACTOR_ALREADY_ENABLED',
+      });
+      return;
+    }
+
+    const secret = generateTotpSecret();
+    user.set('twoFactor.pendingSecret', encryptSecret(secret));
+    await user.save({ validateBeforeSave: false });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        secret,
+        otpauthUri: buildOtpauthUri(secret, user.email, ENV.TWO_FACTOR_ISSUER),
+      },
+      message: 'Scan the code with your authenticator app, then confirm with a code',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Setup 2FA error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to start two-factor setup',
+      code: 'TWO_FACTOR_SETUP_ERROR',
+    });
+  }
+};
+
+// @desc    Confirm enrollment with a code and enable 2FA
+// @route   POST /api/auth/2fa/enable
+// @access  Private
+export const enableTwoFactor = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { code } = req.body;
+    const user = await User.findById(req.userId).select(TWO_FACTOR_FIELDS);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    const pendingSecret = user.twoFactor?.pendingSecret;
+    if (!pendingSecret) {
+      res.status(400).json({
+        success: false,
+        error: 'Start two-factor setup first',
+        code: 'TWO_FACTOR_SETUP_REQUIRED',
+      });
+      return;
+    }
+
+    const step = code ? verifyTotp(decryptSecret(pendingSecret), String(code)) : null;
+    if (step === null) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid verification code',
+        code: 'INVALID_TWO_FACTOR_CODE',
+      });
+      return;
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    user.set('twoFactor', {
+      enabled: true,
+      secret: pendingSecret,
+      pendingSecret: undefined,
+      recoveryCodes: hashes,
+      lastUsedStep: step,
+      enabledAt: new Date(),
+    });
+    await user.save({ validateBeforeSave: false });
+
+    // Other devices signed in with only a password are signed out
+    await revokeAllSessions(user._id, 'two_factor_enabled', req.sessionId);
+
+    res.status(200).json({
+      success: true,
+      data: { enabled: true, recoveryCodes: codes },
+      message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Enable 2FA error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to enable two-factor authentication',
+      code: 'TWO_FACTOR_ENABLE_ERROR',
+    });
+  }
+};
+
+// @desc    Disable 2FA (requires password and a code)
+// @route   POST /api/auth/2fa/disable
+// @access  Private
+export const disableTwoFactor = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { password, code, recoveryCode } = req.body;
+    const user = await User.findById(req.userId).select(`+password ${TWO_FACTOR_FIELDS}`);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    if (isTwoFactorRequired(user)) {
+      res.status(403).json({
+        success: false,
+        error: 'Two-factor authentication is mandatory for this account',
+        code: 'TWO_FACTOR_REQUIRED',
+      });
+      return;
+    }
+
+    if (!user.twoFactor?.enabled) {
+      res.status(400).json({
+        success: false,
+        error: 'Two-factor authentication is not enabled',
+        code: 'TWO_FACTOR_NOT_ENABLED',
+      });
+      return;
+    }
+
+    if (!password || !(await user.comparePassword(password))) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid password',
+        code: 'INVALID_CREDENTIALS',
+      });
+      return;
+    }
+
+    if (!verifySecondFactor(user, { code, recoveryCode })) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid verification code',
+        code: 'INVALID_TWO_FACTOR_CODE',
+      });
+      return;
+    }
+
+    user.set('twoFactor', { enabled: false });
+    await user.save({ validateBeforeSave: false });
+
+    res.status(200).json({
+      success: true,
+      data: { enabled: false },
+      message: 'Two-factor authentication disabled',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Disable 2FA error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to disable two-factor authentication',
+      code: 'TWO_FACTOR_DISABLE_ERROR',
+    });
+  }
+};
+
+// @desc    Replace recovery codes (requires a current code)
+// @route   POST /api/auth/2fa/recovery-codes
+// @access  Private
+export const regenerateRecoveryCodes = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { code } = req.body;
+    const user = await User.findById(req.userId).select(TWO_FACTOR_FIELDS);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    if (!user.twoFactor?.enabled) {
+      res.status(400).json({
+        success: false,
+        error: 'Two-factor authentication is not enabled',
+        code: 'TWO_FACTOR_NOT_ENABLED',
+      });
+      return;
+    }
+
+    if (!verifySecondFactor(user, { code })) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid verification code',
+        code: 'INVALID_TWO_FACTOR_CODE',
+      });
+      return;
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    user.set('twoFactor.recoveryCodes', hashes);
+    await user.save({ validateBeforeSave: false });
+
+    res.status(200).json({
+      success: true,
+      data: { recoveryCodes: codes },
+      message: 'New recovery codes generated. Previous codes no longer work',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to regenerate recovery codes',
+      code: 'RECOVERY_CODES_ERROR',
+    });
+  }
+};
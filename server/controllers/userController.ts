@@ -1,7 +1,15 @@
 import { Response } from 'express';
 import User from '../models/User.js';
 import { AuthRequest } from '../middleware/auth.js';
+import { hasPermission } from '../services/permissionService.js';
+import { buildPersonalDataExport } from '../services/dataExport.js';
+import { scheduleAccountDeletion, cancelAccountDeletion } from '../services/accountDeletion.js';
+import { revokeAllSessions, clearAuthCookies } from '../services/sessionService.js';
+import { revokeUserApiKeys } from '../services/apiKeyService.js';
 import { ISubscriptionPlan } from '../models/SubscriptionPlan.js';
+import { parseNearSearch, nearQuery, withinRadiusQuery, withDistance } from '../services/geoSearch.js';
+import { hasSellerRevealedContactTo } from '../services/conversationService.js';
+import { maskEmail, maskPhone } from '../utils/contactMask.js';
 
 // Helper to get teacher data delay date
 const getTeacherDataDelayDate = (user: any): Date | null => {
@@ -34,8 +42,18 @@ export const getUsers = async (req: AuthRequest, res: Response): Promise<void> =
       pageSize = 12,
     } = req.query;
 
-    // Build query
-    const query: any = {};
+    const { near, error: nearError } = parseNearSearch(req.query);
+    if (nearError) {
+      res.status(400).json({
+        success: false,
+        error: nearError,
+        code: 'VALIDATION_ERROR',
+      });
+      return;
+    }
+
+    // Build query (anonymised accounts never appear in the directory)
+    const query: any = { deletedAt: { $exists: false } };
 
     // Filter by role (e.g., 'teacher')
     if (role) {
@@ -89,15 +107,17 @@ export const getUsers = async (req: AuthRequest, res: Response): Promise<void> =
     const pageSizeNum = Number(pageSize);
     const skip = (pageNum - 1) * pageSizeNum;
 
-    const [users, total] = await Promise.all([
-      User.find(query)
+    // Nearest first when searching by distance
+    const [found, total] = await Promise.all([
+      User.find(near ? { ...query, ...nearQuery(near) } : query)
         .select('-password')
-        .sort({ createdAt: -1 })
+        .sort(near ? {} : { createdAt: -1 })
         .skip(skip)
         .limit(pageSizeNum)
         .lean(),
-      User.countDocuments(query),
+      User.countDocuments(near ? { ...query, ...withinRadiusQuery(near) } : query),
     ]);
+    const users = near ? withDistance(near, found) : found;
 
     res.status(200).json({
       success: true,
@@ -142,7 +162,7 @@ export const getUserById = async (req: AuthRequest, res: Response): Promise<void
     }
 
     // Check visibility based on delay if not admin and user is a teacher
-    if (user.role === 'teacher' && (!req.user || req.user.role !== 'admin')) {
+    if (user.role === 'teacher' && !hasPermission(req.user, 'user:read')) {
       const delayDate = getTeacherDataDelayDate(req.user);
       if (delayDate && new Date(user.createdAt) > delayDate) {
         res.status(403).json({
@@ -154,9 +174,21 @@ export const getUserById = async (req: AuthRequest, res: Response): Promise<void
       }
     }
 
+    // Contact details follow the same rule as on vehicle listings: visible to the
+    // user themself, moderators and people the seller has revealed them to.
+    // Teachers listed in the directory have opted in to being contacted.
+    const contactVisible =
+      (user.role === 'teacher' && user.instituteSearchability) ||
+      hasPermission(req.user, 'user:read') ||
+      (!!req.user &&
+        (req.user._id.toString() === user._id.toString() ||
+          (await hasSellerRevealedContactTo(user._id, req.user._id))));
+
     res.status(200).json({
       success: true,
-      data: user,
+      data: contactVisible
+        ? user
+        : { ...user, email: maskEmail(user.email), phone: maskPhone(user.phone), contactMasked: true },
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -278,4 +310,124 @@ export const updateUserProfile = async (req: AuthRequest, res: Response): Promis
       code: 'UPDATE_ERROR',
     });
   }
-};
\ No newline at end of file
+};
+
+// @desc    Download everything we hold about me (JSON)
+// @route   GET /api/users/me/export
+// @access  Private
+export const exportMyData = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const bundle = await buildPersonalDataExport(req.userId!);
+
+    if (!bundle) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    const filename = `edufleet-export-${req.userId}-${new Date().toISOString().slice(0, 10)}.json`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.status(200).json(bundle);
+  } catch (error) {
+    console.error('Export data error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to export data',
+      code: 'EXPORT_ERROR',
+    });
+  }
+};
+
+// @desc    Delete my account (after a grace period)
+// @route   DELETE /api/users/me
+// @access  Private
+export const deleteMyAccount = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { password } = req.body || {};
+    const user = await User.findById(req.userId).select('+password');
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    if (user.role === 'admin') {
+      res.status(403).json({
+        success: false,
+        error: 'Admin accounts cannot be deleted from here',
+        code: 'FORBIDDEN',
+      });
+      return;
+    }
+
+    // Accounts created through Google have no password to confirm
+    if (user.password && !(await user.comparePassword(String(password || '')))) {
+      res.status(401).json({
+        success: false,
+        error: 'Password is incorrect',
+        code: 'INVALID_CREDENTIALS',
+      });
+      return;
+    }
+
+    const scheduledFor = await scheduleAccountDeletion(user._id);
+
+    // Sign out everywhere; logging in again during the grace period allows cancelling
+    await revokeAllSessions(user._id, 'account_deletion');
+    await revokeUserApiKeys(user._id);
+    clearAuthCookies(res);
+
+    res.status(200).json({
+      success: true,
+      data: { deletionScheduledFor: scheduledFor },
+      message: 'Your account will be deleted on the scheduled date. Log in before then to cancel',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Delete account error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete account',
+      code: 'DELETE_ERROR',
+    });
+  }
+};
+
+// @desc    Cancel a pending account deletion
+// @route   POST /api/users/me/cancel-deletion
+// @access  Private
+export const cancelMyAccountDeletion = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const cancelled = await cancelAccountDeletion(req.userId!);
+
+    if (!cancelled) {
+      res.status(400).json({
+        success: false,
+        error: 'No account deletion is pending',
+        code: 'NO_PENDING_DELETION',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { cancelled: true },
+      message: 'Account deletion cancelled',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Cancel account deletion error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to cancel account deletion',
+      code: 'UPDATE_ERROR',
+    });
+  }
+};
@@ -1,8 +1,70 @@
 import { Response } from 'express';
-import Vehicle from '../models/Vehicle.js';
+import mongoose from 'mongoose';
+import Vehicle, { VEHICLE_STATUSES, VehicleStatus, VehicleFilters } from '../models/Vehicle.js';
 import Notification from '../models/Notification.js';
+import User from '../models/User.js';
 import { AuthRequest } from '../middleware/auth.js';
 import { ISubscriptionPlan } from '../models/SubscriptionPlan.js';
+import { resolveActingAccount } from '../services/organizationService.js';
+import { can, hasPermission } from '../services/permissionService.js';
+import { isSellerContactRevealed } from '../services/conversationService.js';
+import {
+  INACTIVE_VEHICLE_STATUSES,
+  PUBLIC_VEHICLE_STATUSES,
+  canOwnerTransition,
+  ownerTransitionsFrom,
+  changeVehicleStatus,
+} from '../services/vehicleLifecycle.js';
+import { vehicleExpiryDate } from '../services/listingExpiry.js';
+import { withDocumentCompliance, allDocumentsValidQuery } from '../services/vehicleDocuments.js';
+import { findRegistrationConflicts } from '../services/registrationConflicts.js';
+import { parseVehicleFilters, vehicleFilterQuery, omitFilters } from '../services/vehicleSearch.js';
+import { parseFacetNames, computeFacets, VEHICLE_FACETS } from '../services/searchFacets.js';
+import { parseNearSearch, nearQuery, withinRadiusQuery, withDistance } from '../services/geoSearch.js';
+import { notifyVehiclePriceDrop, notifyListingRemoved, withWatcherCounts } from '../services/watchlist.js';
+import {
+  buildVehicleComparison,
+  MIN_COMPARE_VEHICLES,
+  MAX_COMPARE_VEHICLES,
+} from '../services/vehicleComparison.js';
+import { ENV } from '../config/environment.js';
+import { maskEmail, maskPhone } from '../utils/contactMask.js';
+import { normalizeRegistrationNumber, isValidRegistrationNumber } from '../utils/registrationNumber.js';
+
+// Managed by moderation, the status and renew endpoints and the background jobs, never by a plain update
+const LIFECYCLE_FIELDS = [
+  'status',
+  'statusHistory',
+  'approvedAt',
+  'rejectedAt',
+  'reservedAt',
+  'soldAt',
+  'withdrawnAt',
+  'expiredAt',
+  'expiresAt',
+  'expiryReminderSentAt',
+  'renewedAt',
+  'renewalCount',
+  'documentReminders',
+  'documentVerifications',
+];
+
+// A request body without the lifecycle fields, for creates and plain updates
+const withoutLifecycleFields = (body: Record<string, unknown>): Record<string, unknown> => {
+  const fields = { ...body };
+  for (const field of LIFECYCLE_FIELDS) {
+    delete fields[field];
+  }
+  return fields;
+};
+
+// Seller email/phone stay masked until the seller shares them in a conversation
+const withMaskedContact = <T extends { sellerEmail?: string; sellerPhone?: string }>(vehicle: T) => ({
+  ...vehicle,
+  sellerEmail: maskEmail(vehicle.sellerEmail),
+  sellerPhone: maskPhone(vehicle.sellerPhone),
+  sellerContactMasked: true,
+});
 
 // Helper to get data delay date
 const getDataDelayDate = (user: any): Date | null => {
@@ -23,11 +85,11 @@ const getDataDelayDate = (user: any): Date | null => {
 // @access  Public
 export const getVehicles = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    // Restrict access for vendors
-    if (req.user && req.user.role === 'vendor') {
+    // Restrict access for accounts that cannot browse vehicles (e.g. vendors)
+    if (req.user && !hasPermission(req.user, 'vehicle:browse')) {
       res.status(403).json({
         success: false,
-        error: 'Vehicle browsing is not applicable for vendors',
+        error: 'Vehicle browsing is not applicable for your account',
         code: 'ACCESS_DENIED',
       });
       return;
@@ -35,27 +97,49 @@ export const getVehicles = async (req: AuthRequest, res: Response): Promise<void
 
     const {
       searchTerm,
-      type,
-      manufacturer,
-      year,
-      condition,
       status,
       isPriority,
+      documentsValid,
       page = 1,
       pageSize = 12,
     } = req.query;
 
-    // Build query
+    const { near, error: nearError } = parseNearSearch(req.query);
+    if (nearError) {
+      res.status(400).json({
+        success: false,
+        error: nearError,
+        code: 'VALIDATION_ERROR',
+      });
+      return;
+    }
+
+    const { names: facetNames, error: facetError } = parseFacetNames(req.query.facets, VEHICLE_FACETS);
+    if (facetError) {
+      res.status(400).json({
+        success: false,
+        error: facetError,
+        code: 'VALIDATION_ERROR',
+      });
+      return;
+    }
+
+    // Type, manufacturer, year, condition, price range and location are shared
+    // with saved searches; the rest of the query is built below
+    const { filters } = parseVehicleFilters(req.query);
     const query: any = {};
 
-    // Only show approved vehicles to non-admin users
-    if (!req.user || req.user.role !== 'admin') {
-      query.status = 'approved';
+    // Only show approved vehicles to users who cannot moderate listings
+    // (reserved and sold ones on request)
+    if (!hasPermission(req.user, 'vehicle:moderate')) {
+      query.status = PUBLIC_VEHICLE_STATUSES.includes(status as VehicleStatus) ? status : 'approved';
       
       // Removed subscription data delay to ensure logged-in users can see listings
       // The delay logic was incorrectly hiding all recent listings for new users
     } else if (status) {
       query.status = status;
+    } else {
+      query.status = { $nin: INACTIVE_VEHICLE_STATUSES };
     }
 
     if (searchTerm) {
@@ -67,35 +151,46 @@ export const getVehicles = async (req: AuthRequest, res: Response): Promise<void
       ];
     }
 
-    if (type) query.type = type;
-    if (manufacturer) query.manufacturer = manufacturer;
-    if (year) query.year = Number(year);
-    if (condition) query.condition = condition;
     if (isPriority !== undefined) query.isPriority = isPriority === 'true';
 
+    // Only listings whose insurance, fitness, road tax and permit are all in date
+    if (documentsValid === 'true') Object.assign(query, allDocumentsValidQuery());
+
     // Pagination
     const pageNum = Number(page);
     const limit = Number(pageSize);
     const skip = (pageNum - 1) * limit;
 
-    // Execute query
-    const [vehicles, total] = await Promise.all([
-      Vehicle.find(query)
-        .sort({ isPriority: -1, createdAt: -1 })
+    // The filters minus the ones named, limited to the search radius
+    const matchFor = (ignores: string[]) => ({
+      ...vehicleFilterQuery(omitFilters(filters, ignores as (keyof VehicleFilters)[])),
+      ...query,
+      ...(near ? withinRadiusQuery(near) : {}),
+    });
+
+    // Execute query (nearest first when searching by distance)
+    const [found, total, facets] = await Promise.all([
+      Vehicle.find({ ...vehicleFilterQuery(filters), ...query, ...(near ? nearQuery(near) : {}) })
+        .sort(near ? {} : { isPriority: -1, createdAt: -1 })
         .skip(skip)
         .limit(limit)
         .lean(),
-      Vehicle.countDocuments(query),
+      Vehicle.countDocuments(matchFor([])),
+      facetNames.length > 0 ? computeFacets(Vehicle, facetNames, VEHICLE_FACETS, matchFor) : undefined,
     ]);
+    const vehicles = near ? withDistance(near, found) : found;
 
     res.status(200).json({
       success: true,
       data: {
-        items: vehicles,
+        items: (hasPermission(req.user, 'vehicle:moderate') ? vehicles : vehicles.map(withMaskedContact)).map(
+          (vehicle) => withDocumentCompliance(vehicle)
+        ),
         total,
         page: pageNum,
         pageSize: limit,
         hasMore: skip + vehicles.length < total,
+        ...(facets ? { facets } : {}),
       },
       timestamp: new Date().toISOString(),
     });
@@ -114,11 +209,11 @@ export const getVehicles = async (req: AuthRequest, res: Response): Promise<void
 // @access  Public
 export const getVehicle = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    // Restrict access for vendors
-    if (req.user && req.user.role === 'vendor') {
+    // Restrict access for accounts that cannot browse vehicles (e.g. vendors)
+    if (req.user && !hasPermission(req.user, 'vehicle:browse')) {
       res.status(403).json({
         success: false,
-        error: 'Vehicle browsing is not applicable for vendors',
+        error: 'Vehicle browsing is not applicable for your account',
         code: 'ACCESS_DENIED',
       });
       return;
@@ -140,11 +235,12 @@ export const getVehicle = async (req: AuthRequest, res: Response): Promise<void>
       // Removed delay check to allow visibility
     }
 
-    // Only show approved vehicles to non-admin/non-owner users
-    if (
-      vehicle.status !== 'approved' &&
-      (!req.user || (req.user.role !== 'admin' && req.user._id.toString() !== vehicle.sellerId.toString()))
-    ) {
+    const isModeratorOrOwner =
+      hasPermission(req.user, 'vehicle:moderate') ||
+      (await can(req.user, 'vehicle:manage', { ownerId: vehicle.sellerId }));
+
+    // Only show listed, reserved or sold vehicles to non-moderator/non-owner users
+    if (!PUBLIC_VEHICLE_STATUSES.includes(vehicle.status) && !isModeratorOrOwner) {
       res.status(404).json({
         success: false,
         error: 'Vehicle not found',
@@ -157,9 +253,12 @@ export const getVehicle = async (req: AuthRequest, res: Response): Promise<void>
     vehicle.views += 1;
     await vehicle.save();
 
+    const contactVisible =
+      isModeratorOrOwner || (!!req.user && (await isSellerContactRevealed(vehicle._id, req.user._id)));
+
     res.status(200).json({
       success: true,
-      data: vehicle,
+      data: withDocumentCompliance(contactVisible ? vehicle.toObject() : withMaskedContact(vehicle.toObject())),
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -172,6 +271,87 @@ export const getVehicle = async (req: AuthRequest, res: Response): Promise<void>
   }
 };
 
+// @desc    Compare two to four vehicles side by side
+// @route   GET /api/vehicles/compare?ids=id1,id2,id3
+// @access  Public
+export const compareVehicles = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    // Same visibility rules as a single vehicle
+    if (req.user && !hasPermission(req.user, 'vehicle:browse')) {
+      res.status(403).json({
+        success: false,
+        error: 'Vehicle browsing is not applicable for your account',
+        code: 'ACCESS_DENIED',
+      });
+      return;
+    }
+
+    const ids = [
+      ...new Set(
+        String(req.query.ids ?? '')
+          .split(',')
+          .map((id) => id.trim())
+          .filter(Boolean)
+      ),
+    ];
+
+    if (
+      ids.length < MIN_COMPARE_VEHICLES ||
+      ids.length > MAX_COMPARE_VEHICLES ||
+      !ids.every((id) => mongoose.isValidObjectId(id))
+    ) {
+      res.status(400).json({
+        success: false,
+        error: `ids must list ${MIN_COMPARE_VEHICLES} to ${MAX_COMPARE_VEHICLES} different vehicle ids, comma-separated`,
+        code: 'VALIDATION_ERROR',
+      });
+      return;
+    }
+
+    const found = await Vehicle.find({ _id: { $in: ids } }).lean();
+    const byId = new Map(found.map((vehicle) => [vehicle._id.toString(), vehicle]));
+
+    const vehicles = [];
+    const missing = [];
+    for (const id of ids) {
+      const vehicle = byId.get(id);
+      const visible =
+        vehicle &&
+        (PUBLIC_VEHICLE_STATUSES.includes(vehicle.status) ||
+          hasPermission(req.user, 'vehicle:moderate') ||
+          (await can(req.user, 'vehicle:manage', { ownerId: vehicle.sellerId })));
+
+      if (visible) {
+        vehicles.push(vehicle);
+      } else {
+        missing.push(id);
+      }
+    }
+
+    if (missing.length > 0) {
+      res.status(404).json({
+        success: false,
+        error: `Vehicle not found: ${missing.join(', ')}`,
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: buildVehicleComparison(vehicles),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Compare vehicles error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to compare vehicles',
+      code: 'FETCH_ERROR',
+    });
+  }
+};
+
 // @desc    Create vehicle listing
 // @route   POST /api/vehicles
 // @access  Private (Institute)
@@ -186,9 +366,21 @@ export const createVehicle = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    // Check subscription permissions for vehicle advertising
+    // Staff list on behalf of their organization's institute account
+    const acting = await resolveActingAccount(req.user, 'manage_vehicles');
+    if (!acting) {
+      res.status(403).json({
+        success: false,
+        error: 'Your organization role does not allow listing vehicles',
+        code: 'FORBIDDEN',
+      });
+      return;
+    }
+    const account = acting.account;
+
+    // Check subscription permissions for vehicle advertising (shared across the organization)
     if (req.user.role !== 'admin') {
-      const plan = req.user.subscription?.planId as unknown as ISubscriptionPlan;
+      const plan = account.subscription?.planId as unknown as ISubscriptionPlan;
       
       if (plan && !plan.features.canAdvertiseVehicles) {
         res.status(403).json({
@@ -201,7 +393,7 @@ export const createVehicle = async (req: AuthRequest, res: Response): Promise<vo
 
       // Check listing limit
       const maxListings = plan?.features?.maxListings ?? 0;
-      const listingsUsed = req.user.subscription?.listingsUsed ?? 0;
+      const listingsUsed = account.subscription?.listingsUsed ?? 0;
 
       if (maxListings !== -1 && listingsUsed >= maxListings) {
         res.status(403).json({
@@ -213,27 +405,60 @@ export const createVehicle = async (req: AuthRequest, res: Response): Promise<vo
       }
     }
 
+    const registrationNumber = normalizeRegistrationNumber(req.body.registrationNumber);
+    if (!isValidRegistrationNumber(registrationNumber)) {
+      res.status(400).json({
+        success: false,
+        error: 'Enter a valid Indian registration number (e.g. KA01AB1234 or 22BH1234AA)',
+        code: 'INVALID_REGISTRATION_NUMBER',
+      });
+      return;
+    }
+
+    // The same vehicle listed twice: refused for the same seller, otherwise per policy
+    const conflicts = await findRegistrationConflicts(registrationNumber);
+    const ownConflict = conflicts.some((conflict) => conflict.sellerId.toString() === account._id.toString());
+    if (ownConflict || (conflicts.length > 0 && ENV.DUPLICATE_REGISTRATION_POLICY === 'block')) {
+      res.status(409).json({
+        success: false,
+        error: ownConflict
+          ? 'You already have an active listing for this registration number'
+          : 'This registration number is already listed by another seller',
+        code: 'DUPLICATE_REGISTRATION',
+      });
+      return;
+    }
+
+    // A new listing always starts pending with an empty history
     const vehicleData = {
-      ...req.body,
-      sellerId: req.user._id,
-      sellerName: req.user.instituteName || req.user.name,
-      sellerEmail: req.user.email,
-      sellerPhone: req.user.phone,
+      ...withoutLifecycleFields(req.body),
+      registrationNumber,
+      sellerId: account._id,
+      sellerName: account.instituteName || account.name,
+      sellerEmail: account.email,
+      sellerPhone: account.phone,
+      location: req.body.location ?? {
+        city: account.address?.city,
+        state: account.address?.state,
+        pincode: account.address?.pincode,
+      },
       status: 'pending',
     };
 
     const vehicle = await Vehicle.create(vehicleData);
 
     // Update listingsUsed counter
-    if (req.user.subscription) {
-      req.user.subscription.listingsUsed = (req.user.subscription.listingsUsed || 0) + 1;
-      await (req.user as any).save();
+    if (account.subscription) {
+      account.subscription.listingsUsed = (account.subscription.listingsUsed || 0) + 1;
+      await (account as any).save();
     }
 
     res.status(201).json({
       success: true,
       data: vehicle,
-      message: 'Vehicle listing created successfully',
+      message: conflicts.length > 0
+        ? 'Vehicle listing created. Its registration number is already listed, so a moderator will review it.'
+        : 'Vehicle listing created successfully',
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -271,8 +496,8 @@ export const updateVehicle = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    // Check ownership
-    if (vehicle.sellerId.toString() !== req.user._id.toString()) {
+    // Check ownership through organization membership
+    if (!(await can(req.user, 'vehicle:manage', { ownerId: vehicle.sellerId }))) {
       res.status(403).json({
         success: false,
         error: 'Not authorized to update this vehicle',
@@ -281,10 +506,46 @@ export const updateVehicle = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
+    // Status changes go through PATCH /api/vehicles/:id/status
+    const updates: any = withoutLifecycleFields(req.body);
+
+    // A changed registration number must be valid and not listed elsewhere
+    if (updates.registrationNumber !== undefined) {
+      updates.registrationNumber = normalizeRegistrationNumber(updates.registrationNumber);
+
+      if (updates.registrationNumber !== vehicle.registrationNumber) {
+        if (!isValidRegistrationNumber(updates.registrationNumber)) {
+          res.status(400).json({
+            success: false,
+            error: 'Enter a valid Indian registration number (e.g. KA01AB1234 or 22BH1234AA)',
+            code: 'INVALID_REGISTRATION_NUMBER',
+          });
+          return;
+        }
+
+        const conflicts = await findRegistrationConflicts(updates.registrationNumber, { excludeId: vehicle._id });
+        if (conflicts.length > 0) {
+          res.status(409).json({
+            success: false,
+            error: 'This registration number is already used by another active listing',
+            code: 'DUPLICATE_REGISTRATION',
+          });
+          return;
+        }
+      }
+    }
+
     // Update vehicle
-    Object.assign(vehicle, req.body);
+    const previousPrice = vehicle.price;
+    Object.assign(vehicle, updates);
     await vehicle.save();
 
+    try {
+      await notifyVehiclePriceDrop(vehicle, previousPrice);
+    } catch (watchError) {
+      console.error('Failed to notify watchers of price drop:', watchError);
+    }
+
     res.status(200).json({
       success: true,
       data: vehicle,
@@ -326,11 +587,8 @@ export const deleteVehicle = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    // Check ownership or admin
-    if (
-      vehicle.sellerId.toString() !== req.user._id.toString() &&
-      req.user.role !== 'admin'
-    ) {
+    // Check ownership (through organization membership) or admin
+    if (!(await can(req.user, 'vehicle:manage', { ownerId: vehicle.sellerId }))) {
       res.status(403).json({
         success: false,
         error: 'Not authorized to delete this vehicle',
@@ -340,6 +598,7 @@ export const deleteVehicle = async (req: AuthRequest, res: Response): Promise<vo
     }
 
     await vehicle.deleteOne();
+    await notifyListingRemoved('Vehicle', vehicle, 'was removed by the seller', { deleted: true });
 
     res.status(200).json({
       success: true,
@@ -357,13 +616,187 @@ export const deleteVehicle = async (req: AuthRequest, res: Response): Promise<vo
   }
 };
 
+// @desc    Move my listing to another status (reserved, sold, withdrawn, back on sale...)
+// @route   PATCH /api/vehicles/:id/status
+// @access  Private (Owner)
+export const updateVehicleStatus = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { status, reason } = req.body;
+
+    const vehicle = await Vehicle.findById(req.params.id);
+
+    if (!vehicle) {
+      res.status(404).json({
+        success: false,
+        error: 'Vehicle not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    if (!(await can(req.user, 'vehicle:manage', { ownerId: vehicle.sellerId }))) {
+      res.status(403).json({
+        success: false,
+        error: 'Not authorized to update this vehicle',
+        code: 'FORBIDDEN',
+      });
+      return;
+    }
+
+    if (!canOwnerTransition(vehicle.status, status)) {
+      const allowed = ownerTransitionsFrom(vehicle.status);
+      res.status(400).json({
+        success: false,
+        error: allowed.length
+          ? `A ${vehicle.status} listing can only be moved to: ${allowed.join(', ')}`
+          : `A ${vehicle.status} listing cannot be changed`,
+        code: 'INVALID_TRANSITION',
+      });
+      return;
+    }
+
+    const updated = await changeVehicleStatus(
+      vehicle,
+      status,
+      req.user!._id,
+      typeof reason === 'string' ? reason.trim().slice(0, 500) || undefined : undefined
+    );
+    if (!updated) {
+      res.status(409).json({
+        success: false,
+        error: 'The listing status changed in the meantime. Reload it and try again',
+        code: 'STATUS_CONFLICT',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: updated,
+      message: `Vehicle marked as ${status}`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Update vehicle status error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update vehicle status',
+      code: 'UPDATE_ERROR',
+    });
+  }
+};
+
+// @desc    Renew an expired or expiring listing (counts against the plan's listing limit)
+// @route   POST /api/vehicles/:id/renew
+// @access  Private (Owner)
+export const renewVehicle = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const vehicle = await Vehicle.findById(req.params.id);
+
+    if (!vehicle) {
+      res.status(404).json({
+        success: false,
+        error: 'Vehicle not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    if (!(await can(req.user, 'vehicle:manage', { ownerId: vehicle.sellerId }))) {
+      res.status(403).json({
+        success: false,
+        error: 'Not authorized to renew this vehicle',
+        code: 'FORBIDDEN',
+      });
+      return;
+    }
+
+    if (vehicle.status !== 'expired' && vehicle.status !== 'approved') {
+      res.status(400).json({
+        success: false,
+        error: 'Only live or expired listings can be renewed',
+        code: 'INVALID_STATUS',
+      });
+      return;
+    }
+
+    // Renewals use up a listing from the owner's plan, like a new listing
+    const account = await User.findById(vehicle.sellerId).populate('subscription.planId');
+    if (req.user!.role !== 'admin' && account) {
+      const plan = account.subscription?.planId as unknown as ISubscriptionPlan;
+      const maxListings = plan?.features?.maxListings ?? 0;
+      const listingsUsed = account.subscription?.listingsUsed ?? 0;
+
+      if ((plan && !plan.features.canAdvertiseVehicles) || (maxListings !== -1 && listingsUsed >= maxListings)) {
+        res.status(403).json({
+          success: false,
+          error: `You have reached your listing limit (${maxListings}). Please upgrade your plan.`,
+          code: 'LIMIT_REACHED',
+        });
+        return;
+      }
+    }
+
+    // A live listing is extended from its current expiry, an expired one from now
+    const now = new Date();
+    const from = vehicle.status === 'approved' && vehicle.expiresAt && vehicle.expiresAt > now ? vehicle.expiresAt : now;
+
+    // Another listing of the same vehicle may have gone live while this one was
+    // expired: as with approval, that needs a moderator, so the renewal waits
+    // in the review queue (approval then starts its lifetime)
+    const heldForReview =
+      vehicle.status === 'expired' &&
+      (
+        await findRegistrationConflicts(vehicle.registrationNumber, {
+          excludeId: vehicle._id as mongoose.Types.ObjectId,
+          statuses: ['approved', 'reserved'],
+        })
+      ).length > 0;
+
+    if (heldForReview) {
+      vehicle.setStatus('pending', req.user!._id, 'Renewed; registration number is live in another listing');
+      vehicle.expiresAt = undefined;
+    } else {
+      if (vehicle.status === 'expired') {
+        vehicle.setStatus('approved', req.user!._id, 'Renewed');
+      }
+      vehicle.expiresAt = await vehicleExpiryDate(vehicle.sellerId, from);
+    }
+    vehicle.expiryReminderSentAt = undefined;
+    vehicle.renewedAt = now;
+    vehicle.renewalCount = (vehicle.renewalCount || 0) + 1;
+    await vehicle.save();
+
+    if (account?.subscription) {
+      account.subscription.listingsUsed = (account.subscription.listingsUsed || 0) + 1;
+      await account.save();
+    }
+
+    res.status(200).json({
+      success: true,
+      data: vehicle,
+      message: heldForReview
+        ? 'Listing renewed. Another live listing uses this registration number, so it will go live after review'
+        : 'Listing renewed',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Renew vehicle error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to renew listing',
+      code: 'UPDATE_ERROR',
+    });
+  }
+};
+
 // @desc    Get priority listings
 // @route   GET /api/vehicles/priority
 // @access  Public
 export const getPriorityListings = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    // Restrict for vendors
-    if (req.user && req.user.role === 'vendor') {
+    // Restrict for accounts that cannot browse vehicles (e.g. vendors)
+    if (req.user && !hasPermission(req.user, 'vehicle:browse')) {
       res.status(200).json({ success: true, data: [], timestamp: new Date().toISOString() });
       return;
     }
@@ -382,7 +815,7 @@ export const getPriorityListings = async (req: AuthRequest, res: Response): Prom
 
     res.status(200).json({
       success: true,
-      data: vehicles,
+      data: vehicles.map(withMaskedContact),
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -400,8 +833,8 @@ export const getPriorityListings = async (req: AuthRequest, res: Response): Prom
 // @access  Public
 export const getRecentListings = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    // Restrict for vendors
-    if (req.user && req.user.role === 'vendor') {
+    // Restrict for accounts that cannot browse vehicles (e.g. vendors)
+    if (req.user && !hasPermission(req.user, 'vehicle:browse')) {
       res.status(200).json({ success: true, data: [], timestamp: new Date().toISOString() });
       return;
     }
@@ -419,7 +852,7 @@ export const getRecentListings = async (req: AuthRequest, res: Response): Promis
 
     res.status(200).json({
       success: true,
-      data: vehicles,
+      data: vehicles.map(withMaskedContact),
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -446,15 +879,43 @@ export const getMyListings = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    const vehicles = await Vehicle.find({
-      sellerId: req.user._id,
-    })
+    // Staff see the organization's listings only if their role manages vehicles
+    const acting = await resolveActingAccount(req.user, 'manage_vehicles');
+    if (!acting) {
+      res.status(403).json({
+        success: false,
+        error: 'Your organization role does not allow managing vehicles',
+        code: 'FORBIDDEN',
+      });
+      return;
+    }
+
+    const query: any = { sellerId: acting.account._id };
+
+    // ?status=sold or ?status=reserved,sold
+    if (req.query.status) {
+      const statuses = String(req.query.status).split(',').map((value) => value.trim());
+      const invalid = statuses.filter((value) => !VEHICLE_STATUSES.includes(value as VehicleStatus));
+
+      if (invalid.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: `Unknown status: ${invalid.join(', ')}`,
+          code: 'INVALID_STATUS',
+        });
+        return;
+      }
+
+      query.status = { $in: statuses };
+    }
+
+    const vehicles = await Vehicle.find(query)
       .sort({ createdAt: -1 })
       .lean();
 
     res.status(200).json({
       success: true,
-      data: vehicles,
+      data: (await withWatcherCounts('Vehicle', vehicles)).map((vehicle) => withDocumentCompliance(vehicle)),
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
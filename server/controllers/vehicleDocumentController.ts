@@ -0,0 +1,322 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Vehicle, { IVehicle } from '../models/Vehicle.js';
+import VehicleDocumentUpload, { VERIFIABLE_DOCUMENTS, VerifiableDocument } from '../models/VehicleDocumentUpload.js';
+import { AuthRequest } from '../middleware/auth.js';
+import { can, hasPermission } from '../services/permissionService.js';
+import { recordDocumentUpload, reviewDocumentUpload, documentsVerified } from '../services/vehicleDocuments.js';
+import { documentMimeType } from '../config/multer.js';
+
+const QUEUE_STATUSES = ['pending', 'verified', 'rejected', 'superseded'];
+
+// Parse an optional date from the request body; null if it is not a date
+const parseOptionalDate = (value: unknown): Date | undefined | null => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Documents are visible to the listing's owner (and their staff) and moderators
+const canAccessDocuments = async (req: AuthRequest, vehicle: IVehicle): Promise<boolean> => {
+  return (
+    hasPermission(req.user, 'vehicle:moderate') ||
+    (await can(req.user, 'vehicle:manage', { ownerId: vehicle.sellerId }))
+  );
+};
+
+// @desc    Upload a vehicle document (RC, insurance, fitness, road tax, permit) for verification
+// @route   POST /api/vehicles/:id/documents
+// @access  Private (Owner)
+export const uploadVehicleDocument = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { document } = req.body;
+
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        error: 'No file uploaded',
+        code: 'NO_FILE',
+      });
+      return;
+    }
+
+    if (!VERIFIABLE_DOCUMENTS.includes(document)) {
+      res.status(400).json({
+        success: false,
+        error: `Document must be one of: ${VERIFIABLE_DOCUMENTS.join(', ')}`,
+        code: 'INVALID_DOCUMENT',
+      });
+      return;
+    }
+
+    const expiryDate = parseOptionalDate(req.body.expiryDate);
+    if (expiryDate === null) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid expiry date',
+        code: 'VALIDATION_ERROR',
+      });
+      return;
+    }
+
+    const vehicle = await Vehicle.findById(req.params.id);
+
+    if (!vehicle) {
+      res.status(404).json({
+        success: false,
+        error: 'Vehicle not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    if (!(await can(req.user, 'vehicle:manage', { ownerId: vehicle.sellerId }))) {
+      res.status(403).json({
+        success: false,
+        error: 'Not authorized to update this vehicle',
+        code: 'FORBIDDEN',
+      });
+      return;
+    }
+
+    const upload = await recordDocumentUpload(
+      vehicle,
+      document as VerifiableDocument,
+      req.file,
+      req.user!._id,
+      expiryDate
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { ...upload.toObject(), data: undefined },
+      message: 'Document uploaded and awaiting verification',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Upload vehicle document error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to upload document',
+      code: 'UPLOAD_FAILED',
+    });
+  }
+};
+
+// @desc    List the documents uploaded for a vehicle, newest first
+// @route   GET /api/vehicles/:id/documents
+// @access  Private (Owner, Moderator)
+export const getVehicleDocuments = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const vehicle = await Vehicle.findById(req.params.id);
+
+    if (!vehicle || !(await canAccessDocuments(req, vehicle))) {
+      res.status(404).json({
+        success: false,
+        error: 'Vehicle not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    const uploads = await VehicleDocumentUpload.find({ vehicleId: vehicle._id })
+      .sort({ createdAt: -1 })
+      .populate('reviewedBy', 'name')
+      .lean();
+
+    res.status(200).json({
+      success: true,
+      data: {
+        items: uploads,
+        verifications: vehicle.documentVerifications,
+        documentsVerified: documentsVerified(vehicle),
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Get vehicle documents error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch documents',
+      code: 'FETCH_ERROR',
+    });
+  }
+};
+
+// @desc    Download an uploaded vehicle document
+// @route   GET /api/vehicles/:id/documents/:documentId/file
+// @access  Private (Owner, Moderator)
+export const downloadVehicleDocument = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const vehicle = await Vehicle.findById(req.params.id);
+    const upload = vehicle && mongoose.isValidObjectId(req.params.documentId)
+      ? await VehicleDocumentUpload.findOne({ _id: req.params.documentId, vehicleId: vehicle._id }).select('+data')
+      : null;
+
+    if (!vehicle || !upload || !(await canAccessDocuments(req, vehicle))) {
+      res.status(404).json({
+        success: false,
+        error: 'Document not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    // Type from the validated extension, downloaded rather than rendered on the
+    // API origin, so an upload can never run as a page there
+    res.setHeader('Content-Type', documentMimeType(upload.fileName) ?? 'application/octet-stream');
+    res.setHeader('Content-Disposition', `attachment; filename="${upload.fileName.replace(/["\r\n]/g, '')}"`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.status(200).send(upload.data);
+  } catch (error) {
+    console.error('Download vehicle document error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to download document',
+      code: 'FETCH_ERROR',
+    });
+  }
+};
+
+// @desc    Document verification queue (pending by default, oldest first)
+// @route   GET /api/admin/vehicle-documents
+// @access  Private (Admin)
+export const getDocumentQueue = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { status = 'pending', document, vehicleId, page = 1, pageSize = 50 } = req.query;
+
+    if (!QUEUE_STATUSES.includes(String(status))) {
+      res.status(400).json({
+        success: false,
+        error: `Status must be one of: ${QUEUE_STATUSES.join(', ')}`,
+        code: 'INVALID_STATUS',
+      });
+      return;
+    }
+
+    if (vehicleId && !mongoose.isValidObjectId(vehicleId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid vehicle id',
+        code: 'VALIDATION_ERROR',
+      });
+      return;
+    }
+
+    const query: any = { status: String(status) };
+    if (document) query.document = String(document);
+    if (vehicleId) query.vehicleId = String(vehicleId);
+
+    const pageNum = Math.max(1, Number(page));
+    const limit = Math.min(200, Math.max(1, Number(pageSize)));
+    const skip = (pageNum - 1) * limit;
+
+    const [uploads, total] = await Promise.all([
+      VehicleDocumentUpload.find(query)
+        .sort({ createdAt: status === 'pending' ? 1 : -1 })
+        .skip(skip)
+        .limit(limit)
+        .populate('vehicleId', 'title registrationNumber status')
+        .populate('sellerId', 'name email')
+        .populate('reviewedBy', 'name email')
+        .lean(),
+      VehicleDocumentUpload.countDocuments(query),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        items: uploads,
+        total,
+        page: pageNum,
+        pageSize: limit,
+        hasMore: skip + uploads.length < total,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Get document queue error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch document queue',
+      code: 'FETCH_ERROR',
+    });
+  }
+};
+
+// @desc    Verify or reject an uploaded vehicle document
+// @route   PUT /api/admin/vehicle-documents/:id
+// @access  Private (Admin)
+export const reviewVehicleDocument = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { status } = req.body;
+    const reason = typeof req.body.reason === 'string' ? req.body.reason.trim().slice(0, 500) : '';
+
+    if (!['verified', 'rejected'].includes(status)) {
+      res.status(400).json({
+        success: false,
+        error: 'Status must be verified or rejected',
+        code: 'INVALID_STATUS',
+      });
+      return;
+    }
+
+    if (status === 'rejected' && !reason) {
+      res.status(400).json({
+        success: false,
+        error: 'A reason is required to reject a document',
+        code: 'REASON_REQUIRED',
+      });
+      return;
+    }
+
+    const expiryDate = parseOptionalDate(req.body.expiryDate);
+    if (expiryDate === null) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid expiry date',
+        code: 'VALIDATION_ERROR',
+      });
+      return;
+    }
+
+    const upload = mongoose.isValidObjectId(req.params.id)
+      ? await VehicleDocumentUpload.findById(req.params.id)
+      : null;
+
+    if (!upload) {
+      res.status(404).json({
+        success: false,
+        error: 'Document not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    if (upload.status !== 'pending') {
+      res.status(400).json({
+        success: false,
+        error: `Document is already ${upload.status}`,
+        code: 'ALREADY_REVIEWED',
+      });
+      return;
+    }
+
+    await reviewDocumentUpload(upload, status, req.user!._id, { reason: reason || undefined, expiryDate });
+
+    res.status(200).json({
+      success: true,
+      data: upload,
+      message: `Document ${status}`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Review vehicle document error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to review document',
+      code: 'UPDATE_ERROR',
+    });
+  }
+};
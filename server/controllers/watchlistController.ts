@@ -0,0 +1,199 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Watch from '../models/Watch.js';
+import { AuthRequest } from '../middleware/auth.js';
+import { ENV } from '../config/environment.js';
+import { hasPermission } from '../services/permissionService.js';
+import { resolveAccountId } from '../services/organizationService.js';
+import { parseWatchTargetType, loadWatchTarget, summarizeWatchTarget } from '../services/watchlist.js';
+
+// @desc    List my watched vehicles, jobs and suppliers
+// @route   GET /api/watchlist?type=vehicle|job|supplier
+// @access  Private
+export const getWatchlist = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { type, page = 1, pageSize = 20 } = req.query;
+
+    const query: any = { userId: req.userId };
+    if (type) {
+      const targetType = parseWatchTargetType(type);
+      if (!targetType) {
+        res.status(400).json({
+          success: false,
+          error: 'type must be vehicle, job or supplier',
+          code: 'VALIDATION_ERROR',
+        });
+        return;
+      }
+      query.targetType = targetType;
+    }
+
+    const pageNum = Math.max(1, Number(page) || 1);
+    const limit = Math.min(200, Math.max(1, Number(pageSize) || 20));
+    const skip = (pageNum - 1) * limit;
+
+    const [watches, total] = await Promise.all([
+      Watch.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit).populate('targetId').lean(),
+      Watch.countDocuments(query),
+    ]);
+
+    // A listing deleted since it was watched comes back as `target: null`
+    const items = watches.map(({ targetId: target, ...watch }: any) => {
+      const summary = target ? summarizeWatchTarget(watch.targetType, target) : null;
+      return {
+        ...watch,
+        targetId: target?._id ?? null,
+        target: summary,
+        priceDrop:
+          summary?.price !== undefined && watch.priceAtWatch !== undefined && summary.price < watch.priceAtWatch
+            ? watch.priceAtWatch - summary.price
+            : undefined,
+      };
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        items,
+        total,
+        page: pageNum,
+        pageSize: limit,
+        hasMore: skip + watches.length < total,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Get watchlist error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch watchlist',
+      code: 'FETCH_ERROR',
+    });
+  }
+};
+
+// @desc    Watch a vehicle, job or supplier
+// @route   POST /api/watchlist
+// @access  Private
+export const addToWatchlist = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const targetType = parseWatchTargetType(req.body.targetType);
+    const { targetId } = req.body;
+
+    if (!targetType || !mongoose.isValidObjectId(targetId)) {
+      res.status(400).json({
+        success: false,
+        error: 'targetType (vehicle, job or supplier) and a valid targetId are required',
+        code: 'VALIDATION_ERROR',
+      });
+      return;
+    }
+
+    // Same rule as browsing: accounts that cannot browse vehicles cannot watch them
+    if (targetType === 'Vehicle' && !hasPermission(req.user, 'vehicle:browse')) {
+      res.status(403).json({
+        success: false,
+        error: 'Vehicle browsing is not applicable for your account',
+        code: 'ACCESS_DENIED',
+      });
+      return;
+    }
+
+    const existing = await Watch.findOne({ userId: req.userId, targetType, targetId });
+    if (existing) {
+      res.status(200).json({
+        success: true,
+        data: existing,
+        message: 'Already on your watchlist',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const target = await loadWatchTarget(targetType, targetId);
+    if (!target || !target.summary.available) {
+      res.status(404).json({
+        success: false,
+        error: 'Listing not found or no longer available',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    const ownerId = target.ownerId.toString();
+    if (ownerId === req.userId || ownerId === (await resolveAccountId(req.userId!))) {
+      res.status(400).json({
+        success: false,
+        error: 'You cannot watch your own listing',
+        code: 'OWN_LISTING',
+      });
+      return;
+    }
+
+    if ((await Watch.countDocuments({ userId: req.userId })) >= ENV.MAX_WATCHES_PER_USER) {
+      res.status(400).json({
+        success: false,
+        error: `You can watch at most ${ENV.MAX_WATCHES_PER_USER} listings. Remove one first.`,
+        code: 'WATCHLIST_LIMIT_REACHED',
+      });
+      return;
+    }
+
+    const watch = await Watch.create({
+      userId: req.userId,
+      targetType,
+      targetId,
+      priceAtWatch: target.summary.price,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: watch,
+      message: 'Added to your watchlist',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Add to watchlist error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add to watchlist',
+      code: 'CREATE_ERROR',
+    });
+  }
+};
+
+// @desc    Stop watching a listing
+// @route   DELETE /api/watchlist/:targetType/:targetId
+// @access  Private
+export const removeFromWatchlist = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const targetType = parseWatchTargetType(req.params.targetType);
+
+    const watch =
+      targetType && mongoose.isValidObjectId(req.params.targetId)
+        ? await Watch.findOneAndDelete({ userId: req.userId, targetType, targetId: req.params.targetId })
+        : null;
+
+    if (!watch) {
+      res.status(404).json({
+        success: false,
+        error: 'Not on your watchlist',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Removed from your watchlist',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Remove from watchlist error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove from watchlist',
+      code: 'DELETE_ERROR',
+    });
+  }
+};
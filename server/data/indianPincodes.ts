@@ -0,0 +1,275 @@
+/**
+ * Indian Pincode Dataset
+ * Offline coordinates for geocoding addresses without an external service.
+ *
+ * Each entry is a city centre with the three-digit pincode prefixes (sorting
+ * districts) it anchors; a prefix resolves to that city's centre. Coordinates
+ * are [latitude, longitude], accurate to a few kilometres, which is all a
+ * radius search needs. Add exact six-digit pincodes to PINCODE_POINTS when
+ * finer placement matters for an area.
+ */
+
+export type PlaceEntry = [city: string, state: string, lat: number, lng: number, prefixes: string[]];
+
+export const PLACES: PlaceEntry[] = [
+  // Delhi, Haryana, Punjab, Chandigarh
+  ['Delhi', 'Delhi', 28.6139, 77.209, ['110']],
+  ['New Delhi', 'Delhi', 28.6139, 77.209, []],
+  ['Gurugram', 'Haryana', 28.4595, 77.0266, ['122']],
+  ['Faridabad', 'Haryana', 28.4089, 77.3178, ['121']],
+  ['Rohtak', 'Haryana', 28.8955, 76.6066, ['124']],
+  ['Hisar', 'Haryana', 29.1492, 75.7217, ['125']],
+  ['Panipat', 'Haryana', 29.3909, 76.9635, ['132']],
+  ['Ambala', 'Haryana', 30.3782, 76.7767, ['133']],
+  ['Chandigarh', 'Chandigarh', 30.7333, 76.7794, ['160']],
+  ['Ludhiana', 'Punjab', 30.901, 75.8573, ['141']],
+  ['Amritsar', 'Punjab', 31.634, 74.8723, ['143']],
+  ['Jalandhar', 'Punjab', 31.326, 75.5762, ['144']],
+  ['Patiala', 'Punjab', 30.3398, 76.3869, ['147']],
+  ['Bathinda', 'Punjab', 30.211, 74.9455, ['151']],
+
+  // Himalayan states and union territories
+  ['Shimla', 'Himachal Pradesh', 31.1048, 77.1734, ['171']],
+  ['Jammu', 'Jammu and Kashmir', 32.7266, 74.857, ['180']],
+  ['Srinagar', 'Jammu and Kashmir', 34.0837, 74.7973, ['190']],
+  ['Leh', 'Ladakh', 34.1526, 77.5771, ['194']],
+  ['Dehradun', 'Uttarakhand', 30.3165, 78.0322, ['248']],
+  ['Haridwar', 'Uttarakhand', 29.9457, 78.1642, ['249']],
+  ['Haldwani', 'Uttarakhand', 29.2183, 79.513, ['263']],
+
+  // Uttar Pradesh
+  ['Ghaziabad', 'Uttar Pradesh', 28.6692, 77.4538, ['201']],
+  ['Noida', 'Uttar Pradesh', 28.5355, 77.391, []],
+  ['Aligarh', 'Uttar Pradesh', 27.8974, 78.088, ['202']],
+  ['Lucknow', 'Uttar Pradesh', 26.8467, 80.9462, ['226']],
+  ['Kanpur', 'Uttar Pradesh', 26.4499, 80.3319, ['208']],
+  ['Prayagraj', 'Uttar Pradesh', 25.4358, 81.8463, ['211']],
+  ['Varanasi', 'Uttar Pradesh', 25.3176, 82.9739, ['221']],
+  ['Ayodhya', 'Uttar Pradesh', 26.7922, 82.1998, ['224']],
+  ['Bareilly', 'Uttar Pradesh', 28.367, 79.4304, ['243']],
+  ['Moradabad', 'Uttar Pradesh', 28.8386, 78.7733, ['244']],
+  ['Saharanpur', 'Uttar Pradesh', 29.968, 77.5552, ['247']],
+  ['Meerut', 'Uttar Pradesh', 28.9845, 77.7064, ['250']],
+  ['Muzaffarnagar', 'Uttar Pradesh', 29.4727, 77.7085, ['251']],
+  ['Gorakhpur', 'Uttar Pradesh', 26.7606, 83.3732, ['273']],
+  ['Mathura', 'Uttar Pradesh', 27.4924, 77.6737, ['281']],
+  ['Agra', 'Uttar Pradesh', 27.1767, 78.0081, ['282']],
+  ['Jhansi', 'Uttar Pradesh', 25.4484, 78.5685, ['284']],
+
+  // Rajasthan
+  ['Alwar', 'Rajasthan', 27.553, 76.6346, ['301']],
+  ['Jaipur', 'Rajasthan', 26.9124, 75.7873, ['302', '303']],
+  ['Ajmer', 'Rajasthan', 26.4499, 74.6399, ['305']],
+  ['Udaipur', 'Rajasthan', 24.5854, 73.7125, ['313']],
+  ['Kota', 'Rajasthan', 25.2138, 75.8648, ['324']],
+  ['Bikaner', 'Rajasthan', 28.0229, 73.3119, ['334']],
+  ['Jodhpur', 'Rajasthan', 26.2389, 73.0243, ['342']],
+
+  // Gujarat
+  ['Rajkot', 'Gujarat', 22.3039, 70.8022, ['360']],
+  ['Jamnagar', 'Gujarat', 22.4707, 70.0577, ['361']],
+  ['Junagadh', 'Gujarat', 21.5222, 70.4579, ['362']],
+  ['Bhavnagar', 'Gujarat', 21.7645, 72.1519, ['364']],
+  ['Bhuj', 'Gujarat', 23.242, 69.6669, ['370']],
+  ['Ahmedabad', 'Gujarat', 23.0225, 72.5714, ['380']],
+  ['Gandhinagar', 'Gujarat', 23.2156, 72.6369, ['382']],
+  ['Mehsana', 'Gujarat', 23.588, 72.3693, ['384']],
+  ['Anand', 'Gujarat', 22.5645, 72.9289, ['388']],
+  ['Vadodara', 'Gujarat', 22.3072, 73.1812, ['390', '391']],
+  ['Bharuch', 'Gujarat', 21.7051, 72.9959, ['392']],
+  ['Surat', 'Gujarat', 21.1702, 72.8311, ['394', '395']],
+  ['Navsari', 'Gujarat', 20.9467, 72.952, []],
+  ['Valsad', 'Gujarat', 20.5992, 72.9342, ['396']],
+  ['Silvassa', 'Dadra and Nagar Haveli and Daman and Diu', 20.2766, 73.0169, []],
+
+  // Maharashtra and Goa
+  ['Mumbai', 'Maharashtra', 19.076, 72.8777, ['400']],
+  ['Thane', 'Maharashtra', 19.2183, 72.9781, []],
+  ['Navi Mumbai', 'Maharashtra', 19.033, 73.0297, []],
+  ['Vasai-Virar', 'Maharashtra', 19.3919, 72.8397, ['401']],
+  ['Panaji', 'Goa', 15.4909, 73.8278, ['403']],
+  ['Margao', 'Goa', 15.2832, 73.9862, []],
+  ['Pune', 'Maharashtra', 18.5204, 73.8567, ['411', '412']],
+  ['Solapur', 'Maharashtra', 17.6599, 75.9064, ['413']],
+  ['Ahmednagar', 'Maharashtra', 19.0948, 74.748, ['414']],
+  ['Satara', 'Maharashtra', 17.6805, 74.0183, ['415']],
+  ['Kolhapur', 'Maharashtra', 16.705, 74.2433, ['416']],
+  ['Kalyan', 'Maharashtra', 19.2403, 73.1305, ['421']],
+  ['Nashik', 'Maharashtra', 19.9975, 73.7898, ['422']],
+  ['Jalgaon', 'Maharashtra', 21.0077, 75.5626, ['425']],
+  ['Chhatrapati Sambhajinagar', 'Maharashtra', 19.8762, 75.3433, ['431']],
+  ['Nagpur', 'Maharashtra', 21.1458, 79.0882, ['440', '441']],
+  ['Amravati', 'Maharashtra', 20.9374, 77.7796, ['444']],
+
+  // Madhya Pradesh and Chhattisgarh
+  ['Indore', 'Madhya Pradesh', 22.7196, 75.8577, ['452', '453']],
+  ['Ujjain', 'Madhya Pradesh', 23.1765, 75.7885, ['456']],
+  ['Bhopal', 'Madhya Pradesh', 23.2599, 77.4126, ['462']],
+  ['Sagar', 'Madhya Pradesh', 23.8388, 78.7378, ['470']],
+  ['Gwalior', 'Madhya Pradesh', 26.2183, 78.1828, ['474']],
+  ['Jabalpur', 'Madhya Pradesh', 23.1815, 79.9864, ['482']],
+  ['Satna', 'Madhya Pradesh', 24.6005, 80.8322, ['485']],
+  ['Rewa', 'Madhya Pradesh', 24.5362, 81.3037, ['486']],
+  ['Bhilai', 'Chhattisgarh', 21.1938, 81.3509, ['490']],
+  ['Durg', 'Chhattisgarh', 21.1904, 81.2849, ['491']],
+  ['Raipur', 'Chhattisgarh', 21.2514, 81.6296, ['492', '493']],
+  ['Bilaspur', 'Chhattisgarh', 22.0797, 82.1409, ['495']],
+
+  // Telangana and Andhra Pradesh
+  ['Hyderabad', 'Telangana', 17.385, 78.4867, ['500', '501']],
+  ['Secunderabad', 'Telangana', 17.4399, 78.4983, []],
+  ['Nizamabad', 'Telangana', 18.6725, 78.0941, ['503']],
+  ['Karimnagar', 'Telangana', 18.4386, 79.1288, ['505']],
+  ['Warangal', 'Telangana', 17.9689, 79.5941, ['506']],
+  ['Khammam', 'Telangana', 17.2473, 80.1514, ['507']],
+  ['Anantapur', 'Andhra Pradesh', 14.6819, 77.6006, ['515']],
+  ['Kadapa', 'Andhra Pradesh', 14.4673, 78.8242, ['516']],
+  ['Tirupati', 'Andhra Pradesh', 13.6288, 79.4192, ['517']],
+  ['Kurnool', 'Andhra Pradesh', 15.8281, 78.0373, ['518']],
+  ['Vijayawada', 'Andhra Pradesh', 16.5062, 80.648, ['520', '521']],
+  ['Guntur', 'Andhra Pradesh', 16.3067, 80.4365, ['522']],
+  ['Nellore', 'Andhra Pradesh', 14.4426, 79.9865, ['524']],
+  ['Visakhapatnam', 'Andhra Pradesh', 17.6868, 83.2185, ['530', '531']],
+  ['Kakinada', 'Andhra Pradesh', 16.9891, 82.2475, ['533']],
+  ['Rajahmundry', 'Andhra Pradesh', 17.0005, 81.804, []],
+
+  // Karnataka
+  ['Bengaluru', 'Karnataka', 12.9716, 77.5946, ['560', '562']],
+  ['Mysuru', 'Karnataka', 12.2958, 76.6394, ['570', '571']],
+  ['Tumakuru', 'Karnataka', 13.3379, 77.1173, ['572']],
+  ['Mangaluru', 'Karnataka', 12.9141, 74.856, ['574', '575']],
+  ['Udupi', 'Karnataka', 13.3409, 74.7421, ['576']],
+  ['Davanagere', 'Karnataka', 14.4644, 75.9218, ['577']],
+  ['Shivamogga', 'Karnataka', 13.9299, 75.5681, []],
+  ['Hubballi', 'Karnataka', 15.3647, 75.124, ['580']],
+  ['Dharwad', 'Karnataka', 15.4589, 75.0078, []],
+  ['Ballari', 'Karnataka', 15.1394, 76.9214, ['583']],
+  ['Kalaburagi', 'Karnataka', 17.3297, 76.8343, ['585']],
+  ['Vijayapura', 'Karnataka', 16.8302, 75.71, ['586']],
+  ['Belagavi', 'Karnataka', 15.8497, 74.4977, ['590', '591']],
+
+  // Tamil Nadu and Puducherry
+  ['Chennai', 'Tamil Nadu', 13.0827, 80.2707, ['600', '601', '602', '603']],
+  ['Puducherry', 'Puducherry', 11.9416, 79.8083, ['605']],
+  ['Thanjavur', 'Tamil Nadu', 10.787, 79.1378, ['613']],
+  ['Tiruchirappalli', 'Tamil Nadu', 10.7905, 78.7047, ['620', '621']],
+  ['Madurai', 'Tamil Nadu', 9.9252, 78.1198, ['625']],
+  ['Tirunelveli', 'Tamil Nadu', 8.7139, 77.7567, ['627']],
+  ['Thoothukudi', 'Tamil Nadu', 8.7642, 78.1348, ['628']],
+  ['Kanchipuram', 'Tamil Nadu', 12.8342, 79.7036, ['631']],
+  ['Vellore', 'Tamil Nadu', 12.9165, 79.1325, ['632']],
+  ['Salem', 'Tamil Nadu', 11.6643, 78.146, ['636']],
+  ['Erode', 'Tamil Nadu', 11.341, 77.7172, ['638']],
+  ['Coimbatore', 'Tamil Nadu', 11.0168, 76.9558, ['641']],
+  ['Tiruppur', 'Tamil Nadu', 11.1085, 77.3411, []],
+
+  // Kerala
+  ['Kannur', 'Kerala', 11.8745, 75.3704, ['670']],
+  ['Kozhikode', 'Kerala', 11.2588, 75.7804, ['673']],
+  ['Malappuram', 'Kerala', 11.051, 76.0711, ['676']],
+  ['Palakkad', 'Kerala', 10.7867, 76.6548, ['678']],
+  ['Thrissur', 'Kerala', 10.5276, 76.2144, ['680']],
+  ['Kochi', 'Kerala', 9.9312, 76.2673, ['682', '683']],
+  ['Kottayam', 'Kerala', 9.5916, 76.5222, ['686']],
+  ['Alappuzha', 'Kerala', 9.4981, 76.3388, ['688']],
+  ['Kollam', 'Kerala', 8.8932, 76.6141, ['691']],
+  ['Thiruvananthapuram', 'Kerala', 8.5241, 76.9366, ['695']],
+
+  // West Bengal, Sikkim, Andaman and Nicobar Islands
+  ['Kolkata', 'West Bengal', 22.5726, 88.3639, ['700']],
+  ['Howrah', 'West Bengal', 22.5958, 88.2636, ['711']],
+  ['Durgapur', 'West Bengal', 23.5204, 87.3119, ['713']],
+  ['Asansol', 'West Bengal', 23.6739, 86.9524, []],
+  ['Bardhaman', 'West Bengal', 23.2324, 87.8615, []],
+  ['Kharagpur', 'West Bengal', 22.346, 87.232, ['721']],
+  ['Siliguri', 'West Bengal', 26.7271, 88.3953, ['734']],
+  ['Gangtok', 'Sikkim', 27.3389, 88.6065, ['737']],
+  ['Port Blair', 'Andaman and Nicobar Islands', 11.6234, 92.7265, ['744']],
+
+  // Odisha
+  ['Bhubaneswar', 'Odisha', 20.2961, 85.8245, ['751']],
+  ['Puri', 'Odisha', 19.8135, 85.8312, ['752']],
+  ['Cuttack', 'Odisha', 20.4625, 85.883, ['753']],
+  ['Balasore', 'Odisha', 21.4942, 86.9317, ['756']],
+  ['Berhampur', 'Odisha', 19.315, 84.7941, ['760']],
+  ['Sambalpur', 'Odisha', 21.4669, 83.9812, ['768']],
+  ['Rourkela', 'Odisha', 22.2604, 84.8536, ['769']],
+
+  // North East
+  ['Guwahati', 'Assam', 26.1445, 91.7362, ['781']],
+  ['Jorhat', 'Assam', 26.7509, 94.2037, ['785']],
+  ['Dibrugarh', 'Assam', 27.4728, 94.912, ['786']],
+  ['Silchar', 'Assam', 24.8333, 92.7789, ['788']],
+  ['Itanagar', 'Arunachal Pradesh', 27.0844, 93.6053, ['791']],
+  ['Shillong', 'Meghalaya', 25.5788, 91.8933, ['793']],
+  ['Imphal', 'Manipur', 24.817, 93.9368, ['795']],
+  ['Aizawl', 'Mizoram', 23.7271, 92.7176, ['796']],
+  ['Kohima', 'Nagaland', 25.6751, 94.1086, ['797']],
+  ['Dimapur', 'Nagaland', 25.9091, 93.7266, []],
+  ['Agartala', 'Tripura', 23.8315, 91.2868, ['799']],
+
+  // Bihar and Jharkhand
+  ['Patna', 'Bihar', 25.5941, 85.1376, ['800', '801']],
+  ['Bhagalpur', 'Bihar', 25.2425, 86.9842, ['812']],
+  ['Gaya', 'Bihar', 24.7914, 85.0002, ['823']],
+  ['Muzaffarpur', 'Bihar', 26.1209, 85.3647, ['842']],
+  ['Darbhanga', 'Bihar', 26.1542, 85.8918, ['846']],
+  ['Purnia', 'Bihar', 25.7771, 87.4753, ['854']],
+  ['Hazaribagh', 'Jharkhand', 23.9925, 85.3637, ['825']],
+  ['Dhanbad', 'Jharkhand', 23.7957, 86.4304, ['826']],
+  ['Bokaro', 'Jharkhand', 23.6693, 86.1511, ['827']],
+  ['Jamshedpur', 'Jharkhand', 22.8046, 86.2029, ['831']],
+  ['Ranchi', 'Jharkhand', 23.3441, 85.3096, ['834']],
+];
+
+// Exact six-digit pincodes, [latitude, longitude]; checked before the prefixes
+export const PINCODE_POINTS: Record<string, [lat: number, lng: number]> = {
+  '201301': [28.5355, 77.391], // Noida
+  '400601': [19.2183, 72.9781], // Thane
+  '400703': [19.033, 73.0297], // Navi Mumbai (Vashi)
+  '500003': [17.4399, 78.4983], // Secunderabad
+};
+
+// Former and alternative city names
+export const CITY_ALIASES: Record<string, string> = {
+  bangalore: 'Bengaluru',
+  bombay: 'Mumbai',
+  calcutta: 'Kolkata',
+  madras: 'Chennai',
+  gurgaon: 'Gurugram',
+  poona: 'Pune',
+  mysore: 'Mysuru',
+  mangalore: 'Mangaluru',
+  hubli: 'Hubballi',
+  belgaum: 'Belagavi',
+  gulbarga: 'Kalaburagi',
+  bijapur: 'Vijayapura',
+  bellary: 'Ballari',
+  tumkur: 'Tumakuru',
+  shimoga: 'Shivamogga',
+  trivandrum: 'Thiruvananthapuram',
+  cochin: 'Kochi',
+  ernakulam: 'Kochi',
+  calicut: 'Kozhikode',
+  trichur: 'Thrissur',
+  quilon: 'Kollam',
+  alleppey: 'Alappuzha',
+  trichy: 'Tiruchirappalli',
+  tuticorin: 'Thoothukudi',
+  pondicherry: 'Puducherry',
+  vizag: 'Visakhapatnam',
+  rajamahendravaram: 'Rajahmundry',
+  allahabad: 'Prayagraj',
+  faizabad: 'Ayodhya',
+  baroda: 'Vadodara',
+  aurangabad: 'Chhatrapati Sambhajinagar',
+  panjim: 'Panaji',
+  madgaon: 'Margao',
+  cawnpore: 'Kanpur',
+  benares: 'Varanasi',
+  banaras: 'Varanasi',
+  cuttak: 'Cuttack',
+  brahmapur: 'Berhampur',
+  gauhati: 'Guwahati',
+  burdwan: 'Bardhaman',
+};
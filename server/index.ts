@@ -15,6 +15,10 @@ dotenv.config();
 // Import configurations
 import { ENV, connectDB, disconnectDB, configureApp } from './config/index.js';
 
+import { auditImpersonatedWrites } from './middleware/audit.js';
+import { startScheduler, stopScheduler } from './services/scheduler.js';
+import './services/scheduledJobs.js';
+
 // Import routes
 import authRoutes from './routes/auth.js';
 import vehicleRoutes from './routes/vehicles.js';
@@ -27,6 +31,11 @@ import subscriptionRoutes from './routes/subscriptions.js';
 import userRoutes from './routes/users.js';
 import adRoutes from './routes/ads.js';
 import personaAccessRoutes from './routes/personaAccessRoutes.js';
+import organizationRoutes from './routes/organizations.js';
+import conversationRoutes from './routes/conversations.js';
+import offerRoutes from './routes/offers.js';
+import savedSearchRoutes from './routes/savedSearches.js';
+import watchlistRoutes from './routes/watchlist.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -63,6 +72,10 @@ app.get('/health', (req: Request, res: Response) => {
 
 // API Routes (using API_PREFIX from config)
 const apiPrefix = ENV.API_PREFIX;
+
+// Record writes made while an admin is impersonating a user
+app.use(apiPrefix, auditImpersonatedWrites);
+
 app.use(`${apiPrefix}/auth`, authRoutes);
 app.use(`${apiPrefix}/vehicles`, vehicleRoutes);
 app.use(`${apiPrefix}/admin`, adminRoutes);
@@ -74,6 +87,11 @@ app.use(`${apiPrefix}/subscriptions`, subscriptionRoutes);
 app.use(`${apiPrefix}/users`, userRoutes);
 app.use(`${apiPrefix}/ads`, adRoutes);
 app.use(`${apiPrefix}/access`, personaAccessRoutes);
+app.use(`${apiPrefix}/organizations`, organizationRoutes);
+app.use(`${apiPrefix}/conversations`, conversationRoutes);
+app.use(`${apiPrefix}/offers`, offerRoutes);
+app.use(`${apiPrefix}/saved-searches`, savedSearchRoutes);
+app.use(`${apiPrefix}/watchlist`, watchlistRoutes);
 
 // 404 handler for undefined routes
 app.use((req: Request, res: Response) => {
@@ -124,10 +142,20 @@ const server = app.listen(5000, () => {
   console.log('╚════════════════════════════════════════╝');
 });
 
+// Background jobs: listing/subscription/ad expiry, billing resets, account purges.
+// The API keeps serving if the scheduler cannot start.
+try {
+  await startScheduler();
+} catch (error) {
+  console.error('Failed to start the scheduler:', error);
+}
+
 // Graceful shutdown
 const gracefulShutdown = async (signal: string) => {
   console.log(`\n⚠ ${signal} received. Starting graceful shutdown...`);
   
+  stopScheduler();
+
   server.close(async () => {
     console.log('✓ HTTP server closed');
     
@@ -0,0 +1,38 @@
+/**
+ * Audit Middleware
+ * Records every write made with an impersonated token, with both identities
+ */
+
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth.js';
+import { recordAudit } from '../services/auditLog.js';
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Registered app-wide before the routes: authentication runs later inside each
+// router, so the identities are read once the response has finished.
+export const auditImpersonatedWrites = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  if (READ_METHODS.includes(req.method)) {
+    next();
+    return;
+  }
+
+  res.on('finish', () => {
+    if (!req.impersonatorId || !req.userId) {
+      return;
+    }
+
+    void recordAudit(
+      {
+        action: 'impersonation.write',
+        actorId: req.impersonatorId,
+        subjectUserId: req.userId,
+        sessionId: req.sessionId,
+        statusCode: res.statusCode,
+      },
+      req
+    );
+  });
+
+  next();
+};
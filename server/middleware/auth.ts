@@ -2,18 +2,108 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import User, { IUser } from '../models/User.js';
 import { JWT_CONFIG } from '../config/jwt.js';
+import { findActiveSession } from '../services/sessionService.js';
+import { isTwoFactorRequired } from '../services/twoFactorService.js';
+import { hasPermission } from '../services/permissionService.js';
+import { findActiveApiKey, apiKeyAllowsRequest } from '../services/apiKeyService.js';
+import { apiKeyRateLimiter } from './rateLimit.js';
+import { ApiKeyScope, Permission } from '../config/permissions.js';
 
 export interface AuthRequest extends Request {
   user?: IUser;
   userId?: string;
+  sessionId?: string;
+  // The person actually making the request: the admin when impersonating, otherwise the user
+  actorId?: string;
+  // Set when an admin is signed in as this user
+  impersonatorId?: string;
+  // Set when the request was authenticated with an X-API-Key instead of a session
+  apiKeyId?: string;
+  apiKeyScopes?: ApiKeyScope[];
 }
 
-export const authenticate = async (
+interface AccessTokenPayload {
+  userId: string;
+  sid?: string;
+  iat: number;
+  iatMs?: number;
+}
+
+// Tokens from before iatMs existed only carry second-precision iat
+const issuedAtMs = (payload: AccessTokenPayload): number => payload.iatMs ?? payload.iat * 1000;
+
+export interface AuthenticateOptions {
+  // Reject accounts that have not confirmed their email address (admins are exempt)
+  requireVerifiedEmail?: boolean;
+  // Let accounts that must enroll in 2FA through (enrollment, profile, logout routes)
+  allowTwoFactorEnrollment?: boolean;
+}
+
+const isActiveAdmin = async (userId: string): Promise<boolean> => {
+  return !!(await User.exists({ _id: userId, role: 'admin', isActive: true }));
+};
+
+type ApiKeyFailure = { status: number; error: string; code: string };
+
+// Resolve the user behind an X-API-Key for this request, or why it was refused
+const resolveApiKeyUser = async (
+  rawKey: string,
+  req: AuthRequest,
+  options: AuthenticateOptions
+): Promise<{ user: IUser; apiKeyId: string; scopes: ApiKeyScope[] } | ApiKeyFailure> => {
+  const apiKey = await findActiveApiKey(rawKey, req.ip);
+  if (!apiKey) {
+    return { status: 401, error: 'Invalid or revoked API key', code: 'INVALID_API_KEY' };
+  }
+
+  if (!apiKeyAllowsRequest(apiKey.scopes, req.method, req.baseUrl)) {
+    return { status: 403, error: 'API key scope does not allow this request', code: 'API_KEY_SCOPE_DENIED' };
+  }
+
+  const user = await User.findById(apiKey.userId)
+    .select('-password')
+    .populate('subscription.planId');
+
+  if (!user || !user.isActive) {
+    return { status: 403, error: 'Account is deactivated', code: 'ACCOUNT_DEACTIVATED' };
+  }
+
+  if (options.requireVerifiedEmail && !user.isVerified && user.role !== 'admin') {
+    return { status: 403, error: 'Please verify your email address to continue', code: 'EMAIL_NOT_VERIFIED' };
+  }
+
+  return { user, apiKeyId: apiKey._id.toString(), scopes: apiKey.scopes };
+};
+
+export const createAuthenticate = (options: AuthenticateOptions = {}) => async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
+    // Integrations authenticate with an API key instead of a session
+    const apiKey = req.header('X-API-Key');
+    if (apiKey) {
+      const result = await resolveApiKeyUser(apiKey, req, options);
+      if ('code' in result) {
+        res.status(result.status).json({
+          success: false,
+          error: result.error,
+          code: result.code,
+        });
+        return;
+      }
+
+      req.user = result.user;
+      req.userId = result.user._id.toString();
+      req.actorId = req.userId;
+      req.apiKeyId = result.apiKeyId;
+      req.apiKeyScopes = result.scopes;
+      // API keys have their own per-key request budget
+      await apiKeyRateLimiter(req, res, next);
+      return;
+    }
+
     // Get token from header or cookie
     const token = req.header('Authorization')?.replace('Bearer ', '') || req.cookies?.token;
 
@@ -27,7 +117,28 @@ export const authenticate = async (
     }
 
     // Verify token
-    const decoded = jwt.verify(token, JWT_CONFIG.secret) as { userId: string };
+    const decoded = jwt.verify(token, JWT_CONFIG.secret) as AccessTokenPayload;
+
+    // The session behind the token must still be live (not signed out remotely)
+    const session = decoded.sid ? await findActiveSession(decoded.sid, decoded.userId) : null;
+    if (!session) {
+      res.status(401).json({
+        success: false,
+        error: 'Session has ended. Please log in again',
+        code: 'SESSION_REVOKED',
+      });
+      return;
+    }
+
+    // An impersonation ends as soon as the admin loses access
+    if (session.impersonatedBy && !(await isActiveAdmin(session.impersonatedBy.toString()))) {
+      res.status(401).json({
+        success: false,
+        error: 'Session has ended. Please log in again',
+        code: 'SESSION_REVOKED',
+      });
+      return;
+    }
 
     // Find user
     const user = await User.findById(decoded.userId)
@@ -52,9 +163,41 @@ export const authenticate = async (
       return;
     }
 
+    // Reject tokens issued before the last password change
+    if (user.changedPasswordAfter(issuedAtMs(decoded))) {
+      res.status(401).json({
+        success: false,
+        error: 'Password was changed. Please log in again',
+        code: 'TOKEN_INVALIDATED',
+      });
+      return;
+    }
+
+    // Policy: accounts that require 2FA can do nothing else until enrolled
+    if (!options.allowTwoFactorEnrollment && isTwoFactorRequired(user) && !user.twoFactor?.enabled) {
+      res.status(403).json({
+        success: false,
+        error: 'Two-factor authentication must be set up for this account',
+        code: 'TWO_FACTOR_ENROLLMENT_REQUIRED',
+      });
+      return;
+    }
+
+    if (options.requireVerifiedEmail && !user.isVerified && user.role !== 'admin') {
+      res.status(403).json({
+        success: false,
+        error: 'Please verify your email address to continue',
+        code: 'EMAIL_NOT_VERIFIED',
+      });
+      return;
+    }
+
     // Attach user to request
     req.user = user;
     req.userId = user._id.toString();
+    req.sessionId = decoded.sid;
+    req.impersonatorId = session.impersonatedBy?.toString();
+    req.actorId = req.impersonatorId || req.userId;
     next();
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
@@ -83,6 +226,14 @@ export const authenticate = async (
   }
 };
 
+export const authenticate = createAuthenticate();
+
+// Authenticated and email verified
+export const authenticateVerified = createAuthenticate({ requireVerifiedEmail: true });
+
+// Authenticated, even if the account still has to enroll in 2FA
+export const authenticateEnrolling = createAuthenticate({ allowTwoFactorEnrollment: true });
+
 export const authorize = (...roles: string[]) => {
   return (req: AuthRequest, res: Response, next: NextFunction): void => {
     if (!req.user) {
@@ -107,23 +258,71 @@ export const authorize = (...roles: string[]) => {
   };
 };
 
+// Require at least one of the given permissions (see config/permissions.ts)
+export const requirePermission = (...permissions: Permission[]) => {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        code: 'AUTH_REQUIRED',
+      });
+      return;
+    }
+
+    if (!permissions.some((permission) => hasPermission(req.user, permission))) {
+      res.status(403).json({
+        success: false,
+        error: 'Insufficient permissions',
+        code: 'FORBIDDEN',
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
 export const optionalAuth = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
+    const apiKey = req.header('X-API-Key');
+    if (apiKey) {
+      const result = await resolveApiKeyUser(apiKey, req, {});
+      if (!('code' in result)) {
+        req.user = result.user;
+        req.userId = result.user._id.toString();
+        req.actorId = req.userId;
+        req.apiKeyId = result.apiKeyId;
+        req.apiKeyScopes = result.scopes;
+        await apiKeyRateLimiter(req, res, next);
+        return;
+      }
+    }
+
     const token = req.header('Authorization')?.replace('Bearer ', '') || req.cookies?.token;
 
     if (token) {
-      const decoded = jwt.verify(token, JWT_CONFIG.secret) as { userId: string };
-      const user = await User.findById(decoded.userId)
-        .select('-password')
-        .populate('subscription.planId');
+      const decoded = jwt.verify(token, JWT_CONFIG.secret) as AccessTokenPayload;
+      const session = decoded.sid ? await findActiveSession(decoded.sid, decoded.userId) : null;
+      const user = session
+        ? await User.findById(decoded.userId)
+          .select('-password')
+          .populate('subscription.planId')
+        : null;
       
-      if (user && user.isActive) {
+      const impersonatorId = session?.impersonatedBy?.toString();
+      const impersonationValid = !impersonatorId || (await isActiveAdmin(impersonatorId));
+
+      if (user && user.isActive && !user.changedPasswordAfter(issuedAtMs(decoded)) && impersonationValid) {
         req.user = user;
         req.userId = user._id.toString();
+        req.sessionId = decoded.sid;
+        req.impersonatorId = impersonatorId;
+        req.actorId = impersonatorId || req.userId;
       }
     }
     
@@ -134,6 +333,21 @@ export const optionalAuth = async (
   }
 };
 
+// Refuse impersonated tokens (credentials, payments and other actions only the
+// account holder may take)
+export const forbidImpersonation = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  if (req.impersonatorId) {
+    res.status(403).json({
+      success: false,
+      error: 'This action is not available while impersonating a user',
+      code: 'IMPERSONATION_FORBIDDEN',
+    });
+    return;
+  }
+
+  next();
+};
+
 // Aliases for compatibility
 export const protect = authenticate;
 export const restrictTo = authorize;
@@ -14,8 +14,9 @@
 
 import { Response, NextFunction } from 'express';
 import { AuthRequest } from './auth.js';
-import User from '../models/User.js';
-import SubscriptionPlan from '../models/SubscriptionPlan.js';
+import User, { IUser } from '../models/User.js';
+import { Permission } from '../config/permissions.js';
+import { hasPermission, permissionsFor } from '../services/permissionService.js';
 
 export interface PersonaAccessResult {
   allowed: boolean;
@@ -26,12 +27,89 @@ export interface PersonaAccessResult {
   suggestedAction?: string;
 }
 
+interface PersonaAccessRule {
+  // Registry permission the account must hold (see config/permissions.ts)
+  permission: Permission;
+  // e.g. "create vehicle listings"
+  action: string;
+  deniedReason: string;
+  switchAction: string;
+  // Remaining quota for the plan; undefined means the feature is not metered
+  remaining?: (user: IUser, plan: any) => number;
+  // Plan feature gate checked before the quota
+  planGate?: (plan: any) => { allowed: boolean; reason: string; suggestedAction: string };
+  limitReason?: string;
+  upgradeAction?: string;
+  logLabel: string;
+}
+
+const PERSONA_ACCESS_RULES = {
+  vehicleListing: {
+    permission: 'vehicle:create',
+    action: 'create vehicle listings',
+    deniedReason: 'Only institutes can create vehicle listings',
+    switchAction: 'Switch to an institute account to list vehicles',
+    remaining: (user, plan) => {
+      const maxListings = plan?.features?.maxVehicleListings || user.subscription?.listingsLimit || 0;
+      return Math.max(0, maxListings - (user.subscription?.listingsUsed || 0));
+    },
+    limitReason: 'Vehicle listing limit reached',
+    upgradeAction: 'Upgrade your plan to create more vehicle listings',
+    logLabel: 'vehicle listing',
+  },
+  jobPost: {
+    permission: 'job:create',
+    action: 'post jobs',
+    deniedReason: 'Only institutes can create job posts',
+    switchAction: 'Switch to an institute account to post jobs',
+    remaining: (user, plan) => {
+      const maxJobPosts = plan?.features?.maxJobPosts || user.subscription?.jobPostsLimit || 0;
+      return Math.max(0, maxJobPosts - (user.subscription?.jobPostsUsed || 0));
+    },
+    limitReason: 'Job post limit reached',
+    upgradeAction: 'Upgrade your plan to post more jobs',
+    logLabel: 'job post',
+  },
+  jobApplication: {
+    permission: 'job:apply',
+    action: 'apply for jobs',
+    deniedReason: 'Only teachers can apply to jobs',
+    switchAction: 'Switch to a teacher account to apply for jobs',
+    planGate: (plan) => ({
+      allowed: plan?.features?.canAccessJobBoard !== false,
+      reason: 'Your plan does not include job board access',
+      suggestedAction: 'Upgrade your plan to access the job board',
+    }),
+    // Application count is not tracked on the user yet, so report the plan allowance
+    remaining: (_user, plan) => plan?.features?.maxJobApplications || 5,
+    logLabel: 'job application',
+  },
+  productListing: {
+    permission: 'product:create',
+    action: 'create product listings',
+    deniedReason: 'Only vendors can create product listings',
+    switchAction: 'Switch to a vendor account to list products',
+    remaining: (user, plan) => {
+      const maxListings = plan?.features?.maxProductListings || user.subscription?.listingsLimit || 0;
+      return Math.max(0, maxListings - (user.subscription?.listingsUsed || 0));
+    },
+    limitReason: 'Product listing limit reached',
+    upgradeAction: 'Upgrade your plan to create more product listings',
+    logLabel: 'product listing',
+  },
+} satisfies Record<string, PersonaAccessRule>;
+
+type PersonaFeature = keyof typeof PERSONA_ACCESS_RULES;
+
 /**
- * Check if user can create a vehicle listing (Institute only)
+ * Check if user can use a persona feature: permission, active subscription, then plan limits
  */
-export async function checkVehicleListingAccess(
-  userId: string
+export async function checkPersonaAccess(
+  userId: string,
+  feature: PersonaFeature
 ): Promise<PersonaAccessResult> {
+  const rule: PersonaAccessRule = PERSONA_ACCESS_RULES[feature];
+
   try {
     const user = await User.findById(userId).populate('subscription.planId');
     
@@ -42,12 +120,11 @@ export async function checkVehicleListingAccess(
       };
     }
 
-    // Only institutes can create vehicle listings
-    if (user.role !== 'institute') {
+    if (!hasPermission(user, rule.permission)) {
       return {
         allowed: false,
-        reason: 'Only institutes can create vehicle listings',
-        suggestedAction: 'Switch to an institute account to list vehicles',
+        reason: rule.deniedReason,
+        suggestedAction: rule.switchAction,
       };
     }
 
@@ -57,87 +134,32 @@ export async function checkVehicleListingAccess(
         allowed: false,
         reason: 'No active subscription',
         requiresUpgrade: true,
-        suggestedAction: 'Subscribe to a plan to create vehicle listings',
+        suggestedAction: `Subscribe to a plan to ${rule.action}`,
       };
     }
 
     const plan = user.subscription.planId as any;
-    const maxListings = plan?.features?.maxVehicleListings || user.subscription.listingsLimit || 0;
-    const usedListings = user.subscription.listingsUsed || 0;
-    const remaining = Math.max(0, maxListings - usedListings);
 
-    if (remaining <= 0) {
+    const gate = rule.planGate?.(plan);
+    if (gate && !gate.allowed) {
       return {
         allowed: false,
-        reason: 'Vehicle listing limit reached',
-        limitReached: true,
-        remaining: 0,
+        reason: gate.reason,
         requiresUpgrade: true,
-        suggestedAction: 'Upgrade your plan to create more vehicle listings',
+        suggestedAction: gate.suggestedAction,
       };
     }
 
-    return {
-      allowed: true,
-      remaining,
-    };
-  } catch (error) {
-    console.error('[PersonaAccessControl] Error checking vehicle listing access:', error);
-    return {
-      allowed: false,
-      reason: 'Error checking access permissions',
-    };
-  }
-}
+    const remaining = rule.remaining?.(user, plan);
 
-/**
- * Check if user can create a job post (Institute only)
- */
-export async function checkJobPostAccess(
-  userId: string
-): Promise<PersonaAccessResult> {
-  try {
-    const user = await User.findById(userId).populate('subscription.planId');
-    
-    if (!user) {
-      return {
-        allowed: false,
-        reason: 'User not found',
-      };
-    }
-
-    // Only institutes can create job posts
-    if (user.role !== 'institute') {
-      return {
-        allowed: false,
-        reason: 'Only institutes can create job posts',
-        suggestedAction: 'Switch to an institute account to post jobs',
-      };
-    }
-
-    // Check if user has active subscription
-    if (!user.subscription || user.subscription.status !== 'active') {
+    if (remaining !== undefined && remaining <= 0 && rule.limitReason) {
       return {
         allowed: false,
-        reason: 'No active subscription',
-        requiresUpgrade: true,
-        suggestedAction: 'Subscribe to a plan to post jobs',
-      };
-    }
-
-    const plan = user.subscription.planId as any;
-    const maxJobPosts = plan?.features?.maxJobPosts || user.subscription.jobPostsLimit || 0;
-    const usedJobPosts = user.subscription.jobPostsUsed || 0;
-    const remaining = Math.max(0, maxJobPosts - usedJobPosts);
-
-    if (remaining <= 0) {
-      return {
-        allowed: false,
-        reason: 'Job post limit reached',
+        reason: rule.limitReason,
         limitReached: true,
         remaining: 0,
         requiresUpgrade: true,
-        suggestedAction: 'Upgrade your plan to post more jobs',
+        suggestedAction: rule.upgradeAction,
       };
     }
 
@@ -146,7 +168,7 @@ export async function checkJobPostAccess(
       remaining,
     };
   } catch (error) {
-    console.error('[PersonaAccessControl] Error checking job post access:', error);
+    console.error(`[PersonaAccessControl] Error checking ${rule.logLabel} access:`, error);
     return {
       allowed: false,
       reason: 'Error checking access permissions',
@@ -155,252 +177,72 @@ export async function checkJobPostAccess(
 }
 
 /**
- * Check if user can apply to a job (Teacher only)
+ * Check if user can create a vehicle listing (Institute only)
  */
-export async function checkJobApplicationAccess(
-  userId: string
-): Promise<PersonaAccessResult> {
-  try {
-    const user = await User.findById(userId).populate('subscription.planId');
-    
-    if (!user) {
-      return {
-        allowed: false,
-        reason: 'User not found',
-      };
-    }
-
-    // Only teachers can apply to jobs
-    if (user.role !== 'teacher') {
-      return {
-        allowed: false,
-        reason: 'Only teachers can apply to jobs',
-        suggestedAction: 'Switch to a teacher account to apply for jobs',
-      };
-    }
-
-    // Check if user has active subscription
-    if (!user.subscription || user.subscription.status !== 'active') {
-      return {
-        allowed: false,
-        reason: 'No active subscription',
-        requiresUpgrade: true,
-        suggestedAction: 'Subscribe to a plan to apply for jobs',
-      };
-    }
+export const checkVehicleListingAccess = (userId: string) => checkPersonaAccess(userId, 'vehicleListing');
 
-    const plan = user.subscription.planId as any;
-    const maxApplications = plan?.features?.maxJobApplications || 5; // Default 5
-    
-    // Note: We would need to track application count in the user model
-    // For now, we'll assume they can apply if they have an active subscription
-    const canAccessJobBoard = plan?.features?.canAccessJobBoard !== false;
-    
-    if (!canAccessJobBoard) {
-      return {
-        allowed: false,
-        reason: 'Your plan does not include job board access',
-        requiresUpgrade: true,
-        suggestedAction: 'Upgrade your plan to access the job board',
-      };
-    }
+/**
+ * Check if user can create a job post (Institute only)
+ */
+export const checkJobPostAccess = (userId: string) => checkPersonaAccess(userId, 'jobPost');
 
-    return {
-      allowed: true,
-      remaining: maxApplications, // Would need to calculate actual remaining
-    };
-  } catch (error) {
-    console.error('[PersonaAccessControl] Error checking job application access:', error);
-    return {
-      allowed: false,
-      reason: 'Error checking access permissions',
-    };
-  }
-}
+/**
+ * Check if user can apply to a job (Teacher only)
+ */
+export const checkJobApplicationAccess = (userId: string) => checkPersonaAccess(userId, 'jobApplication');
 
 /**
  * Check if user can create a product listing (Vendor only)
  */
-export async function checkProductListingAccess(
-  userId: string
-): Promise<PersonaAccessResult> {
-  try {
-    const user = await User.findById(userId).populate('subscription.planId');
-    
-    if (!user) {
-      return {
-        allowed: false,
-        reason: 'User not found',
-      };
-    }
-
-    // Only vendors can create product listings
-    if (user.role !== 'vendor') {
-      return {
-        allowed: false,
-        reason: 'Only vendors can create product listings',
-        suggestedAction: 'Switch to a vendor account to list products',
-      };
-    }
+export const checkProductListingAccess = (userId: string) => checkPersonaAccess(userId, 'productListing');
 
-    // Check if user has active subscription
-    if (!user.subscription || user.subscription.status !== 'active') {
-      return {
-        allowed: false,
-        reason: 'No active subscription',
-        requiresUpgrade: true,
-        suggestedAction: 'Subscribe to a plan to create product listings',
-      };
+/**
+ * Middleware factory: require a persona feature, attaching the access result to the request
+ */
+export function requirePersonaAccess(feature: PersonaFeature) {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const userId = req.userId;
+    
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
     }
 
-    const plan = user.subscription.planId as any;
-    const maxListings = plan?.features?.maxProductListings || user.subscription.listingsLimit || 0;
-    const usedListings = user.subscription.listingsUsed || 0;
-    const remaining = Math.max(0, maxListings - usedListings);
-
-    if (remaining <= 0) {
-      return {
-        allowed: false,
-        reason: 'Product listing limit reached',
-        limitReached: true,
-        remaining: 0,
-        requiresUpgrade: true,
-        suggestedAction: 'Upgrade your plan to create more product listings',
-      };
+    const accessResult = await checkPersonaAccess(userId, feature);
+    
+    if (!accessResult.allowed) {
+      return res.status(403).json({
+        error: accessResult.reason,
+        limitReached: accessResult.limitReached,
+        requiresUpgrade: accessResult.requiresUpgrade,
+        suggestedAction: accessResult.suggestedAction,
+      });
     }
 
-    return {
-      allowed: true,
-      remaining,
-    };
-  } catch (error) {
-    console.error('[PersonaAccessControl] Error checking product listing access:', error);
-    return {
-      allowed: false,
-      reason: 'Error checking access permissions',
-    };
-  }
+    // Attach access info to request
+    (req as any).accessInfo = accessResult;
+    next();
+  };
 }
 
 /**
  * Middleware: Require vehicle listing permission (Institute only)
  */
-export async function requireVehicleListingAccess(
-  req: AuthRequest,
-  res: Response,
-  next: NextFunction
-) {
-  const userId = req.userId;
-  
-  if (!userId) {
-    return res.status(401).json({ error: 'Authentication required' });
-  }
-
-  const accessResult = await checkVehicleListingAccess(userId);
-  
-  if (!accessResult.allowed) {
-    return res.status(403).json({
-      error: accessResult.reason,
-      limitReached: accessResult.limitReached,
-      requiresUpgrade: accessResult.requiresUpgrade,
-      suggestedAction: accessResult.suggestedAction,
-    });
-  }
-
-  // Attach access info to request
-  (req as any).accessInfo = accessResult;
-  next();
-}
+export const requireVehicleListingAccess = requirePersonaAccess('vehicleListing');
 
 /**
  * Middleware: Require job post permission (Institute only)
  */
-export async function requireJobPostAccess(
-  req: AuthRequest,
-  res: Response,
-  next: NextFunction
-) {
-  const userId = req.userId;
-  
-  if (!userId) {
-    return res.status(401).json({ error: 'Authentication required' });
-  }
-
-  const accessResult = await checkJobPostAccess(userId);
-  
-  if (!accessResult.allowed) {
-    return res.status(403).json({
-      error: accessResult.reason,
-      limitReached: accessResult.limitReached,
-      requiresUpgrade: accessResult.requiresUpgrade,
-      suggestedAction: accessResult.suggestedAction,
-    });
-  }
-
-  // Attach access info to request
-  (req as any).accessInfo = accessResult;
-  next();
-}
+export const requireJobPostAccess = requirePersonaAccess('jobPost');
 
 /**
  * Middleware: Require job application permission (Teacher only)
  */
-export async function requireJobApplicationAccess(
-  req: AuthRequest,
-  res: Response,
-  next: NextFunction
-) {
-  const userId = req.userId;
-  
-  if (!userId) {
-    return res.status(401).json({ error: 'Authentication required' });
-  }
-
-  const accessResult = await checkJobApplicationAccess(userId);
-  
-  if (!accessResult.allowed) {
-    return res.status(403).json({
-      error: accessResult.reason,
-      limitReached: accessResult.limitReached,
-      requiresUpgrade: accessResult.requiresUpgrade,
-      suggestedAction: accessResult.suggestedAction,
-    });
-  }
-
-  // Attach access info to request
-  (req as any).accessInfo = accessResult;
-  next();
-}
+export const requireJobApplicationAccess = requirePersonaAccess('jobApplication');
 
 /**
  * Middleware: Require product listing permission (Vendor only)
  */
-export async function requireProductListingAccess(
-  req: AuthRequest,
-  res: Response,
-  next: NextFunction
-) {
-  const userId = req.userId;
-  
-  if (!userId) {
-    return res.status(401).json({ error: 'Authentication required' });
-  }
-
-  const accessResult = await checkProductListingAccess(userId);
-  
-  if (!accessResult.allowed) {
-    return res.status(403).json({
-      error: accessResult.reason,
-      limitReached: accessResult.limitReached,
-      requiresUpgrade: accessResult.requiresUpgrade,
-      suggestedAction: accessResult.suggestedAction,
-    });
-  }
-
-  // Attach access info to request
-  (req as any).accessInfo = accessResult;
-  next();
-}
+export const requireProductListingAccess = requirePersonaAccess('productListing');
 
 /**
  * Get comprehensive access control for a user
@@ -419,6 +261,7 @@ export async function getPersonaAccessControl(userId: string) {
     // Base response
     const accessControl: any = {
       persona,
+      permissions: permissionsFor(user),
       subscription: user.subscription ? {
         status: user.subscription.status,
         planName: plan?.displayName || 'Unknown',
@@ -0,0 +1,81 @@
+/**
+ * Rate Limiting Middleware
+ * Sliding-window request throttling backed by the RateLimitStore
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ENV } from '../config/environment.js';
+import { getRateLimitStore } from '../services/rateLimitStore.js';
+import { AuthRequest } from './auth.js';
+
+export interface RateLimitOptions {
+  // Key namespace, e.g. "ip:auth"
+  name: string;
+  windowMs: number;
+  max: number;
+  // Identify the client (defaults to IP address)
+  keyFor?: (req: Request) => string;
+  skip?: (req: Request) => boolean;
+}
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Standard 429 response with Retry-After
+export const sendTooManyAttempts = (res: Response, retryAt: Date, message?: string): void => {
+  const retryAfter = Math.max(1, Math.ceil((retryAt.getTime() - Date.now()) / 1000));
+  res.setHeader('Retry-After', String(retryAfter));
+  res.status(429).json({
+    success: false,
+    error: message || `Too many attempts. Try again in ${retryAfter} seconds`,
+    code: 'TOO_MANY_ATTEMPTS',
+    retryAfter,
+  });
+};
+
+export const createRateLimiter = (options: RateLimitOptions) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (options.skip?.(req)) {
+      next();
+      return;
+    }
+
+    try {
+      const client = options.keyFor ? options.keyFor(req) : req.ip || 'unknown';
+      const { count, resetAt } = await getRateLimitStore().hit(
+        `${options.name}:${client}`,
+        options.windowMs,
+        options.max
+      );
+
+      res.setHeader('X-RateLimit-Limit', String(options.max));
+      res.setHeader('X-RateLimit-Remaining', String(Math.max(0, options.max - count)));
+
+      if (count > options.max) {
+        sendTooManyAttempts(res, resetAt);
+        return;
+      }
+
+      next();
+    } catch (error) {
+      // Fail open: a store outage should not take authentication down
+      console.error('Rate limiter error:', error);
+      next();
+    }
+  };
+};
+
+// Per-IP throttle for state-changing /api/auth requests (login, signup, resets...)
+export const authRateLimiter = createRateLimiter({
+  name: 'ip:auth',
+  windowMs: ENV.AUTH_RATE_LIMIT_WINDOW_MINUTES * 60 * 1000,
+  max: ENV.AUTH_RATE_LIMIT_MAX,
+  skip: (req) => SAFE_METHODS.includes(req.method),
+});
+
+// Per-key throttle for requests authenticated with an X-API-Key (applied by authenticate)
+export const apiKeyRateLimiter = createRateLimiter({
+  name: 'apikey',
+  windowMs: ENV.API_KEY_RATE_LIMIT_WINDOW_MINUTES * 60 * 1000,
+  max: ENV.API_KEY_RATE_LIMIT_MAX,
+  keyFor: (req) => (req as AuthRequest).apiKeyId || req.ip || 'unknown',
+});
@@ -4,7 +4,7 @@
  */
 
 import multer from 'multer';
-import { storage, imageFileFilter, multerConfig } from '../config/multer.js';
+import { storage, imageFileFilter, documentFileFilter, multerConfig } from '../config/multer.js';
 
 // Multer upload instance for images
 export const upload = multer({
@@ -25,6 +25,12 @@ export const uploadFields = upload.fields([
   { name: 'documents', maxCount: 5 },
 ]);
 
+// Single document file (PDF or image), e.g. vehicle papers for verification
+export const uploadDocument = multer({
+  ...multerConfig,
+  fileFilter: documentFileFilter,
+}).single('document');
+
 // Export for custom use cases
 export { upload as multerUpload };
 export default upload;
@@ -0,0 +1,86 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { API_KEY_SCOPES, ApiKeyScope } from '../config/permissions.js';
+
+// A long-lived credential for server-to-server integrations (school ERPs).
+// Only the hash of the key is stored; the key acts as the user who created it,
+// narrowed to its scopes.
+export interface IApiKey extends Document {
+  userId: mongoose.Types.ObjectId;
+  // Set when the creator belongs to an organization, so its managers can see and revoke the key
+  organizationId?: mongoose.Types.ObjectId;
+  name: string;
+  // First characters of the key, shown so users can tell their keys apart
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  revokedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const apiKeySchema = new Schema<IApiKey>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+    },
+    name: {
+      type: String,
+      required: [true, 'Key name is required'],
+      trim: true,
+      maxlength: [100, 'Key name cannot exceed 100 characters'],
+    },
+    prefix: {
+      type: String,
+      required: true,
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    scopes: {
+      type: [String],
+      enum: API_KEY_SCOPES,
+      validate: {
+        validator: (scopes: string[]) => scopes.length > 0,
+        message: 'At least one scope is required',
+      },
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+    lastUsedIp: {
+      type: String,
+    },
+    expiresAt: {
+      type: Date,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+apiKeySchema.index({ keyHash: 1 }, { unique: true });
+apiKeySchema.index({ userId: 1, revokedAt: 1 });
+apiKeySchema.index({ organizationId: 1, revokedAt: 1 });
+
+export default mongoose.model<IApiKey>('ApiKey', apiKeySchema);
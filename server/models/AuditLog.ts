@@ -0,0 +1,67 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Append-only record of sensitive actions. For impersonation the actor is
+// the admin and the subject is the user being impersonated.
+export interface IAuditLog extends Document {
+  action: string;
+  actorId: mongoose.Types.ObjectId;
+  subjectUserId?: mongoose.Types.ObjectId;
+  sessionId?: mongoose.Types.ObjectId;
+  method?: string;
+  path?: string;
+  statusCode?: number;
+  ipAddress?: string;
+  userAgent?: string;
+  metadata?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+const auditLogSchema = new Schema<IAuditLog>(
+  {
+    action: {
+      type: String,
+      required: true,
+    },
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    subjectUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    sessionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Session',
+    },
+    method: {
+      type: String,
+    },
+    path: {
+      type: String,
+    },
+    statusCode: {
+      type: Number,
+    },
+    ipAddress: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Indexes
+auditLogSchema.index({ actorId: 1, createdAt: -1 });
+auditLogSchema.index({ subjectUserId: 1, createdAt: -1 });
+auditLogSchema.index({ action: 1, createdAt: -1 });
+
+export default mongoose.model<IAuditLog>('AuditLog', auditLogSchema);
@@ -0,0 +1,83 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type ConversationSubjectType = 'vehicle' | 'supplier';
+
+export type ConversationSide = 'buyer' | 'seller';
+
+// One thread per buyer per listing. The seller is the account that owns the
+// listing (the institute owner for organization vehicles); staff who manage
+// vehicles reply on its behalf.
+export interface IConversation extends Document {
+  subjectType: ConversationSubjectType;
+  subjectId: mongoose.Types.ObjectId;
+  // Listing title when the conversation started, so the inbox survives edits and withdrawals
+  subjectTitle: string;
+  buyerId: mongoose.Types.ObjectId;
+  sellerId: mongoose.Types.ObjectId;
+  lastMessageAt?: Date;
+  lastMessagePreview?: string;
+  buyerUnreadCount: number;
+  sellerUnreadCount: number;
+  // Set when the seller shares their contact details with this buyer
+  contactRevealedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const conversationSchema = new Schema<IConversation>(
+  {
+    subjectType: {
+      type: String,
+      enum: ['vehicle', 'supplier'],
+      required: true,
+    },
+    subjectId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    subjectTitle: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    buyerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    sellerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    lastMessageAt: {
+      type: Date,
+    },
+    lastMessagePreview: {
+      type: String,
+    },
+    buyerUnreadCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    sellerUnreadCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    contactRevealedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+conversationSchema.index({ subjectType: 1, subjectId: 1, buyerId: 1 }, { unique: true });
+conversationSchema.index({ buyerId: 1, lastMessageAt: -1 });
+conversationSchema.index({ sellerId: 1, lastMessageAt: -1 });
+
+export default mongoose.model<IConversation>('Conversation', conversationSchema);
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { IGeoPoint, geoPointDefinition, geocodeOnWrite } from './geo.js';
 
 export interface IJob extends Document {
   title: string;
@@ -8,6 +9,8 @@ export interface IJob extends Document {
     state: string;
     country: string;
   };
+  // Geocoded from location (see models/geo.ts)
+  geo?: IGeoPoint;
   subjects: string[];
   experience: {
     min: number;
@@ -29,9 +32,14 @@ export interface IJob extends Document {
   instituteId: mongoose.Types.ObjectId;
   applicationDeadline?: Date;
   status: 'active' | 'closed' | 'expired';
+  deadlineReminderSentAt?: Date;
+  expiredAt?: Date;
+  renewedAt?: Date;
+  renewalCount: number;
   applicationsCount: number;
   createdAt: Date;
   updatedAt: Date;
+  refreshGeo(): boolean;
 }
 
 const jobSchema = new Schema<IJob>(
@@ -60,6 +68,7 @@ const jobSchema = new Schema<IJob>(
         default: 'India',
       },
     },
+    geo: geoPointDefinition,
     subjects: {
       type: [String],
       required: [true, 'At least one subject is required'],
@@ -143,16 +152,27 @@ const jobSchema = new Schema<IJob>(
       type: Number,
       default: 0,
     },
+    deadlineReminderSentAt: Date,
+    expiredAt: Date,
+    renewedAt: Date,
+    renewalCount: {
+      type: Number,
+      default: 0,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+geocodeOnWrite(jobSchema, { city: 'location.city', state: 'location.state' });
+
 // Indexes
 jobSchema.index({ instituteId: 1, status: 1 });
 jobSchema.index({ status: 1, createdAt: -1 });
+jobSchema.index({ status: 1, applicationDeadline: 1 });
 jobSchema.index({ 'location.city': 1, 'location.state': 1 });
 jobSchema.index({ subjects: 1 });
+jobSchema.index({ geo: '2dsphere' });
 
 export default mongoose.model<IJob>('Job', jobSchema);
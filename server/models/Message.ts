@@ -0,0 +1,81 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ConversationSide } from './Conversation.js';
+
+// Reference to a file already uploaded through /api/upload
+export interface IMessageAttachment {
+  url: string;
+  name: string;
+  mimeType?: string;
+  size?: number;
+}
+
+export interface IMessage extends Document {
+  conversationId: mongoose.Types.ObjectId;
+  senderId: mongoose.Types.ObjectId;
+  senderSide: ConversationSide;
+  body: string;
+  attachments: IMessageAttachment[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const messageAttachmentSchema = new Schema<IMessageAttachment>(
+  {
+    url: {
+      type: String,
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    mimeType: {
+      type: String,
+    },
+    size: {
+      type: Number,
+      min: 0,
+    },
+  },
+  { _id: false }
+);
+
+const messageSchema = new Schema<IMessage>(
+  {
+    conversationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Conversation',
+      required: true,
+    },
+    senderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    senderSide: {
+      type: String,
+      enum: ['buyer', 'seller'],
+      required: true,
+    },
+    body: {
+      type: String,
+      trim: true,
+      maxlength: [2000, 'Message cannot exceed 2000 characters'],
+      default: '',
+    },
+    attachments: {
+      type: [messageAttachmentSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+messageSchema.index({ conversationId: 1, createdAt: -1 });
+messageSchema.index({ senderId: 1 });
+
+export default mongoose.model<IMessage>('Message', messageSchema);
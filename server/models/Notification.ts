@@ -7,6 +7,9 @@ export interface INotification extends Document {
     | 'rejection' 
     | 'priority' 
     | 'message' 
+    | 'offer'
+    | 'vehicle_alert'
+    | 'watchlist'
     | 'system'
     | 'listing_approved'
     | 'listing_rejected'
@@ -45,6 +48,9 @@ const notificationSchema = new Schema<INotification>(
         'rejection', 
         'priority', 
         'message', 
+        'offer',
+        'vehicle_alert',
+        'watchlist',
         'system',
         'listing_approved',
         'listing_rejected',
@@ -0,0 +1,112 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// pending: waiting for the seller; countered: waiting for the buyer;
+// closed: another offer on the vehicle was accepted
+export type OfferStatus = 'pending' | 'countered' | 'accepted' | 'rejected' | 'withdrawn' | 'expired' | 'closed';
+
+export type OfferAction = 'offered' | 'countered' | 'accepted' | 'rejected' | 'withdrawn' | 'expired' | 'closed' | 'completed';
+
+export interface IOfferEvent {
+  action: OfferAction;
+  amount?: number;
+  message?: string;
+  by?: mongoose.Types.ObjectId;
+  at: Date;
+}
+
+// A buyer's negotiation with the seller of one vehicle. `amount` is the
+// figure currently on the table; every step is kept in `history`.
+export interface IOffer extends Document {
+  vehicleId: mongoose.Types.ObjectId;
+  vehicleTitle: string;
+  buyerId: mongoose.Types.ObjectId;
+  buyerName: string;
+  sellerId: mongoose.Types.ObjectId;
+  amount: number;
+  // Listing price when the offer was made
+  listPrice: number;
+  status: OfferStatus;
+  // Deadline for the current proposal to be answered
+  expiresAt?: Date;
+  acceptedAt?: Date;
+  // Set when the seller marks the sale as completed
+  completedAt?: Date;
+  history: IOfferEvent[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const offerSchema = new Schema<IOffer>(
+  {
+    vehicleId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Vehicle',
+      required: true,
+    },
+    vehicleTitle: {
+      type: String,
+      required: true,
+    },
+    buyerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    buyerName: {
+      type: String,
+      required: true,
+    },
+    sellerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Offer amount is required'],
+      min: [1, 'Offer amount must be positive'],
+    },
+    listPrice: {
+      type: Number,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'countered', 'accepted', 'rejected', 'withdrawn', 'expired', 'closed'],
+      default: 'pending',
+    },
+    expiresAt: Date,
+    acceptedAt: Date,
+    completedAt: Date,
+    history: [{
+      action: {
+        type: String,
+        enum: ['offered', 'countered', 'accepted', 'rejected', 'withdrawn', 'expired', 'closed', 'completed'],
+        required: true,
+      },
+      amount: Number,
+      message: {
+        type: String,
+        maxlength: 1000,
+      },
+      by: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+      },
+      at: {
+        type: Date,
+        default: Date.now,
+      },
+    }],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+offerSchema.index({ vehicleId: 1, status: 1 });
+offerSchema.index({ buyerId: 1, updatedAt: -1 });
+offerSchema.index({ sellerId: 1, updatedAt: -1 });
+
+export default mongoose.model<IOffer>('Offer', offerSchema);
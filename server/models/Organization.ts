@@ -0,0 +1,74 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type OrganizationRole = 'owner' | 'principal' | 'hr' | 'transport_manager';
+
+export interface IOrganizationMember {
+  userId: mongoose.Types.ObjectId;
+  role: OrganizationRole;
+  invitedBy?: mongoose.Types.ObjectId;
+  joinedAt: Date;
+}
+
+// An institute with several staff logins. Listings, jobs and applications
+// stay attached to the owner's account (ownerId) and the owner's
+// subscription limits are shared by every member.
+export interface IOrganization extends Document {
+  name: string;
+  ownerId: mongoose.Types.ObjectId;
+  members: IOrganizationMember[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const organizationMemberSchema = new Schema<IOrganizationMember>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: ['owner', 'principal', 'hr', 'transport_manager'],
+      required: true,
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    joinedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const organizationSchema = new Schema<IOrganization>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Organization name is required'],
+      trim: true,
+    },
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    members: {
+      type: [organizationMemberSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+organizationSchema.index({ ownerId: 1 }, { unique: true });
+// A user belongs to at most one organization
+organizationSchema.index({ 'members.userId': 1 }, { unique: true, sparse: true });
+
+export default mongoose.model<IOrganization>('Organization', organizationSchema);
@@ -0,0 +1,71 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { OrganizationRole } from './Organization.js';
+
+export interface IOrganizationInvitation extends Document {
+  organizationId: mongoose.Types.ObjectId;
+  email: string;
+  role: Exclude<OrganizationRole, 'owner'>;
+  tokenHash: string;
+  invitedBy: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  acceptedBy?: mongoose.Types.ObjectId;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const organizationInvitationSchema = new Schema<IOrganizationInvitation>(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: true,
+    },
+    email: {
+      type: String,
+      required: [true, 'Email is required'],
+      lowercase: true,
+      trim: true,
+      match: [/^\S+@\S+\.\S+$/, 'Please provide a valid email'],
+    },
+    role: {
+      type: String,
+      enum: ['principal', 'hr', 'transport_manager'],
+      required: [true, 'Role is required'],
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    acceptedAt: {
+      type: Date,
+    },
+    acceptedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+organizationInvitationSchema.index({ tokenHash: 1 }, { unique: true });
+organizationInvitationSchema.index({ organizationId: 1, email: 1 });
+
+export default mongoose.model<IOrganizationInvitation>('OrganizationInvitation', organizationInvitationSchema);
@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Backing collection for MongoRateLimitStore. One document per key
+// (e.g. "account:jane@school.in" or "ip:auth:203.0.113.7").
+export interface IRateLimitEntry extends Document {
+  key: string;
+  hits: Date[];
+  failures: number;
+  lockoutCount: number;
+  lockedUntil?: Date;
+  lastFailureAt?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const rateLimitEntrySchema = new Schema<IRateLimitEntry>(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    hits: {
+      type: [Date],
+      default: [],
+    },
+    failures: {
+      type: Number,
+      default: 0,
+    },
+    lockoutCount: {
+      type: Number,
+      default: 0,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    lastFailureAt: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+rateLimitEntrySchema.index({ key: 1 }, { unique: true });
+rateLimitEntrySchema.index({ lockedUntil: 1 });
+rateLimitEntrySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IRateLimitEntry>('RateLimitEntry', rateLimitEntrySchema);
@@ -0,0 +1,74 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { VEHICLE_TYPES, VEHICLE_CONDITIONS, VehicleFilters } from './Vehicle.js';
+
+// A buyer's saved vehicle filter set. Newly approved listings that match are
+// notified right away (plans with instant vehicle alerts) or collected for
+// the daily digest.
+export interface ISavedSearch extends Document {
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  filters: VehicleFilters;
+  alertsEnabled: boolean;
+  // Matches waiting for the next digest
+  digestVehicleIds: mongoose.Types.ObjectId[];
+  lastAlertedAt?: Date;
+  lastDigestAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const savedSearchSchema = new Schema<ISavedSearch>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters'],
+    },
+    filters: {
+      type: {
+        type: String,
+        enum: VEHICLE_TYPES,
+      },
+      manufacturer: String,
+      year: Number,
+      condition: {
+        type: String,
+        enum: VEHICLE_CONDITIONS,
+      },
+      minPrice: Number,
+      maxPrice: Number,
+      city: String,
+      state: String,
+    },
+    alertsEnabled: {
+      type: Boolean,
+      default: true,
+    },
+    digestVehicleIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Vehicle',
+    }],
+    lastAlertedAt: {
+      type: Date,
+    },
+    lastDigestAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+savedSearchSchema.index({ userId: 1, createdAt: -1 });
+savedSearchSchema.index({ alertsEnabled: 1, 'filters.type': 1 });
+savedSearchSchema.index({ 'digestVehicleIds.0': 1 });
+
+export default mongoose.model<ISavedSearch>('SavedSearch', savedSearchSchema);
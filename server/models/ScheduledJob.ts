@@ -0,0 +1,78 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type ScheduledJobStatus = 'succeeded' | 'failed';
+
+// Persisted state of a recurring background job. One document per job
+// definition (see services/scheduledJobs.ts); the lock fields make sure only
+// one server instance runs a job at a time.
+export interface IScheduledJob extends Document {
+  name: string;
+  schedule: string;
+  enabled: boolean;
+  nextRunAt: Date;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  // Consecutive failed attempts of the current run (reset on success)
+  attempts: number;
+  lastRunAt?: Date;
+  lastSucceededAt?: Date;
+  lastStatus?: ScheduledJobStatus;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const scheduledJobSchema = new Schema<IScheduledJob>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    schedule: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    nextRunAt: {
+      type: Date,
+      required: true,
+    },
+    lockedBy: {
+      type: String,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    lastRunAt: {
+      type: Date,
+    },
+    lastSucceededAt: {
+      type: Date,
+    },
+    lastStatus: {
+      type: String,
+      enum: ['succeeded', 'failed'],
+    },
+    lastError: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+scheduledJobSchema.index({ name: 1 }, { unique: true });
+scheduledJobSchema.index({ enabled: 1, nextRunAt: 1 });
+
+export default mongoose.model<IScheduledJob>('ScheduledJob', scheduledJobSchema);
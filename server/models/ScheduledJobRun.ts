@@ -0,0 +1,87 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ENV } from '../config/environment.js';
+
+export type ScheduledJobRunStatus = 'running' | 'succeeded' | 'failed';
+export type ScheduledJobTrigger = 'schedule' | 'retry' | 'manual';
+
+// One execution of a scheduled job, kept for the admin run history
+export interface IScheduledJobRun extends Document {
+  jobName: string;
+  status: ScheduledJobRunStatus;
+  trigger: ScheduledJobTrigger;
+  attempt: number;
+  instanceId: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  result?: unknown;
+  error?: string;
+  // When the failed attempt will be retried (unset if it will not be)
+  retryAt?: Date;
+  triggeredBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const scheduledJobRunSchema = new Schema<IScheduledJobRun>(
+  {
+    jobName: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['running', 'succeeded', 'failed'],
+      default: 'running',
+    },
+    trigger: {
+      type: String,
+      enum: ['schedule', 'retry', 'manual'],
+      default: 'schedule',
+    },
+    attempt: {
+      type: Number,
+      default: 1,
+    },
+    instanceId: {
+      type: String,
+      required: true,
+    },
+    startedAt: {
+      type: Date,
+      required: true,
+    },
+    finishedAt: {
+      type: Date,
+    },
+    durationMs: {
+      type: Number,
+    },
+    result: {
+      type: Schema.Types.Mixed,
+    },
+    error: {
+      type: String,
+    },
+    retryAt: {
+      type: Date,
+    },
+    triggeredBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+scheduledJobRunSchema.index({ jobName: 1, startedAt: -1 });
+scheduledJobRunSchema.index({ status: 1, startedAt: -1 });
+scheduledJobRunSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: ENV.SCHEDULER_RUN_RETENTION_DAYS * 24 * 60 * 60 }
+);
+
+export default mongoose.model<IScheduledJobRun>('ScheduledJobRun', scheduledJobRunSchema);
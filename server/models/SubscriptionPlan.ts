@@ -12,6 +12,8 @@ export interface ISubscriptionPlan extends Document {
     maxListings: number;
     maxJobPosts: number;
     maxBrowsesPerMonth: number;
+    // Days a vehicle listing stays live (0: server default, -1: never expires)
+    listingLifetimeDays: number;
     dataDelayDays: number;
     teacherDataDelayDays: number;
     canAdvertiseVehicles: boolean;
@@ -77,6 +79,11 @@ const subscriptionPlanSchema = new Schema<ISubscriptionPlan>(
         required: true,
         min: 0,
       },
+      listingLifetimeDays: {
+        type: Number,
+        default: 0,
+        min: -1,
+      },
       dataDelayDays: {
         type: Number,
         default: 0,
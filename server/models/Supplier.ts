@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { IGeoPoint, geoPointDefinition, geocodeOnWrite } from './geo.js';
 
 export interface ISupplier extends Document {
   name: string;
@@ -16,15 +17,18 @@ export interface ISupplier extends Document {
     pincode: string;
     country: string;
   };
+  // Geocoded from address (see models/geo.ts)
+  geo?: IGeoPoint;
   logo?: string;
   certifications?: string[];
   yearsInBusiness?: number;
   clientCount?: number;
   isVerified: boolean;
-  status: 'pending' | 'approved' | 'rejected';
+  status: 'pending' | 'approved' | 'rejected' | 'withdrawn';
   createdBy: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
+  refreshGeo(): boolean;
 }
 
 const supplierSchema = new Schema<ISupplier>(
@@ -101,6 +105,7 @@ const supplierSchema = new Schema<ISupplier>(
         default: 'India',
       },
     },
+    geo: geoPointDefinition,
     logo: {
       type: String,
     },
@@ -122,7 +127,7 @@ const supplierSchema = new Schema<ISupplier>(
     },
     status: {
       type: String,
-      enum: ['pending', 'approved', 'rejected'],
+      enum: ['pending', 'approved', 'rejected', 'withdrawn'],
       default: 'pending',
     },
     createdBy: {
@@ -136,9 +141,12 @@ const supplierSchema = new Schema<ISupplier>(
   }
 );
 
+geocodeOnWrite(supplierSchema, { pincode: 'address.pincode', city: 'address.city', state: 'address.state' });
+
 // Indexes
 supplierSchema.index({ category: 1, status: 1 });
 supplierSchema.index({ isVerified: 1, status: 1 });
 supplierSchema.index({ createdBy: 1 });
+supplierSchema.index({ geo: '2dsphere' });
 
 export default mongoose.model<ISupplier>('Supplier', supplierSchema);
\ No newline at end of file
@@ -1,11 +1,16 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { ADMIN_ROLES, AdminRole } from '../config/permissions.js';
+import { IGeoPoint, geoPointDefinition, geocodeOnWrite } from './geo.js';
 
 export interface IUser extends Document {
   name: string;
   email: string;
-  password: string;
+  password?: string;
+  googleId?: string;
   role: 'guest' | 'institute' | 'admin' | 'teacher' | 'vendor';
+  // Narrows an admin's permissions; admins without one are super admins
+  adminRole?: AdminRole;
   instituteName?: string;
   contactPerson?: string;
   avatar?: string;
@@ -42,6 +47,8 @@ export interface IUser extends Document {
   subjects?: string[];
   bio?: string;
   location?: string;
+  // Geocoded from address, or from location when there is no address (see models/geo.ts)
+  geo?: IGeoPoint;
   profile?: {
     qualification?: string[];
     subjects?: string[];
@@ -50,9 +57,29 @@ export interface IUser extends Document {
     preferredLocation?: string[];
     achievements?: string[];
   };
+  passwordChangedAt?: Date;
+  passwordResetToken?: string;
+  passwordResetExpires?: Date;
+  emailVerificationToken?: string;
+  emailVerificationExpires?: Date;
+  emailVerificationSentAt?: Date;
+  // Self-service deletion: personal data is anonymised after the grace period
+  deletionRequestedAt?: Date;
+  deletionScheduledFor?: Date;
+  deletedAt?: Date;
+  twoFactor?: {
+    enabled: boolean;
+    secret?: string; // encrypted
+    pendingSecret?: string; // encrypted, awaiting confirmation
+    recoveryCodes?: string[]; // hashed
+    lastUsedStep?: number;
+    enabledAt?: Date;
+  };
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
+  changedPasswordAfter(tokenIssuedAtMs: number): boolean;
+  refreshGeo(): boolean;
 }
 
 const userSchema = new Schema<IUser>(
@@ -72,15 +99,23 @@ const userSchema = new Schema<IUser>(
     },
     password: {
       type: String,
-      required: [true, 'Password is required'],
+      // Accounts created through Google sign-in have no password
+      required: [function (this: IUser) { return !this.googleId; }, 'Password is required'],
       minlength: [6, 'Password must be at least 6 characters'],
       select: false,
     },
+    googleId: {
+      type: String,
+    },
     role: {
       type: String,
       enum: ['guest', 'institute', 'admin', 'teacher', 'vendor'],
       default: 'institute',
     },
+    adminRole: {
+      type: String,
+      enum: ADMIN_ROLES,
+    },
     instituteName: {
       type: String,
       trim: true,
@@ -172,6 +207,7 @@ const userSchema = new Schema<IUser>(
     subjects: [String],
     bio: String,
     location: String,
+    geo: geoPointDefinition,
     profile: {
       qualification: [String],
       subjects: [String],
@@ -180,6 +216,50 @@ const userSchema = new Schema<IUser>(
       preferredLocation: [String],
       achievements: [String],
     },
+    passwordChangedAt: Date,
+    passwordResetToken: {
+      type: String,
+      select: false,
+    },
+    passwordResetExpires: {
+      type: Date,
+      select: false,
+    },
+    emailVerificationToken: {
+      type: String,
+      select: false,
+    },
+    emailVerificationExpires: {
+      type: Date,
+      select: false,
+    },
+    emailVerificationSentAt: Date,
+    deletionRequestedAt: Date,
+    deletionScheduledFor: Date,
+    deletedAt: Date,
+    twoFactor: {
+      enabled: {
+        type: Boolean,
+        default: false,
+      },
+      secret: {
+        type: String,
+        select: false,
+      },
+      pendingSecret: {
+        type: String,
+        select: false,
+      },
+      recoveryCodes: {
+        type: [String],
+        select: false,
+      },
+      lastUsedStep: {
+        type: Number,
+        select: false,
+      },
+      enabledAt: Date,
+    },
   },
   {
     timestamps: true,
@@ -188,17 +268,46 @@ const userSchema = new Schema<IUser>(
 
 // Hash password before saving
 userSchema.pre('save', async function () {
-  if (!this.isModified('password')) {
+  if (!this.isModified('password') || !this.password) {
     return;
   }
   
   const salt = await bcrypt.genSalt(10);
   this.password = await bcrypt.hash(this.password, salt);
+
+  // Record when an existing password changes so older JWTs can be rejected
+  if (!this.isNew) {
+    this.passwordChangedAt = new Date();
+  }
 });
 
 // Method to compare password
 userSchema.methods.comparePassword = async function (candidatePassword: string): Promise<boolean> {
+  if (!this.password) {
+    return false;
+  }
   return bcrypt.compare(candidatePassword, this.password);
 };
 
+// Check whether the password changed after a JWT was issued (iat in seconds)
+userSchema.methods.changedPasswordAfter = function (tokenIssuedAtMs: number): boolean {
+  if (!this.passwordChangedAt) {
+    return false;
+  }
+  return tokenIssuedAtMs < this.passwordChangedAt.getTime();
+};
+
+geocodeOnWrite(userSchema, {
+  pincode: 'address.pincode',
+  city: 'address.city',
+  state: 'address.state',
+  text: 'location',
+});
+
+userSchema.index({ googleId: 1 }, { unique: true, sparse: true });
+userSchema.index({ passwordResetToken: 1 }, { sparse: true });
+userSchema.index({ emailVerificationToken: 1 }, { sparse: true });
+userSchema.index({ deletionScheduledFor: 1 }, { sparse: true });
+userSchema.index({ geo: '2dsphere' });
+
 export default mongoose.model<IUser>('User', userSchema);
\ No newline at end of file
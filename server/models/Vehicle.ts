@@ -1,15 +1,81 @@
 import mongoose, { Schema, type Document } from 'mongoose';
+import { normalizeRegistrationNumber } from '../utils/registrationNumber.js';
+import { IGeoPoint, geoPointDefinition, geocodeOnWrite } from './geo.js';
+import { VERIFIABLE_DOCUMENTS, VerifiableDocument, DocumentVerificationStatus } from './VehicleDocumentUpload.js';
+
+// pending -> approved | rejected (moderation); approved listings can then be
+// reserved, sold, withdrawn by their owner, or expire
+export type VehicleStatus = 'pending' | 'approved' | 'rejected' | 'reserved' | 'sold' | 'withdrawn' | 'expired';
+
+export const VEHICLE_STATUSES: VehicleStatus[] = [
+  'pending',
+  'approved',
+  'rejected',
+  'reserved',
+  'sold',
+  'withdrawn',
+  'expired',
+];
+
+// Documents a listing can carry, each with an expiry date
+export type VehicleDocument = 'insurance' | 'fitness' | 'roadTax' | 'permit';
+
+export const VEHICLE_DOCUMENTS: VehicleDocument[] = ['insurance', 'fitness', 'roadTax', 'permit'];
+
+// A document expiry reminder already sent to the seller
+export interface IVehicleDocumentReminder {
+  document: VehicleDocument;
+  daysBefore: number;
+  expiryDate: Date;
+  sentAt: Date;
+}
+
+// Moderation result of the latest upload of each document (see VehicleDocumentUpload)
+export interface IVehicleDocumentVerification {
+  document: VerifiableDocument;
+  uploadId: mongoose.Types.ObjectId;
+  status: Exclude<DocumentVerificationStatus, 'superseded'>;
+  expiryDate?: Date;
+  reviewedAt?: Date;
+}
+
+export interface IVehicleStatusChange {
+  status: VehicleStatus;
+  changedAt: Date;
+  changedBy?: mongoose.Types.ObjectId;
+  reason?: string;
+}
+
+export type VehicleType = 'school-bus' | 'minibus' | 'van' | 'truck';
+export type VehicleCondition = 'excellent' | 'good' | 'fair' | 'needs-repair';
+
+export const VEHICLE_TYPES: VehicleType[] = ['school-bus', 'minibus', 'van', 'truck'];
+export const VEHICLE_CONDITIONS: VehicleCondition[] = ['excellent', 'good', 'fair', 'needs-repair'];
+
+// Filters a vehicle search can apply (see services/vehicleSearch.ts)
+export interface VehicleFilters {
+  type?: VehicleType;
+  manufacturer?: string;
+  year?: number;
+  condition?: VehicleCondition;
+  minPrice?: number;
+  maxPrice?: number;
+  city?: string;
+  state?: string;
+}
 
 export interface IVehicle extends Omit<Document, 'model'> {
   title: string;
   manufacturer: string;
   vehicleModel: string;
   year: number;
-  type: 'school-bus' | 'minibus' | 'van' | 'truck';
+  type: VehicleType;
   price: number;
   registrationNumber: string;
   mileage: number;
-  condition: 'excellent' | 'good' | 'fair' | 'needs-repair';
+  // Passenger seats, excluding the driver's
+  seatingCapacity?: number;
+  condition: VehicleCondition;
   features: string[];
   images: string[];
   description: string;
@@ -17,8 +83,28 @@ export interface IVehicle extends Omit<Document, 'model'> {
   sellerName: string;
   sellerEmail: string;
   sellerPhone?: string;
+  // Where the vehicle can be inspected (defaults to the seller's address)
+  location?: {
+    city?: string;
+    state?: string;
+    pincode?: string;
+  };
+  // Geocoded from location (see models/geo.ts)
+  geo?: IGeoPoint;
   isPriority: boolean;
-  status: 'pending' | 'approved' | 'rejected';
+  status: VehicleStatus;
+  approvedAt?: Date;
+  rejectedAt?: Date;
+  reservedAt?: Date;
+  soldAt?: Date;
+  withdrawnAt?: Date;
+  expiredAt?: Date;
+  // When an approved listing expires (unset: never)
+  expiresAt?: Date;
+  expiryReminderSentAt?: Date;
+  renewedAt?: Date;
+  renewalCount: number;
+  statusHistory: IVehicleStatusChange[];
   insurance?: {
     valid: boolean;
     expiryDate?: Date;
@@ -37,9 +123,15 @@ export interface IVehicle extends Omit<Document, 'model'> {
     expiryDate?: Date;
     permitType?: string;
   };
+  documentReminders: IVehicleDocumentReminder[];
+  documentVerifications: IVehicleDocumentVerification[];
   views: number;
   createdAt: Date;
   updatedAt: Date;
+
+  // Methods
+  setStatus(status: VehicleStatus, changedBy?: mongoose.Types.ObjectId, reason?: string): void;
+  refreshGeo(): boolean;
 }
 
 const vehicleSchema = new Schema<IVehicle>(
@@ -68,7 +160,7 @@ const vehicleSchema = new Schema<IVehicle>(
     type: {
       type: String,
       required: [true, 'Type is required'],
-      enum: ['school-bus', 'minibus', 'van', 'truck'],
+      enum: VEHICLE_TYPES,
     },
     price: {
       type: Number,
@@ -78,18 +170,22 @@ const vehicleSchema = new Schema<IVehicle>(
     registrationNumber: {
       type: String,
       required: [true, 'Registration number is required'],
-      trim: true,
-      uppercase: true,
+      // Stored without spaces or dashes so the same plate always matches
+      set: normalizeRegistrationNumber,
     },
     mileage: {
       type: Number,
       required: [true, 'Mileage is required'],
       min: 0,
     },
+    seatingCapacity: {
+      type: Number,
+      min: 1,
+    },
     condition: {
       type: String,
       required: [true, 'Condition is required'],
-      enum: ['excellent', 'good', 'fair', 'needs-repair'],
+      enum: VEHICLE_CONDITIONS,
     },
     features: {
       type: [String],
@@ -124,15 +220,55 @@ const vehicleSchema = new Schema<IVehicle>(
     sellerPhone: {
       type: String,
     },
+    location: {
+      city: {
+        type: String,
+        trim: true,
+      },
+      state: {
+        type: String,
+        trim: true,
+      },
+      pincode: {
+        type: String,
+        trim: true,
+      },
+    },
+    geo: geoPointDefinition,
     isPriority: {
       type: Boolean,
       default: false,
     },
     status: {
       type: String,
-      enum: ['pending', 'approved', 'rejected'],
+      enum: VEHICLE_STATUSES,
       default: 'pending',
     },
+    approvedAt: Date,
+    rejectedAt: Date,
+    reservedAt: Date,
+    soldAt: Date,
+    withdrawnAt: Date,
+    expiredAt: Date,
+    expiresAt: Date,
+    expiryReminderSentAt: Date,
+    renewedAt: Date,
+    renewalCount: {
+      type: Number,
+      default: 0,
+    },
+    statusHistory: [{
+      status: {
+        type: String,
+        enum: VEHICLE_STATUSES,
+      },
+      changedAt: Date,
+      changedBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+      },
+      reason: String,
+    }],
     insurance: {
       valid: Boolean,
       expiryDate: Date,
@@ -151,6 +287,31 @@ const vehicleSchema = new Schema<IVehicle>(
       expiryDate: Date,
       permitType: String,
     },
+    documentReminders: [{
+      document: {
+        type: String,
+        enum: VEHICLE_DOCUMENTS,
+      },
+      daysBefore: Number,
+      expiryDate: Date,
+      sentAt: Date,
+    }],
+    documentVerifications: [{
+      document: {
+        type: String,
+        enum: VERIFIABLE_DOCUMENTS,
+      },
+      uploadId: {
+        type: Schema.Types.ObjectId,
+        ref: 'VehicleDocumentUpload',
+      },
+      status: {
+        type: String,
+        enum: ['pending', 'verified', 'rejected'],
+      },
+      expiryDate: Date,
+      reviewedAt: Date,
+    }],
     views: {
       type: Number,
       default: 0,
@@ -161,11 +322,60 @@ const vehicleSchema = new Schema<IVehicle>(
   }
 );
 
+// Timestamp recorded when a listing enters each status
+const STATUS_TIMESTAMPS: Partial<Record<VehicleStatus, string>> = {
+  approved: 'approvedAt',
+  rejected: 'rejectedAt',
+  reserved: 'reservedAt',
+  sold: 'soldAt',
+  withdrawn: 'withdrawnAt',
+  expired: 'expiredAt',
+};
+
+// Fields set and history entry recorded when a listing enters a status. The
+// one definition behind both setStatus and vehicleStatusUpdate.
+const statusChange = (status: VehicleStatus, changedBy?: mongoose.Types.ObjectId, reason?: string) => {
+  const changedAt = new Date();
+  const timestampField = STATUS_TIMESTAMPS[status];
+
+  return {
+    fields: { status, ...(timestampField ? { [timestampField]: changedAt } : {}) },
+    entry: { status, changedAt, changedBy, reason },
+  };
+};
+
+// Update for an atomic status change (findOneAndUpdate with a status guard)
+export const vehicleStatusUpdate = (
+  status: VehicleStatus,
+  changedBy?: mongoose.Types.ObjectId,
+  reason?: string
+) => {
+  const { fields, entry } = statusChange(status, changedBy, reason);
+  return { $set: fields, $push: { statusHistory: entry } };
+};
+
+// Change status on a loaded document, recording the transition (caller saves)
+vehicleSchema.methods.setStatus = function (
+  status: VehicleStatus,
+  changedBy?: mongoose.Types.ObjectId,
+  reason?: string
+): void {
+  const { fields, entry } = statusChange(status, changedBy, reason);
+  this.set(fields);
+  this.statusHistory.push(entry);
+};
+
+geocodeOnWrite(vehicleSchema, { pincode: 'location.pincode', city: 'location.city', state: 'location.state' });
+
 // Indexes for better query performance
 vehicleSchema.index({ sellerId: 1, status: 1 });
 vehicleSchema.index({ type: 1, status: 1 });
 vehicleSchema.index({ manufacturer: 1, vehicleModel: 1 });
 vehicleSchema.index({ isPriority: 1, status: 1 });
 vehicleSchema.index({ createdAt: -1 });
+vehicleSchema.index({ status: 1, expiresAt: 1 });
+vehicleSchema.index({ registrationNumber: 1, status: 1 });
+vehicleSchema.index({ 'location.state': 1, 'location.city': 1 });
+vehicleSchema.index({ geo: '2dsphere' });
 
 export default mongoose.model<IVehicle>('Vehicle', vehicleSchema);
\ No newline at end of file
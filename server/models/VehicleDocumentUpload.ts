@@ -0,0 +1,104 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Registration certificate plus the documents that carry an expiry date on the listing
+export type VerifiableDocument = 'rc' | 'insurance' | 'fitness' | 'roadTax' | 'permit';
+
+export const VERIFIABLE_DOCUMENTS: VerifiableDocument[] = ['rc', 'insurance', 'fitness', 'roadTax', 'permit'];
+
+// pending -> verified | rejected (moderation); a newer upload of the same
+// document supersedes an older one that is still pending
+export type DocumentVerificationStatus = 'pending' | 'verified' | 'rejected' | 'superseded';
+
+// A document file a seller uploaded for verification. The file is kept in the
+// database (uploads are in-memory) and only served to the owner and moderators.
+export interface IVehicleDocumentUpload extends Document {
+  vehicleId: mongoose.Types.ObjectId;
+  sellerId: mongoose.Types.ObjectId;
+  uploadedBy: mongoose.Types.ObjectId;
+  document: VerifiableDocument;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  data: Buffer;
+  // Expiry printed on the document, as declared by the seller (confirmed on verification)
+  expiryDate?: Date;
+  status: DocumentVerificationStatus;
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const vehicleDocumentUploadSchema = new Schema<IVehicleDocumentUpload>(
+  {
+    vehicleId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Vehicle',
+      required: true,
+    },
+    sellerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    uploadedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    document: {
+      type: String,
+      enum: VERIFIABLE_DOCUMENTS,
+      required: [true, 'Document type is required'],
+    },
+    fileName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    mimeType: {
+      type: String,
+      required: true,
+    },
+    size: {
+      type: Number,
+      required: true,
+    },
+    data: {
+      type: Buffer,
+      required: true,
+      select: false,
+    },
+    expiryDate: {
+      type: Date,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'verified', 'rejected', 'superseded'],
+      default: 'pending',
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    reviewedAt: {
+      type: Date,
+    },
+    rejectionReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Reason cannot exceed 500 characters'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+vehicleDocumentUploadSchema.index({ vehicleId: 1, document: 1, createdAt: -1 });
+vehicleDocumentUploadSchema.index({ status: 1, createdAt: 1 });
+vehicleDocumentUploadSchema.index({ sellerId: 1 });
+
+export default mongoose.model<IVehicleDocumentUpload>('VehicleDocumentUpload', vehicleDocumentUploadSchema);
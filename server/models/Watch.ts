@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type WatchTargetType = 'Vehicle' | 'Job' | 'Supplier';
+
+export const WATCH_TARGET_TYPES: WatchTargetType[] = ['Vehicle', 'Job', 'Supplier'];
+
+// A listing a user has bookmarked. Watchers are told when a vehicle's price
+// drops, a job's application deadline is near, or the listing goes away.
+export interface IWatch extends Document {
+  userId: mongoose.Types.ObjectId;
+  targetType: WatchTargetType;
+  targetId: mongoose.Types.ObjectId;
+  // Vehicle price when the watch was added, to show the drop since
+  priceAtWatch?: number;
+  // The deadline a reminder was sent for; a renewed job gets a new one
+  deadlineReminderFor?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const watchSchema = new Schema<IWatch>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    targetType: {
+      type: String,
+      required: true,
+      enum: WATCH_TARGET_TYPES,
+    },
+    targetId: {
+      type: Schema.Types.ObjectId,
+      refPath: 'targetType',
+      required: true,
+    },
+    priceAtWatch: {
+      type: Number,
+    },
+    deadlineReminderFor: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+watchSchema.index({ userId: 1, targetType: 1, targetId: 1 }, { unique: true });
+watchSchema.index({ userId: 1, createdAt: -1 });
+watchSchema.index({ targetType: 1, targetId: 1 });
+
+export default mongoose.model<IWatch>('Watch', watchSchema);
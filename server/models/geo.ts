@@ -0,0 +1,101 @@
+import { Schema } from 'mongoose';
+import { geocodePlace, GeoPlace } from '../utils/geocode.js';
+
+// GeoJSON point; coordinates are [longitude, latitude] as MongoDB expects
+export interface IGeoPoint {
+  type: 'Point';
+  coordinates: [number, number];
+}
+
+// Schema paths for a GeoJSON point. Left unset when a place cannot be geocoded,
+// so no empty coordinates reach the 2dsphere index.
+export const geoPointDefinition = {
+  type: {
+    type: String,
+    enum: ['Point'],
+  },
+  coordinates: {
+    type: [Number],
+    default: undefined,
+  },
+};
+
+// Where a model keeps its address; `text` is a free-text "City, State" fallback
+export interface GeoPlacePaths {
+  pincode?: string;
+  city: string;
+  state: string;
+  text?: string;
+}
+
+const stringAt = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const placeFrom = (get: (path: string) => unknown, paths: GeoPlacePaths): GeoPlace => {
+  const [textCity, textState] = paths.text ? stringAt(get(paths.text)).split(',').map((part) => part.trim()) : [];
+  return {
+    pincode: paths.pincode ? stringAt(get(paths.pincode)) : undefined,
+    city: stringAt(get(paths.city)) || textCity,
+    state: stringAt(get(paths.state)) || textState,
+  };
+};
+
+// A dotted path in a plain object, written either nested or as a dotted key
+const valueAt = (source: any, path: string): unknown =>
+  path in source ? source[path] : path.split('.').reduce((value: any, key) => value?.[key], source);
+
+const geoPointFor = (place: GeoPlace): IGeoPoint | undefined => {
+  const result = geocodePlace(place);
+  return result ? { type: 'Point', coordinates: [result.lng, result.lat] } : undefined;
+};
+
+// Keep a model's `geo` point in step with its address: on create and
+// insertMany, on save when an address path changed, and on findOneAndUpdate/
+// updateOne when the update touches one. Also adds doc.refreshGeo() for
+// backfills; it returns whether the point changed.
+export const geocodeOnWrite = (schema: Schema<any>, paths: GeoPlacePaths): void => {
+  const sources = Object.values(paths).filter(Boolean) as string[];
+
+  const refresh = (doc: any): boolean => {
+    const point = geoPointFor(placeFrom((path) => doc.get(path), paths));
+    if (String(doc.get('geo.coordinates') ?? '') === String(point?.coordinates ?? '')) {
+      return false;
+    }
+    doc.set('geo', point);
+    return true;
+  };
+
+  schema.methods.refreshGeo = function (): boolean {
+    return refresh(this);
+  };
+
+  schema.pre('save', function () {
+    if (this.isNew || sources.some((path) => this.isModified(path))) {
+      refresh(this);
+    }
+  });
+
+  schema.pre('insertMany', function (docs: any) {
+    for (const doc of [docs].flat()) {
+      doc.geo ??= geoPointFor(placeFrom((path) => valueAt(doc, path), paths));
+    }
+  });
+
+  schema.pre(['findOneAndUpdate', 'updateOne'], function () {
+    const update: any = this.getUpdate();
+    if (!update || Array.isArray(update)) return;
+
+    const fields = { ...update, ...update.$set };
+    const unset = update.$unset ?? {};
+    const get = (path: string) => valueAt(fields, path);
+    const touched = (path: string) =>
+      get(path) !== undefined || path in unset || path.split('.')[0] in unset;
+    if (!sources.some(touched)) return;
+
+    const point = geoPointFor(placeFrom(get, paths));
+    if (point) {
+      this.set('geo', point);
+    } else {
+      this.setUpdate({ ...update, $unset: { ...update.$unset, geo: 1 } });
+    }
+  });
+};
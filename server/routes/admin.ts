@@ -6,22 +6,54 @@ import {
   togglePriority,
   getAllUsers,
   updateUserStatus,
+  getLockouts,
+  clearUserLockout,
+  updateAdminRole,
+  impersonateUser,
+  getAuditLogs,
 } from '../controllers/adminController.js';
 import { approveSupplierStatus } from '../controllers/supplierController.js';
-import { authenticate, authorize } from '../middleware/auth.js';
+import {
+  getUserSessions,
+  revokeUserSession,
+  revokeAllUserSessions,
+} from '../controllers/sessionController.js';
+import {
+  getScheduledJobs,
+  getScheduledJobRuns,
+  runScheduledJob,
+  updateScheduledJob,
+} from '../controllers/schedulerController.js';
+import { getDocumentQueue, reviewVehicleDocument } from '../controllers/vehicleDocumentController.js';
+import { authenticate, authorize, requirePermission } from '../middleware/auth.js';
 
 const router = express.Router();
 
-// All routes require admin authentication
+// All routes require admin authentication; each route then checks the
+// permission for the admin's sub-role
 router.use(authenticate);
 router.use(authorize('admin'));
 
-router.get('/stats', getDashboardStats);
-router.get('/pending', getPendingVehicles);
-router.put('/approve/:id', approveVehicle);
-router.put('/priority/:id', togglePriority);
-router.get('/users', getAllUsers);
-router.put('/users/:id/status', updateUserStatus);
-router.put('/suppliers/:id/approve', approveSupplierStatus);
+router.get('/stats', requirePermission('stats:read'), getDashboardStats);
+router.get('/pending', requirePermission('vehicle:moderate'), getPendingVehicles);
+router.put('/approve/:id', requirePermission('vehicle:moderate'), approveVehicle);
+router.put('/priority/:id', requirePermission('vehicle:moderate'), togglePriority);
+router.get('/vehicle-documents', requirePermission('vehicle:moderate'), getDocumentQueue);
+router.put('/vehicle-documents/:id', requirePermission('vehicle:moderate'), reviewVehicleDocument);
+router.get('/users', requirePermission('user:read'), getAllUsers);
+router.put('/users/:id/status', requirePermission('user:manage'), updateUserStatus);
+router.put('/users/:id/admin-role', requirePermission('admin:manage'), updateAdminRole);
+router.post('/users/:id/impersonate', requirePermission('user:impersonate'), impersonateUser);
+router.get('/users/:id/sessions', requirePermission('session:manage'), getUserSessions);
+router.delete('/users/:id/sessions', requirePermission('session:manage'), revokeAllUserSessions);
+router.delete('/users/:id/sessions/:sessionId', requirePermission('session:manage'), revokeUserSession);
+router.get('/lockouts', requirePermission('session:manage'), getLockouts);
+router.delete('/users/:id/lockout', requirePermission('session:manage'), clearUserLockout);
+router.get('/audit-logs', requirePermission('audit:read'), getAuditLogs);
+router.get('/scheduled-jobs', requirePermission('scheduler:manage'), getScheduledJobs);
+router.get('/scheduled-jobs/runs', requirePermission('scheduler:manage'), getScheduledJobRuns);
+router.put('/scheduled-jobs/:name', requirePermission('scheduler:manage'), updateScheduledJob);
+router.post('/scheduled-jobs/:name/run', requirePermission('scheduler:manage'), runScheduledJob);
+router.put('/suppliers/:id/approve', requirePermission('supplier:moderate'), approveSupplierStatus);
 
 export default router;
@@ -1,5 +1,5 @@
 import express from 'express';
-import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
 import {
   // Ad management (Admin)
   getAllAds,
@@ -36,16 +36,16 @@ router.post('/requests', submitAdRequest);
 // ============ ADMIN ROUTES ============
 
 // Ad management
-router.get('/', authenticate, requireAdmin, getAllAds);
-router.get('/analytics', authenticate, requireAdmin, getAdAnalytics);
-router.get('/:id', authenticate, requireAdmin, getAdById);
-router.post('/', authenticate, requireAdmin, createAd);
-router.put('/:id', authenticate, requireAdmin, updateAd);
-router.delete('/:id', authenticate, requireAdmin, deleteAd);
+router.get('/', authenticate, requirePermission('ad:manage'), getAllAds);
+router.get('/analytics', authenticate, requirePermission('ad:manage'), getAdAnalytics);
+router.get('/:id', authenticate, requirePermission('ad:manage'), getAdById);
+router.post('/', authenticate, requirePermission('ad:manage'), createAd);
+router.put('/:id', authenticate, requirePermission('ad:manage'), updateAd);
+router.delete('/:id', authenticate, requirePermission('ad:manage'), deleteAd);
 
 // Ad request management
-router.get('/requests/all', authenticate, requireAdmin, getAllAdRequests);
-router.put('/requests/:id/status', authenticate, requireAdmin, updateAdRequestStatus);
-router.delete('/requests/:id', authenticate, requireAdmin, deleteAdRequest);
+router.get('/requests/all', authenticate, requirePermission('ad:manage'), getAllAdRequests);
+router.put('/requests/:id/status', authenticate, requirePermission('ad:manage'), updateAdRequestStatus);
+router.delete('/requests/:id', authenticate, requirePermission('ad:manage'), deleteAdRequest);
 
 export default router;
@@ -6,21 +6,78 @@ import {
   getCurrentUser,
   validateToken,
   refreshToken,
+  forgotPassword,
+  resetPassword,
+  changePassword,
+  verifyEmail,
+  resendVerification,
+  verifyTwoFactorLogin,
 } from '../controllers/authController.js';
 import { updateUserProfile, getUserProfile } from '../controllers/userController.js';
-import { authenticate } from '../middleware/auth.js';
+import {
+  getMySessions,
+  revokeMySession,
+  revokeOtherSessions,
+} from '../controllers/sessionController.js';
+import { getMyApiKeys, createMyApiKey, revokeMyApiKey } from '../controllers/apiKeyController.js';
+import { googleAuth, googleAuthCallback } from '../controllers/oauthController.js';
+import {
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+} from '../controllers/twoFactorController.js';
+import {
+  authenticate,
+  authenticateEnrolling,
+  optionalAuth,
+  forbidImpersonation,
+  requirePermission,
+} from '../middleware/auth.js';
+import { authRateLimiter } from '../middleware/rateLimit.js';
 
 const router = express.Router();
 
+// Per-IP throttle on every state-changing auth request
+router.use(authRateLimiter);
+
 router.post('/signup', signup);
 router.post('/login', login);
-router.post('/logout', authenticate, logout);
-router.get('/me', authenticate, getCurrentUser);
+router.post('/logout', optionalAuth, logout);
+router.get('/me', authenticateEnrolling, getCurrentUser);
 router.put('/me', authenticate, updateUserProfile);
 router.get('/profile', authenticate, getUserProfile);
 router.put('/profile', authenticate, updateUserProfile);
 router.patch('/profile', authenticate, updateUserProfile);
 router.get('/validate', validateToken);
-router.post('/refresh', authenticate, refreshToken);
+router.post('/refresh', refreshToken);
+router.post('/forgot-password', forgotPassword);
+router.post('/reset-password', resetPassword);
+router.post('/change-password', authenticate, forbidImpersonation, changePassword);
+router.get('/verify-email', verifyEmail);
+router.post('/resend-verification', authenticate, resendVerification);
+
+// Google sign-in
+router.get('/google', googleAuth);
+router.get('/google/callback', googleAuthCallback);
+
+// Session management
+router.get('/sessions', authenticate, getMySessions);
+router.delete('/sessions', authenticate, forbidImpersonation, revokeOtherSessions);
+router.delete('/sessions/:id', authenticate, forbidImpersonation, revokeMySession);
+
+// Two-factor authentication
+router.post('/2fa/verify', verifyTwoFactorLogin);
+router.get('/2fa', authenticateEnrolling, getTwoFactorStatus);
+router.post('/2fa/setup', authenticateEnrolling, forbidImpersonation, setupTwoFactor);
+router.post('/2fa/enable', authenticateEnrolling, forbidImpersonation, enableTwoFactor);
+router.post('/2fa/disable', authenticate, forbidImpersonation, disableTwoFactor);
+router.post('/2fa/recovery-codes', authenticate, forbidImpersonation, regenerateRecoveryCodes);
+
+// API keys for ERP integrations (keys themselves cannot reach these routes)
+router.get('/api-keys', authenticate, requirePermission('api_key:manage'), getMyApiKeys);
+router.post('/api-keys', authenticate, forbidImpersonation, requirePermission('api_key:manage'), createMyApiKey);
+router.delete('/api-keys/:id', authenticate, forbidImpersonation, requirePermission('api_key:manage'), revokeMyApiKey);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,28 @@
+import express from 'express';
+import {
+  getConversations,
+  getUnreadMessageCount,
+  startConversation,
+  getConversation,
+  sendMessage,
+  markConversationAsRead,
+  revealSellerContact,
+} from '../controllers/conversationController.js';
+import { authenticate, authenticateVerified } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Inboxes - specific routes before :id
+router.get('/', authenticate, getConversations);
+router.get('/unread-count', authenticate, getUnreadMessageCount);
+
+// New inquiries require a verified email to keep spam out
+router.post('/', authenticateVerified, startConversation);
+
+// Threads
+router.get('/:id', authenticate, getConversation);
+router.post('/:id/messages', authenticate, sendMessage);
+router.put('/:id/read', authenticate, markConversationAsRead);
+router.post('/:id/reveal-contact', authenticate, revealSellerContact);
+
+export default router;
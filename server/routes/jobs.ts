@@ -10,8 +10,9 @@ import {
   getApplications,
   updateApplicationStatus,
   rescheduleInterview,
+  renewJob,
 } from '../controllers/jobController.js';
-import { protect, restrictTo } from '../middleware/auth.js';
+import { protect, requirePermission, authenticateVerified } from '../middleware/auth.js';
 
 const router = express.Router();
 
@@ -20,25 +21,26 @@ router.get('/featured', getAllJobs); // Alias for featured jobs
 router.get('/', getAllJobs);
 
 // Protected specific routes MUST come before :id
-router.get('/my/listings', protect, restrictTo('institute', 'admin'), getInstituteJobs);
-router.get('/applications/list', protect, restrictTo('teacher', 'institute', 'admin'), getApplications);
-router.get('/applications/my', protect, restrictTo('teacher'), getApplications); // Alias for teacher's own applications
+router.get('/my/listings', protect, requirePermission('job:manage'), getInstituteJobs);
+router.get('/applications/list', protect, requirePermission('job:apply', 'application:review'), getApplications);
+router.get('/applications/my', protect, requirePermission('job:apply'), getApplications); // Alias for teacher's own applications
 
 // Public dynamic route
 router.get('/:id', getJobById);
 
 // Protected CRUD operations
-router.post('/', protect, restrictTo('institute', 'admin'), createJob);
-router.put('/:id', protect, restrictTo('institute', 'admin'), updateJob);
-router.delete('/:id', protect, restrictTo('institute', 'admin'), deleteJob);
+router.post('/', authenticateVerified, requirePermission('job:create'), createJob);
+router.put('/:id', protect, requirePermission('job:manage'), updateJob);
+router.delete('/:id', protect, requirePermission('job:manage'), deleteJob);
+router.post('/:id/renew', protect, requirePermission('job:manage'), renewJob);
 
 // Teacher routes
-router.post('/:id/apply', protect, restrictTo('teacher'), applyToJob);
+router.post('/:id/apply', protect, requirePermission('job:apply'), applyToJob);
 
 // Application status update
-router.put('/applications/:id/status', protect, restrictTo('institute', 'admin'), updateApplicationStatus);
+router.put('/applications/:id/status', protect, requirePermission('application:review'), updateApplicationStatus);
 
 // Interview reschedule
-router.put('/applications/:id/reschedule', protect, restrictTo('institute', 'admin'), rescheduleInterview);
+router.put('/applications/:id/reschedule', protect, requirePermission('application:review'), rescheduleInterview);
 
 export default router;
@@ -0,0 +1,26 @@
+import express from 'express';
+import {
+  getMyOffers,
+  getOffer,
+  counterOffer,
+  acceptOffer,
+  rejectOffer,
+  withdrawOffer,
+  completeSale,
+} from '../controllers/offerController.js';
+import { protect } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// All routes require authentication; offers are made through /api/vehicles/:id/offers
+router.use(protect);
+
+router.get('/', getMyOffers);
+router.get('/:id', getOffer);
+router.post('/:id/counter', counterOffer);
+router.post('/:id/accept', acceptOffer);
+router.post('/:id/reject', rejectOffer);
+router.post('/:id/withdraw', withdrawOffer);
+router.post('/:id/complete', completeSale);
+
+export default router;
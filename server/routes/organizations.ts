@@ -0,0 +1,29 @@
+import express from 'express';
+import {
+  createOrganization,
+  getMyOrganization,
+  updateMyOrganization,
+  inviteMember,
+  revokeInvitation,
+  acceptInvitation,
+  updateMemberRole,
+  removeMember,
+} from '../controllers/organizationController.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.post('/', requirePermission('organization:create'), createOrganization);
+router.post('/invitations/accept', requirePermission('organization:join'), acceptInvitation);
+
+router.get('/me', getMyOrganization);
+router.patch('/me', updateMyOrganization);
+router.post('/me/invitations', inviteMember);
+router.delete('/me/invitations/:id', revokeInvitation);
+router.patch('/me/members/:userId', updateMemberRole);
+router.delete('/me/members/:userId', removeMember);
+
+export default router;
@@ -0,0 +1,21 @@
+import express from 'express';
+import {
+  getMySavedSearches,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+} from '../controllers/savedSearchController.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Saved vehicle searches belong to accounts that can browse vehicles
+router.use(authenticate);
+router.use(requirePermission('vehicle:browse'));
+
+router.get('/', getMySavedSearches);
+router.post('/', createSavedSearch);
+router.put('/:id', updateSavedSearch);
+router.delete('/:id', deleteSavedSearch);
+
+export default router;
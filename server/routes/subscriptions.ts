@@ -34,41 +34,41 @@ import {
   updateSubscriptionRequest,
   getUserSubscriptionRequests,
 } from '../controllers/subscriptionController.js';
-import { authenticate, authorize } from '../middleware/auth.js';
+import { authenticate, requirePermission, forbidImpersonation } from '../middleware/auth.js';
 
 const router = express.Router();
 
 // Subscription Plan Routes
-router.get('/plans', authenticate, authorize('admin'), getAllPlans);
+router.get('/plans', authenticate, requirePermission('subscription:manage'), getAllPlans);
 router.get('/plans/active', getActivePlans); // Public route for landing page
 router.get('/plans/:id', authenticate, getPlanById);
-router.post('/plans', authenticate, authorize('admin'), createPlan);
-router.put('/plans/:id', authenticate, authorize('admin'), updatePlan);
-router.put('/plans/:id/toggle-status', authenticate, authorize('admin'), togglePlanStatus);
+router.post('/plans', authenticate, requirePermission('subscription:manage'), createPlan);
+router.put('/plans/:id', authenticate, requirePermission('subscription:manage'), updatePlan);
+router.put('/plans/:id/toggle-status', authenticate, requirePermission('subscription:manage'), togglePlanStatus);
 
 // User Subscription Routes
-router.get('/user', authenticate, authorize('admin'), getAllUserSubscriptions);
+router.get('/user', authenticate, requirePermission('subscription:manage'), getAllUserSubscriptions);
 router.get('/user/:userId', authenticate, getUserSubscription);
-router.post('/assign', authenticate, authorize('admin'), assignSubscription);
-router.put('/continue', authenticate, continueOwnSubscription); // User can continue their own subscription
-router.put('/:id/extend', authenticate, authorize('admin'), extendSubscription);
-router.put('/:id/change-plan', authenticate, authorize('admin'), changePlan);
-router.put('/:id/reset-browse', authenticate, authorize('admin'), resetBrowseCount);
-router.put('/:id/suspend', authenticate, authorize('admin'), suspendSubscription);
-router.put('/:id/reactivate', authenticate, authorize('admin'), reactivateSubscription);
-router.delete('/:id', authenticate, authorize('admin'), cancelSubscription);
+router.post('/assign', authenticate, requirePermission('subscription:manage'), assignSubscription);
+router.put('/continue', authenticate, forbidImpersonation, continueOwnSubscription); // User can continue their own subscription
+router.put('/:id/extend', authenticate, requirePermission('subscription:manage'), extendSubscription);
+router.put('/:id/change-plan', authenticate, requirePermission('subscription:manage'), changePlan);
+router.put('/:id/reset-browse', authenticate, requirePermission('subscription:manage'), resetBrowseCount);
+router.put('/:id/suspend', authenticate, requirePermission('subscription:manage'), suspendSubscription);
+router.put('/:id/reactivate', authenticate, requirePermission('subscription:manage'), reactivateSubscription);
+router.delete('/:id', authenticate, requirePermission('subscription:manage'), cancelSubscription);
 
 // Stats & Analytics Routes
 router.get('/user/:userId/usage', authenticate, getUsageStats);
-router.get('/stats', authenticate, authorize('admin'), getGlobalStats);
-router.get('/plan-stats', authenticate, authorize('admin'), getPlanStats);
-router.get('/filtered', authenticate, authorize('admin'), getFilteredSubscriptions);
+router.get('/stats', authenticate, requirePermission('stats:read'), getGlobalStats);
+router.get('/plan-stats', authenticate, requirePermission('subscription:manage'), getPlanStats);
+router.get('/filtered', authenticate, requirePermission('subscription:manage'), getFilteredSubscriptions);
 
 // Subscription Requests Routes
-router.post('/requests', authenticate, createSubscriptionRequest);
-router.get('/requests', authenticate, authorize('admin'), getAllSubscriptionRequests);
+router.post('/requests', authenticate, forbidImpersonation, createSubscriptionRequest);
+router.get('/requests', authenticate, requirePermission('subscription:review'), getAllSubscriptionRequests);
 router.get('/requests/my', authenticate, getUserSubscriptionRequests);
-router.put('/requests/:id', authenticate, authorize('admin'), updateSubscriptionRequest);
+router.put('/requests/:id', authenticate, requirePermission('subscription:review'), updateSubscriptionRequest);
 
 // Subscription Enforcement Routes
 router.get('/check/browse-limit', authenticate, checkBrowseLimit);
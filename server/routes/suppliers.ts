@@ -9,7 +9,7 @@ import {
   getSupplierStats,
   toggleVerification,
 } from '../controllers/supplierController.js';
-import { protect, restrictTo, optionalAuth } from '../middleware/auth.js';
+import { protect, requirePermission, optionalAuth } from '../middleware/auth.js';
 
 const router = express.Router();
 
@@ -17,15 +17,15 @@ const router = express.Router();
 router.get('/', optionalAuth, getAllSuppliers);
 
 // Protected specific routes MUST come before :id
-router.get('/stats', protect, restrictTo('admin'), getSupplierStats);
+router.get('/stats', protect, requirePermission('supplier:moderate'), getSupplierStats);
 router.get('/my/listings', protect, getMySuppliers);
 
 // Public dynamic route
 router.get('/:id', getSupplierById);
 
 // Protected CRUD operations
-router.post('/', protect, createSupplier);
-router.put('/:id/toggle-verification', protect, restrictTo('admin'), toggleVerification);
+router.post('/', protect, requirePermission('product:create'), createSupplier);
+router.put('/:id/toggle-verification', protect, requirePermission('supplier:moderate'), toggleVerification);
 router.put('/:id', protect, updateSupplier);
 router.delete('/:id', protect, deleteSupplier);
 
@@ -4,8 +4,11 @@ import {
   getUserById,
   getUserProfile,
   updateUserProfile,
+  exportMyData,
+  deleteMyAccount,
+  cancelMyAccountDeletion,
 } from '../controllers/userController.js';
-import { authenticate, optionalAuth } from '../middleware/auth.js';
+import { authenticate, optionalAuth, forbidImpersonation } from '../middleware/auth.js';
 
 const router = express.Router();
 
@@ -14,6 +17,9 @@ router.get('/', optionalAuth, getUsers);
 
 // Protected routes
 router.get('/profile', authenticate, getUserProfile);
+router.get('/me/export', authenticate, forbidImpersonation, exportMyData);
+router.delete('/me', authenticate, forbidImpersonation, deleteMyAccount);
+router.post('/me/cancel-deletion', authenticate, forbidImpersonation, cancelMyAccountDeletion);
 router.get('/:id', optionalAuth, getUserById);
 router.put('/profile', authenticate, updateUserProfile);
 router.patch('/profile', authenticate, updateUserProfile);
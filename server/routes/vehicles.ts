@@ -8,25 +8,47 @@ import {
   getPriorityListings,
   getRecentListings,
   getMyListings,
+  updateVehicleStatus,
+  renewVehicle,
+  compareVehicles,
 } from '../controllers/vehicleController.js';
-import { authenticate, authorize, optionalAuth } from '../middleware/auth.js';
+import { makeOffer, getVehicleOffers } from '../controllers/offerController.js';
+import {
+  uploadVehicleDocument,
+  getVehicleDocuments,
+  downloadVehicleDocument,
+} from '../controllers/vehicleDocumentController.js';
+import { uploadDocument } from '../middleware/upload.js';
+import { authenticate, authenticateVerified, requirePermission, optionalAuth } from '../middleware/auth.js';
 
 const router = express.Router();
 
 // Public routes - order matters! Specific routes before dynamic :id
 router.get('/priority', getPriorityListings);
 router.get('/recent', getRecentListings);
+router.get('/compare', optionalAuth, compareVehicles);
 
 // Protected routes - must be before :id route
-router.get('/my/listings', authenticate, authorize('institute'), getMyListings);
+router.get('/my/listings', authenticate, requirePermission('vehicle:create'), getMyListings);
 
 // General routes
 router.get('/', optionalAuth, getVehicles);
 router.get('/:id', optionalAuth, getVehicle);
 
 // Protected CRUD operations
-router.post('/', authenticate, authorize('institute', 'admin'), createVehicle);
-router.put('/:id', authenticate, authorize('institute', 'admin'), updateVehicle);
-router.delete('/:id', authenticate, authorize('institute', 'admin'), deleteVehicle);
+router.post('/', authenticateVerified, requirePermission('vehicle:create'), createVehicle);
+router.put('/:id', authenticate, requirePermission('vehicle:manage'), updateVehicle);
+router.delete('/:id', authenticate, requirePermission('vehicle:manage'), deleteVehicle);
+router.patch('/:id/status', authenticate, requirePermission('vehicle:manage'), updateVehicleStatus);
+router.post('/:id/renew', authenticate, requirePermission('vehicle:manage'), renewVehicle);
+
+// Documents for verification (owner and moderators only)
+router.get('/:id/documents', authenticate, getVehicleDocuments);
+router.post('/:id/documents', authenticate, requirePermission('vehicle:manage'), uploadDocument, uploadVehicleDocument);
+router.get('/:id/documents/:documentId/file', authenticate, downloadVehicleDocument);
+
+// Offers and negotiation (responses go through /api/offers)
+router.get('/:id/offers', authenticate, getVehicleOffers);
+router.post('/:id/offers', authenticateVerified, requirePermission('vehicle:browse'), makeOffer);
 
 export default router;
@@ -0,0 +1,13 @@
+import express from 'express';
+import { getWatchlist, addToWatchlist, removeFromWatchlist } from '../controllers/watchlistController.js';
+import { authenticate } from '../middleware/auth.js';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+router.get('/', getWatchlist);
+router.post('/', addToWatchlist);
+router.delete('/:targetType/:targetId', removeFromWatchlist);
+
+export default router;
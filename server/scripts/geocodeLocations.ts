@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+import { connectDB } from '../config/database.js';
+import Vehicle from '../models/Vehicle.js';
+import Job from '../models/Job.js';
+import Supplier from '../models/Supplier.js';
+import User from '../models/User.js';
+
+// Geocode vehicles, jobs, suppliers and users saved before radius search
+// existed (or after the pincode dataset changed) so they show up in
+// near=lat,lng searches: npm run geocode:locations
+const geocodeCollection = async (label: string, model: mongoose.Model<any>) => {
+  let total = 0;
+  let updated = 0;
+  let unplaced = 0;
+
+  for await (const doc of model.find().cursor()) {
+    total += 1;
+    if (doc.refreshGeo()) {
+      // Older records may not pass today's validators; only the point is written
+      await doc.save({ validateBeforeSave: false });
+      updated += 1;
+    }
+    if (!doc.geo?.coordinates) {
+      unplaced += 1;
+    }
+  }
+
+  console.log(`${label}: geocoded ${updated} of ${total}, ${unplaced} without a recognisable pincode or city`);
+};
+
+const geocodeLocations = async () => {
+  try {
+    await connectDB();
+    console.log('Connected to MongoDB');
+
+    await geocodeCollection('Vehicles', Vehicle);
+    await geocodeCollection('Jobs', Job);
+    await geocodeCollection('Suppliers', Supplier);
+    await geocodeCollection('Users', User);
+
+    process.exit(0);
+  } catch (error) {
+    console.error('Error geocoding locations:', error);
+    process.exit(1);
+  }
+};
+
+geocodeLocations();
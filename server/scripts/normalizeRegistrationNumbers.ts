@@ -0,0 +1,41 @@
+import { connectDB } from '../config/database.js';
+import Vehicle from '../models/Vehicle.js';
+import { normalizeRegistrationNumber, isValidRegistrationNumber } from '../utils/registrationNumber.js';
+
+// Rewrite registration numbers saved before normalisation ("KA 01 AB-1234" ->
+// "KA01AB1234") so duplicate detection matches them, and list the ones that
+// are not valid Indian numbers for manual follow-up: npm run normalize:registrations
+const normalizeRegistrationNumbers = async () => {
+  try {
+    await connectDB();
+    console.log('Connected to MongoDB');
+
+    const vehicles = await Vehicle.find().select('title registrationNumber status').lean();
+    let updated = 0;
+    const invalid: string[] = [];
+
+    for (const vehicle of vehicles) {
+      const normalized = normalizeRegistrationNumber(vehicle.registrationNumber);
+      if (normalized !== vehicle.registrationNumber) {
+        await Vehicle.updateOne({ _id: vehicle._id }, { $set: { registrationNumber: normalized } });
+        updated += 1;
+      }
+      if (!isValidRegistrationNumber(normalized)) {
+        invalid.push(`${vehicle._id} ${normalized} (${vehicle.status}) ${vehicle.title}`);
+      }
+    }
+
+    console.log(`Normalised ${updated} of ${vehicles.length} registration number(s)`);
+    if (invalid.length > 0) {
+      console.log(`${invalid.length} listing(s) with an invalid registration number:`);
+      invalid.forEach((line) => console.log(`  ${line}`));
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error('Error normalising registration numbers:', error);
+    process.exit(1);
+  }
+};
+
+normalizeRegistrationNumbers();
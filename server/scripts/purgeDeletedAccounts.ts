@@ -0,0 +1,22 @@
+import { connectDB } from '../config/database.js';
+import { purgeDueAccounts } from '../services/accountDeletion.js';
+
+// Anonymise accounts whose deletion grace period has ended.
+// The scheduler runs this daily (account-purge job); to run it by hand:
+// npm run purge:accounts
+const purgeDeletedAccounts = async () => {
+  try {
+    await connectDB();
+    console.log('Connected to MongoDB');
+
+    const count = await purgeDueAccounts();
+    console.log(`Anonymised ${count} account(s) past their deletion grace period`);
+
+    process.exit(0);
+  } catch (error) {
+    console.error('Error purging deleted accounts:', error);
+    process.exit(1);
+  }
+};
+
+purgeDeletedAccounts();
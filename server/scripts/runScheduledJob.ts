@@ -0,0 +1,34 @@
+import { connectDB } from '../config/database.js';
+import { runJobNow, listJobDefinitions } from '../services/scheduler.js';
+import '../services/scheduledJobs.js';
+
+// Run one background job by hand against the configured database, outside
+// its schedule (the lock still applies): npm run job:run -- listing-expiry
+const runScheduledJob = async () => {
+  const name = process.argv[2];
+  const names = listJobDefinitions().map((definition) => definition.name);
+
+  if (!name || !names.includes(name)) {
+    console.error(`Usage: npm run job:run -- <${names.join('|')}>`);
+    process.exit(1);
+  }
+
+  try {
+    await connectDB();
+    console.log('Connected to MongoDB');
+
+    const run = await runJobNow(name);
+    if (!run) {
+      console.error(`Job "${name}" is already running on another instance`);
+      process.exit(1);
+    }
+
+    console.log(`Job "${name}" ${run.status} in ${run.durationMs}ms`, run.error ?? run.result ?? '');
+    process.exit(run.status === 'succeeded' ? 0 : 1);
+  } catch (error) {
+    console.error('Error running scheduled job:', error);
+    process.exit(1);
+  }
+};
+
+runScheduledJob();
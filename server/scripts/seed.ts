@@ -127,7 +127,8 @@ async function clearDatabase() {
 async function seedUsers() {
   log.section('Seeding Users');
   try {
-    const users = await User.insertMany(usersData);
+    // Demo accounts are pre-verified so they can post listings straight away
+    const users = await User.insertMany(usersData.map((user) => ({ ...user, isVerified: true })));
     log.success(`Created ${users.length} users`);
     log.info(`- ${users.filter(u => u.role === 'admin').length} admin users`);
     log.info(`- ${users.filter(u => u.role === 'institute').length} institute users`);
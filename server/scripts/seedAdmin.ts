@@ -36,6 +36,7 @@ const seedAdmin = async () => {
     console.log('Email: admin@edufleet.com');
     console.log('Password: admin123');
     console.log('Role: admin');
+    console.log('Note: with REQUIRE_ADMIN_2FA=true, 2FA enrollment is required after first login');
     console.log('\nAdmin ID:', admin._id);
 
     process.exit(0);
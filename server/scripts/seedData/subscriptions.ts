@@ -12,6 +12,7 @@ interface SubscriptionPlanSeed {
     maxListings: number;
     maxJobPosts: number;
     maxBrowsesPerMonth: number;
+    listingLifetimeDays?: number;
     dataDelayDays: number;
     teacherDataDelayDays: number;
     canAdvertiseVehicles: boolean;
@@ -57,6 +58,7 @@ export const subscriptionPlansData: SubscriptionPlanSeed[] = [
     duration: 30,
     features: {
       maxListings: 5,
+      listingLifetimeDays: 30,
       maxJobPosts: 5,
       maxBrowsesPerMonth: 50,
       dataDelayDays: 5,
@@ -79,6 +81,7 @@ export const subscriptionPlansData: SubscriptionPlanSeed[] = [
     duration: 30,
     features: {
       maxListings: 20,
+      listingLifetimeDays: 60,
       maxJobPosts: 20,
       maxBrowsesPerMonth: 150,
       dataDelayDays: 2,
@@ -101,6 +104,7 @@ export const subscriptionPlansData: SubscriptionPlanSeed[] = [
     duration: 30,
     features: {
       maxListings: 100,
+      listingLifetimeDays: 90,
       maxJobPosts: 100,
       maxBrowsesPerMonth: 1000,
       dataDelayDays: 0,
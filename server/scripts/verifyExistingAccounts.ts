@@ -0,0 +1,31 @@
+import { connectDB } from '../config/database.js';
+import User from '../models/User.js';
+
+// Grandfather accounts created before email verification existed, so they can
+// keep posting listings, jobs and offers: npm run verify:existing-accounts.
+// Accounts that signed up since were sent a verification email (and have
+// emailVerificationSentAt set); those still have to confirm their address.
+const verifyExistingAccounts = async () => {
+  try {
+    await connectDB();
+    console.log('Connected to MongoDB');
+
+    const result = await User.updateMany(
+      {
+        isVerified: false,
+        emailVerificationSentAt: { $exists: false },
+        emailVerificationToken: { $exists: false },
+        deletedAt: { $exists: false },
+      },
+      { $set: { isVerified: true } }
+    );
+
+    console.log(`Marked ${result.modifiedCount} existing account(s) as verified`);
+    process.exit(0);
+  } catch (error) {
+    console.error('Error verifying existing accounts:', error);
+    process.exit(1);
+  }
+};
+
+verifyExistingAccounts();
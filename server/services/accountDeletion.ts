@@ -0,0 +1,172 @@
+/**
+ * Account Deletion Service
+ * Self-service deletion with a grace period, then anonymisation.
+ *
+ * The User document is kept (anonymised) so that applications, subscription
+ * requests and other records held by counterparties still resolve. Owned
+ * listings are withdrawn and their contact details scrubbed.
+ */
+
+import mongoose from 'mongoose';
+import User from '../models/User.js';
+import Application from '../models/Application.js';
+import Notification from '../models/Notification.js';
+import Vehicle, { vehicleStatusUpdate } from '../models/Vehicle.js';
+import Job from '../models/Job.js';
+import Supplier from '../models/Supplier.js';
+import Session from '../models/Session.js';
+import Organization from '../models/Organization.js';
+import OrganizationInvitation from '../models/OrganizationInvitation.js';
+import Message from '../models/Message.js';
+import Offer from '../models/Offer.js';
+import VehicleDocumentUpload from '../models/VehicleDocumentUpload.js';
+import SavedSearch from '../models/SavedSearch.js';
+import Watch from '../models/Watch.js';
+import { ENV } from '../config/environment.js';
+import { clearAccountLockout } from './loginProtection.js';
+import { recordAudit } from './auditLog.js';
+import { revokeUserApiKeys } from './apiKeyService.js';
+
+type Id = string | mongoose.Types.ObjectId;
+
+export const DELETED_USER_NAME = 'Deleted user';
+
+const placeholderEmail = (userId: Id): string => `deleted-${userId.toString()}@deleted.invalid`;
+
+// Returns the date the account will be anonymised
+export const scheduleAccountDeletion = async (userId: Id): Promise<Date> => {
+  const scheduledFor = new Date(Date.now() + ENV.ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+
+  await User.updateOne(
+    { _id: userId },
+    { $set: { deletionRequestedAt: new Date(), deletionScheduledFor: scheduledFor } }
+  );
+
+  return scheduledFor;
+};
+
+// Returns false if no deletion was pending
+export const cancelAccountDeletion = async (userId: Id): Promise<boolean> => {
+  const result = await User.updateOne(
+    { _id: userId, deletionScheduledFor: { $exists: true }, deletedAt: { $exists: false } },
+    { $unset: { deletionRequestedAt: 1, deletionScheduledFor: 1 } }
+  );
+  return result.modifiedCount > 0;
+};
+
+// Strip personal data from a user and everything they own
+export const anonymiseAccount = async (userId: Id): Promise<void> => {
+  const user = await User.findById(userId).select('email');
+  if (!user) {
+    return;
+  }
+
+  const originalEmail = user.email;
+  const email = placeholderEmail(user._id);
+
+  // Bypass validation: an anonymised account has neither password nor Google id
+  await User.updateOne(
+    { _id: user._id },
+    {
+      $set: {
+        name: DELETED_USER_NAME,
+        email,
+        isActive: false,
+        isAvailable: false,
+        instituteSearchability: false,
+        deletedAt: new Date(),
+        twoFactor: { enabled: false },
+      },
+      $unset: {
+        password: 1,
+        googleId: 1,
+        instituteName: 1,
+        contactPerson: 1,
+        avatar: 1,
+        phone: 1,
+        address: 1,
+        geo: 1,
+        bio: 1,
+        location: 1,
+        qualifications: 1,
+        subjects: 1,
+        experience: 1,
+        profile: 1,
+        passwordResetToken: 1,
+        passwordResetExpires: 1,
+        emailVerificationToken: 1,
+        emailVerificationExpires: 1,
+        deletionScheduledFor: 1,
+      },
+    }
+  );
+
+  await Promise.all([
+    // Listings are withdrawn rather than deleted so enquiries and history still resolve
+    Vehicle.updateMany(
+      { sellerId: user._id },
+      { $set: { sellerName: DELETED_USER_NAME, sellerEmail: email }, $unset: { sellerPhone: 1 } }
+    ),
+    Vehicle.updateMany(
+      { sellerId: user._id, status: { $in: ['pending', 'approved', 'reserved'] } },
+      vehicleStatusUpdate('withdrawn', user._id, 'Account deleted')
+    ),
+    Job.updateMany(
+      { instituteId: user._id },
+      { $set: { status: 'closed', contactEmail: email }, $unset: { contactPhone: 1 } }
+    ),
+    Supplier.updateMany(
+      { createdBy: user._id },
+      { $set: { status: 'withdrawn', contactPerson: DELETED_USER_NAME, email, phone: '' } }
+    ),
+    // Institutes keep the application record, without the teacher's personal content
+    Application.updateMany(
+      { teacherId: user._id },
+      { $set: { teacherName: DELETED_USER_NAME, coverLetter: '' } }
+    ),
+    // Threads stay with the other participant, without what this user wrote
+    Message.updateMany({ senderId: user._id }, { $set: { body: '', attachments: [] } }),
+    Offer.updateMany({ buyerId: user._id }, { $set: { buyerName: DELETED_USER_NAME } }),
+    Offer.updateMany({ buyerId: user._id, status: { $in: ['pending', 'countered'] } }, { $set: { status: 'withdrawn' } }),
+    // Uploaded vehicle papers are personal documents with no use after the listing is withdrawn
+    VehicleDocumentUpload.deleteMany({ sellerId: user._id }),
+    Vehicle.updateMany({ sellerId: user._id }, { $set: { documentVerifications: [] } }),
+    SavedSearch.deleteMany({ userId: user._id }),
+    Watch.deleteMany({ userId: user._id }),
+    Notification.deleteMany({ userId: user._id }),
+    Session.deleteMany({ userId: user._id }),
+    revokeUserApiKeys(user._id),
+    Organization.updateMany({ 'members.userId': user._id }, { $pull: { members: { userId: user._id } } }),
+    OrganizationInvitation.updateMany(
+      { email: originalEmail, acceptedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    ),
+    clearAccountLockout(originalEmail),
+  ]);
+
+  // An owner's organization cannot outlive them
+  const owned = await Organization.findOneAndDelete({ ownerId: user._id });
+  if (owned) {
+    await OrganizationInvitation.deleteMany({ organizationId: owned._id });
+  }
+
+  await recordAudit({ action: 'account.anonymised', actorId: user._id, subjectUserId: user._id });
+};
+
+// Anonymise every account whose grace period has ended. Returns how many were processed.
+export const purgeDueAccounts = async (now = new Date()): Promise<number> => {
+  const due = await User.find({
+    deletionScheduledFor: { $lte: now },
+    deletedAt: { $exists: false },
+  }).select('_id');
+
+  for (const user of due) {
+    try {
+      await anonymiseAccount(user._id);
+    } catch (error) {
+      console.error(`Failed to anonymise account ${user._id}:`, error);
+    }
+  }
+
+  return due.length;
+};
@@ -0,0 +1,126 @@
+/**
+ * API Key Service
+ * Issues, verifies and revokes API keys for server-to-server integrations.
+ *
+ * - Keys look like `efx_<40 hex chars>`; only their SHA-256 hash is stored.
+ * - The raw key is returned once, at creation.
+ * - A key acts as the user who created it, limited to its scopes
+ *   (see API_KEY_SCOPES in config/permissions.ts).
+ */
+
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import ApiKey, { IApiKey } from '../models/ApiKey.js';
+import { API_KEY_SCOPE_ROUTES, ApiKeyScope } from '../config/permissions.js';
+import { ENV } from '../config/environment.js';
+import { hashToken } from '../utils/tokens.js';
+
+type Id = string | mongoose.Types.ObjectId;
+
+const KEY_PREFIX = 'efx_';
+// Characters of the key kept in clear for display
+const DISPLAY_PREFIX_LENGTH = 12;
+// How often lastUsedAt is written while a key is being used
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+export interface NewApiKey {
+  name: string;
+  scopes: ApiKeyScope[];
+  organizationId?: Id;
+  expiresAt?: Date;
+}
+
+// Returns the saved key and the raw key, which cannot be recovered later
+export const createApiKey = async (userId: Id, input: NewApiKey): Promise<{ apiKey: IApiKey; key: string }> => {
+  const key = `${KEY_PREFIX}${crypto.randomBytes(20).toString('hex')}`;
+
+  const apiKey = await ApiKey.create({
+    userId,
+    organizationId: input.organizationId,
+    name: input.name,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashToken(key),
+    scopes: [...new Set(input.scopes)],
+    expiresAt: input.expiresAt,
+  });
+
+  return { apiKey, key };
+};
+
+export const countActiveApiKeys = async (userId: Id): Promise<number> => {
+  return ApiKey.countDocuments({
+    userId,
+    revokedAt: { $exists: false },
+    $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: new Date() } }],
+  });
+};
+
+// Look up a live key from its raw value, recording activity
+export const findActiveApiKey = async (key: string, ipAddress?: string): Promise<IApiKey | null> => {
+  const apiKey = await ApiKey.findOne({
+    keyHash: hashToken(key),
+    revokedAt: { $exists: false },
+    $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: new Date() } }],
+  });
+
+  if (apiKey && (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS)) {
+    apiKey.lastUsedAt = new Date();
+    apiKey.lastUsedIp = ipAddress;
+    await apiKey.save();
+  }
+
+  return apiKey;
+};
+
+// Whether a key's scopes cover a request to the router mounted at baseUrl
+export const apiKeyAllowsRequest = (scopes: ApiKeyScope[], method: string, baseUrl: string): boolean => {
+  const resource = Object.keys(API_KEY_SCOPE_ROUTES).find(
+    (name) => baseUrl === `${ENV.API_PREFIX}${API_KEY_SCOPE_ROUTES[name]}`
+  );
+  if (!resource) {
+    return false;
+  }
+
+  if (scopes.includes(`${resource}:write` as ApiKeyScope)) {
+    return true;
+  }
+
+  return READ_METHODS.includes(method) && scopes.includes(`${resource}:read` as ApiKeyScope);
+};
+
+// Keys a user can see: their own, plus every key of an organization they manage
+export const listApiKeys = async (userId: Id, managedOrganizationId?: Id): Promise<IApiKey[]> => {
+  const filter = managedOrganizationId
+    ? { $or: [{ userId }, { organizationId: managedOrganizationId }] }
+    : { userId };
+
+  return ApiKey.find(filter).populate('userId', 'name email').sort({ createdAt: -1 });
+};
+
+// Revoke one key visible to the user. Returns false if it was not found.
+export const revokeApiKey = async (userId: Id, keyId: string, managedOrganizationId?: Id): Promise<boolean> => {
+  if (!mongoose.isValidObjectId(keyId)) {
+    return false;
+  }
+
+  const owner = managedOrganizationId
+    ? { $or: [{ userId }, { organizationId: managedOrganizationId }] }
+    : { userId };
+
+  const result = await ApiKey.updateOne(
+    { _id: keyId, revokedAt: { $exists: false }, ...owner },
+    { $set: { revokedAt: new Date(), revokedBy: userId } }
+  );
+  return result.modifiedCount > 0;
+};
+
+// Revoke every key of a user, optionally only those issued for one organization
+export const revokeUserApiKeys = async (userId: Id, organizationId?: Id): Promise<number> => {
+  const result = await ApiKey.updateMany(
+    { userId, revokedAt: { $exists: false }, ...(organizationId ? { organizationId } : {}) },
+    { $set: { revokedAt: new Date() } }
+  );
+  return result.modifiedCount;
+};
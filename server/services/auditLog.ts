@@ -0,0 +1,35 @@
+/**
+ * Audit Log Service
+ * Records sensitive actions (impersonation and writes made while impersonating)
+ */
+
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import AuditLog from '../models/AuditLog.js';
+
+type Id = string | mongoose.Types.ObjectId;
+
+export interface AuditEntry {
+  action: string;
+  actorId: Id;
+  subjectUserId?: Id;
+  sessionId?: Id;
+  statusCode?: number;
+  metadata?: Record<string, unknown>;
+}
+
+// Write an audit entry. Failures are logged, never thrown: the request that
+// triggered the entry has usually completed already.
+export const recordAudit = async (entry: AuditEntry, req?: Request): Promise<void> => {
+  try {
+    await AuditLog.create({
+      ...entry,
+      method: req?.method,
+      path: req?.originalUrl,
+      ipAddress: req?.ip,
+      userAgent: req?.get('user-agent')?.slice(0, 512),
+    });
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+};
@@ -0,0 +1,189 @@
+/**
+ * Conversation Service
+ * Buyer–seller messaging on listings (vehicles, suppliers).
+ *
+ * Unread counts are kept per side on the Conversation so inboxes never have
+ * to count messages. Every new message notifies the other side through a
+ * `message` Notification.
+ */
+
+import mongoose from 'mongoose';
+import Conversation, { ConversationSide, ConversationSubjectType, IConversation } from '../models/Conversation.js';
+import Message, { IMessage, IMessageAttachment } from '../models/Message.js';
+import Notification from '../models/Notification.js';
+import Vehicle from '../models/Vehicle.js';
+import Supplier from '../models/Supplier.js';
+import { IUser } from '../models/User.js';
+import { findMembership, roleHasCapability, canManageInstituteRecord } from './organizationService.js';
+
+type Id = string | mongoose.Types.ObjectId;
+
+export const CONVERSATION_SUBJECT_TYPES: ConversationSubjectType[] = ['vehicle', 'supplier'];
+
+const PREVIEW_LENGTH = 120;
+
+export interface ConversationSubject {
+  sellerId: mongoose.Types.ObjectId;
+  title: string;
+  contact: { name?: string; email?: string; phone?: string };
+}
+
+// The listing a conversation is about, if it can currently receive inquiries
+export const findConversationSubject = async (
+  subjectType: ConversationSubjectType,
+  subjectId: Id,
+  { approvedOnly = true } = {}
+): Promise<ConversationSubject | null> => {
+  if (!mongoose.isValidObjectId(subjectId)) {
+    return null;
+  }
+
+  if (subjectType === 'vehicle') {
+    const vehicle = await Vehicle.findById(subjectId);
+    if (!vehicle || (approvedOnly && vehicle.status !== 'approved')) return null;
+    return {
+      sellerId: vehicle.sellerId,
+      title: vehicle.title,
+      contact: { name: vehicle.sellerName, email: vehicle.sellerEmail, phone: vehicle.sellerPhone },
+    };
+  }
+
+  const supplier = await Supplier.findById(subjectId);
+  if (!supplier || (approvedOnly && supplier.status !== 'approved')) return null;
+  return {
+    sellerId: supplier.createdBy,
+    title: supplier.name,
+    contact: { name: supplier.contactPerson, email: supplier.email, phone: supplier.phone },
+  };
+};
+
+// Seller accounts whose inbox a user reads: their own, plus their organization
+// owner's if their role manages vehicles
+export const sellerAccountIds = async (userId: Id): Promise<string[]> => {
+  const ids = [userId.toString()];
+  const membership = await findMembership(userId);
+
+  if (
+    membership &&
+    membership.organization.ownerId.toString() !== userId.toString() &&
+    roleHasCapability(membership.member.role, 'manage_vehicles')
+  ) {
+    ids.push(membership.organization.ownerId.toString());
+  }
+
+  return ids;
+};
+
+// Which side of the conversation a user is on, or null if they are not a participant
+export const conversationSide = async (
+  user: IUser,
+  conversation: IConversation
+): Promise<ConversationSide | null> => {
+  if (conversation.buyerId.toString() === user._id.toString()) {
+    return 'buyer';
+  }
+
+  if (conversation.subjectType === 'vehicle') {
+    return (await canManageInstituteRecord(user, conversation.sellerId, 'manage_vehicles')) ? 'seller' : null;
+  }
+
+  return conversation.sellerId.toString() === user._id.toString() ? 'seller' : null;
+};
+
+// Find the buyer's thread for a listing, starting one if needed
+export const findOrStartConversation = async (
+  subjectType: ConversationSubjectType,
+  subjectId: Id,
+  subject: ConversationSubject,
+  buyerId: Id
+): Promise<IConversation> => {
+  // Upsert so two first messages sent at once do not create two threads
+  const conversation = await Conversation.findOneAndUpdate(
+    { subjectType, subjectId, buyerId },
+    { $setOnInsert: { subjectTitle: subject.title, sellerId: subject.sellerId } },
+    { new: true, upsert: true }
+  );
+  return conversation!;
+};
+
+export const postMessage = async (
+  conversation: IConversation,
+  sender: IUser,
+  side: ConversationSide,
+  body: string,
+  attachments: IMessageAttachment[] = []
+): Promise<IMessage> => {
+  const message = await Message.create({
+    conversationId: conversation._id,
+    senderId: sender._id,
+    senderSide: side,
+    body,
+    attachments,
+  });
+
+  const preview = body ? body.slice(0, PREVIEW_LENGTH) : `${attachments.length} attachment(s)`;
+  const unreadField = side === 'buyer' ? 'sellerUnreadCount' : 'buyerUnreadCount';
+
+  await Conversation.updateOne(
+    { _id: conversation._id },
+    {
+      $set: { lastMessageAt: message.createdAt, lastMessagePreview: preview },
+      $inc: { [unreadField]: 1 },
+    }
+  );
+
+  await Notification.create({
+    userId: side === 'buyer' ? conversation.sellerId : conversation.buyerId,
+    type: 'message',
+    title: `New message about ${conversation.subjectTitle}`,
+    message: `${sender.name}: ${preview}`,
+    link: `/messages/${conversation._id}`,
+    metadata: { conversationId: conversation._id, messageId: message._id },
+  });
+
+  return message;
+};
+
+export const markConversationRead = async (conversationId: Id, side: ConversationSide): Promise<void> => {
+  await Conversation.updateOne(
+    { _id: conversationId },
+    { $set: { [side === 'buyer' ? 'buyerUnreadCount' : 'sellerUnreadCount']: 0 } }
+  );
+};
+
+// Unread messages across a user's buying and selling inboxes
+export const countUnreadMessages = async (userId: Id): Promise<{ buying: number; selling: number }> => {
+  const sellerIds = (await sellerAccountIds(userId)).map((id) => new mongoose.Types.ObjectId(id));
+
+  const [buying, selling] = await Promise.all([
+    Conversation.aggregate([
+      { $match: { buyerId: new mongoose.Types.ObjectId(userId.toString()) } },
+      { $group: { _id: null, total: { $sum: '$buyerUnreadCount' } } },
+    ]),
+    Conversation.aggregate([
+      { $match: { sellerId: { $in: sellerIds } } },
+      { $group: { _id: null, total: { $sum: '$sellerUnreadCount' } } },
+    ]),
+  ]);
+
+  return { buying: buying[0]?.total ?? 0, selling: selling[0]?.total ?? 0 };
+};
+
+// Whether the seller of a vehicle has shared their contact details with this user
+export const isSellerContactRevealed = async (vehicleId: Id, userId: Id): Promise<boolean> => {
+  return !!(await Conversation.exists({
+    subjectType: 'vehicle',
+    subjectId: vehicleId,
+    buyerId: userId,
+    contactRevealedAt: { $exists: true },
+  }));
+};
+
+// Whether a seller has shared their contact details with this user on any listing
+export const hasSellerRevealedContactTo = async (sellerId: Id, userId: Id): Promise<boolean> => {
+  return !!(await Conversation.exists({
+    sellerId,
+    buyerId: userId,
+    contactRevealedAt: { $exists: true },
+  }));
+};
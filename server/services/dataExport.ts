@@ -0,0 +1,81 @@
+/**
+ * Personal Data Export
+ * Collects everything held about a user into one JSON bundle
+ */
+
+import mongoose from 'mongoose';
+import User from '../models/User.js';
+import Application from '../models/Application.js';
+import Notification from '../models/Notification.js';
+import Vehicle from '../models/Vehicle.js';
+import Job from '../models/Job.js';
+import Supplier from '../models/Supplier.js';
+import SubscriptionRequest from '../models/SubscriptionRequest.js';
+import ApiKey from '../models/ApiKey.js';
+import Conversation from '../models/Conversation.js';
+import Message from '../models/Message.js';
+import Offer from '../models/Offer.js';
+import VehicleDocumentUpload from '../models/VehicleDocumentUpload.js';
+import SavedSearch from '../models/SavedSearch.js';
+import Watch from '../models/Watch.js';
+
+export const EXPORT_FORMAT_VERSION = 1;
+
+export const buildPersonalDataExport = async (userId: string | mongoose.Types.ObjectId) => {
+  // Secrets (password hash, token hashes, 2FA secrets) are select:false and stay out
+  const [
+    profile,
+    applications,
+    notifications,
+    vehicles,
+    jobs,
+    suppliers,
+    subscriptionRequests,
+    apiKeys,
+    conversations,
+    messages,
+    offers,
+    vehicleDocuments,
+    savedSearches,
+    watchlist,
+  ] = await Promise.all([
+    User.findById(userId).select('-password').populate('subscription.planId', 'name displayName').lean(),
+    Application.find({ $or: [{ teacherId: userId }, { instituteId: userId }] }).lean(),
+    Notification.find({ userId }).lean(),
+    Vehicle.find({ sellerId: userId }).lean(),
+    Job.find({ instituteId: userId }).lean(),
+    Supplier.find({ createdBy: userId }).lean(),
+    SubscriptionRequest.find({ userId }).lean(),
+    ApiKey.find({ userId }).lean(),
+    Conversation.find({ $or: [{ buyerId: userId }, { sellerId: userId }] }).lean(),
+    Message.find({ senderId: userId }).lean(),
+    Offer.find({ $or: [{ buyerId: userId }, { sellerId: userId }] }).lean(),
+    // File contents are select:false; the owner can download them from the listing
+    VehicleDocumentUpload.find({ sellerId: userId }).lean(),
+    SavedSearch.find({ userId }).lean(),
+    Watch.find({ userId }).lean(),
+  ]);
+
+  if (!profile) {
+    return null;
+  }
+
+  return {
+    formatVersion: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile,
+    applications,
+    notifications,
+    vehicles,
+    jobs,
+    suppliers,
+    subscriptionRequests,
+    apiKeys,
+    conversations,
+    messages,
+    offers,
+    vehicleDocuments,
+    savedSearches,
+    watchlist,
+  };
+};
@@ -0,0 +1,75 @@
+/**
+ * Email Templates
+ * Builds the subject/body for transactional emails
+ */
+
+import { MailMessage } from './mailer.js';
+
+export const passwordResetEmail = (
+  to: string,
+  name: string,
+  resetUrl: string,
+  ttlMinutes: number
+): MailMessage => ({
+  to,
+  subject: 'Reset your EduFleet Exchange password',
+  text: [
+    `Hi ${name},`,
+    '',
+    'We received a request to reset your password. Use the link below to choose a new one:',
+    resetUrl,
+    '',
+    `This link expires in ${ttlMinutes} minutes and can only be used once.`,
+    'If you did not request a password reset, you can ignore this email.',
+  ].join('\n'),
+});
+
+export const passwordChangedEmail = (to: string, name: string): MailMessage => ({
+  to,
+  subject: 'Your EduFleet Exchange password was changed',
+  text: [
+    `Hi ${name},`,
+    '',
+    'The password for your account was just changed and all existing sessions were signed out.',
+    'If this was not you, please contact support immediately.',
+  ].join('\n'),
+});
+
+export const emailVerificationEmail = (
+  to: string,
+  name: string,
+  verifyUrl: string,
+  ttlHours: number
+): MailMessage => ({
+  to,
+  subject: 'Verify your EduFleet Exchange email address',
+  text: [
+    `Hi ${name},`,
+    '',
+    'Please confirm your email address by opening the link below:',
+    verifyUrl,
+    '',
+    `This link expires in ${ttlHours} hours.`,
+  ].join('\n'),
+});
+
+export const organizationInvitationEmail = (
+  to: string,
+  organizationName: string,
+  inviterName: string,
+  role: string,
+  acceptUrl: string,
+  ttlDays: number
+): MailMessage => ({
+  to,
+  subject: `You have been invited to join ${organizationName} on EduFleet Exchange`,
+  text: [
+    'Hi,',
+    '',
+    `${inviterName} has invited you to join ${organizationName} as ${role.replace(/_/g, ' ')}.`,
+    'Sign in with this email address (or create an institute account) and open the link below to accept:',
+    acceptUrl,
+    '',
+    `This invitation expires in ${ttlDays} days.`,
+  ].join('\n'),
+});
@@ -0,0 +1,59 @@
+/**
+ * Radius Search
+ * The `near=lat,lng&radiusKm=` parameters shared by the vehicle, job,
+ * supplier and user lists. Listings are matched on their geocoded `geo`
+ * point (see models/geo.ts), returned nearest first with `distanceKm`.
+ */
+
+import { IGeoPoint } from '../models/geo.js';
+import { EARTH_RADIUS_KM, GeoCoordinates, distanceKm, parseLatLng } from '../utils/geocode.js';
+
+export const DEFAULT_RADIUS_KM = 25;
+export const MAX_RADIUS_KM = 500;
+
+export interface NearSearch extends GeoCoordinates {
+  radiusKm: number;
+}
+
+// Read near/radiusKm from a query string; both absent is not an error
+export const parseNearSearch = (source: Record<string, unknown>): { near?: NearSearch; error?: string } => {
+  if (source.near === undefined || source.near === '') {
+    return source.radiusKm !== undefined ? { error: 'radiusKm needs near=lat,lng' } : {};
+  }
+
+  const point = parseLatLng(source.near);
+  if (!point) {
+    return { error: 'near must be "lat,lng" in decimal degrees' };
+  }
+
+  const radiusKm = source.radiusKm === undefined || source.radiusKm === '' ? DEFAULT_RADIUS_KM : Number(source.radiusKm);
+  if (!Number.isFinite(radiusKm) || radiusKm <= 0 || radiusKm > MAX_RADIUS_KM) {
+    return { error: `radiusKm must be a number between 0 and ${MAX_RADIUS_KM}` };
+  }
+
+  return { near: { ...point, radiusKm } };
+};
+
+// Condition for find(): within the radius, nearest first (do not add a sort)
+export const nearQuery = (near: NearSearch) => ({
+  geo: {
+    $nearSphere: {
+      $geometry: { type: 'Point', coordinates: [near.lng, near.lat] },
+      $maxDistance: near.radiusKm * 1000,
+    },
+  },
+});
+
+// The same area for countDocuments(), which does not accept $nearSphere
+export const withinRadiusQuery = (near: NearSearch) => ({
+  geo: { $geoWithin: { $centerSphere: [[near.lng, near.lat], near.radiusKm / EARTH_RADIUS_KM] } },
+});
+
+// Add `distanceKm` (one decimal) from the search point to each result
+export const withDistance = <T extends { geo?: IGeoPoint }>(near: NearSearch, items: T[]) =>
+  items.map((item) => ({
+    ...item,
+    distanceKm: item.geo?.coordinates
+      ? Math.round(distanceKm(near, { lat: item.geo.coordinates[1], lng: item.geo.coordinates[0] }) * 10) / 10
+      : null,
+  }));
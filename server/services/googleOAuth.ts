@@ -0,0 +1,131 @@
+/**
+ * Google OAuth Service
+ * Authorization-code flow client for "Sign in with Google".
+ *
+ * The client is injectable: tests can call setGoogleOAuthClient() with a
+ * fake, or point GOOGLE_AUTH_URL / GOOGLE_TOKEN_URL / GOOGLE_USERINFO_URL
+ * at a local stub IdP and keep the real HTTP client.
+ */
+
+import { ENV } from '../config/environment.js';
+
+export interface GoogleProfile {
+  googleId: string;
+  email: string;
+  emailVerified: boolean;
+  name: string;
+  picture?: string;
+}
+
+export interface GoogleOAuthClient {
+  getAuthorizationUrl(state: string): string;
+  exchangeCode(code: string): Promise<GoogleProfile>;
+}
+
+export interface GoogleOAuthClientOptions {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  authUrl?: string;
+  tokenUrl?: string;
+  userInfoUrl?: string;
+}
+
+export class GoogleOAuthError extends Error {
+  constructor(message: string, public code = 'GOOGLE_OAUTH_ERROR') {
+    super(message);
+    this.name = 'GoogleOAuthError';
+  }
+}
+
+export const createGoogleOAuthClient = (options: GoogleOAuthClientOptions): GoogleOAuthClient => {
+  const authUrl = options.authUrl || 'https://accounts.google.com/o/oauth2/v2/auth';
+  const tokenUrl = options.tokenUrl || 'https://oauth2.googleapis.com/token';
+  const userInfoUrl = options.userInfoUrl || 'https://openidconnect.googleapis.com/v1/userinfo';
+
+  return {
+    getAuthorizationUrl(state: string): string {
+      const params = new URLSearchParams({
+        client_id: options.clientId,
+        redirect_uri: options.redirectUri,
+        response_type: 'code',
+        scope: 'openid email profile',
+        state,
+        prompt: 'select_account',
+      });
+      return `${authUrl}?${params.toString()}`;
+    },
+
+    async exchangeCode(code: string): Promise<GoogleProfile> {
+      const tokenResponse = await fetch(tokenUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          code,
+          client_id: options.clientId,
+          client_secret: options.clientSecret,
+          redirect_uri: options.redirectUri,
+          grant_type: 'authorization_code',
+        }),
+      });
+
+      if (!tokenResponse.ok) {
+        throw new GoogleOAuthError(`Token exchange failed (${tokenResponse.status})`, 'GOOGLE_TOKEN_EXCHANGE_FAILED');
+      }
+
+      const { access_token: accessToken } = (await tokenResponse.json()) as { access_token?: string };
+      if (!accessToken) {
+        throw new GoogleOAuthError('Token response did not include an access token', 'GOOGLE_TOKEN_EXCHANGE_FAILED');
+      }
+
+      const profileResponse = await fetch(userInfoUrl, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+
+      if (!profileResponse.ok) {
+        throw new GoogleOAuthError(`Profile request failed (${profileResponse.status})`, 'GOOGLE_PROFILE_FAILED');
+      }
+
+      const profile = (await profileResponse.json()) as {
+        sub?: string;
+        email?: string;
+        email_verified?: boolean | string;
+        name?: string;
+        picture?: string;
+      };
+
+      if (!profile.sub || !profile.email) {
+        throw new GoogleOAuthError('Google profile is missing id or email', 'GOOGLE_PROFILE_FAILED');
+      }
+
+      return {
+        googleId: profile.sub,
+        email: profile.email.toLowerCase(),
+        emailVerified: profile.email_verified === true || profile.email_verified === 'true',
+        name: profile.name || profile.email.split('@')[0],
+        picture: profile.picture,
+      };
+    },
+  };
+};
+
+let client: GoogleOAuthClient | null = null;
+
+export const setGoogleOAuthClient = (next: GoogleOAuthClient | null): void => {
+  client = next;
+};
+
+// Returns the configured client, or null when Google sign-in is not configured
+export const getGoogleOAuthClient = (): GoogleOAuthClient | null => {
+  if (!client && ENV.GOOGLE_CLIENT_ID && ENV.GOOGLE_CLIENT_SECRET) {
+    client = createGoogleOAuthClient({
+      clientId: ENV.GOOGLE_CLIENT_ID,
+      clientSecret: ENV.GOOGLE_CLIENT_SECRET,
+      redirectUri: ENV.GOOGLE_REDIRECT_URI,
+      authUrl: ENV.GOOGLE_AUTH_URL,
+      tokenUrl: ENV.GOOGLE_TOKEN_URL,
+      userInfoUrl: ENV.GOOGLE_USERINFO_URL,
+    });
+  }
+  return client;
+};
@@ -0,0 +1,133 @@
+/**
+ * Listing Expiry
+ * Expires vehicle listings after their plan's listing lifetime and jobs once
+ * their application deadline passes, with a reminder a few days before.
+ *
+ * sweepListingExpiry() is idempotent and safe to run as often as needed; the
+ * scheduler runs it hourly (see services/scheduledJobs.ts).
+ */
+
+import mongoose from 'mongoose';
+import Vehicle from '../models/Vehicle.js';
+import Job from '../models/Job.js';
+import User from '../models/User.js';
+import Notification from '../models/Notification.js';
+import { ISubscriptionPlan } from '../models/SubscriptionPlan.js';
+import { ENV } from '../config/environment.js';
+import { changeVehicleStatus } from './vehicleLifecycle.js';
+import { notifyListingRemoved } from './watchlist.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ExpirySweepResult {
+  vehiclesExpired: number;
+  vehicleReminders: number;
+  jobsExpired: number;
+  jobReminders: number;
+}
+
+// Listing lifetime in days for a plan (-1: never expires)
+export const listingLifetimeDays = (plan?: ISubscriptionPlan | null): number => {
+  const days = plan?.features?.listingLifetimeDays;
+  return days ? days : ENV.VEHICLE_LISTING_LIFETIME_DAYS;
+};
+
+// When a listing of this seller going live now should expire (undefined: never)
+export const vehicleExpiryDate = async (
+  sellerId: string | mongoose.Types.ObjectId,
+  from = new Date()
+): Promise<Date | undefined> => {
+  const seller = await User.findById(sellerId).populate('subscription.planId');
+  const days = listingLifetimeDays(seller?.subscription?.planId as unknown as ISubscriptionPlan);
+  return days === -1 ? undefined : new Date(from.getTime() + days * DAY_MS);
+};
+
+const remindAt = (now: Date): Date => new Date(now.getTime() + ENV.LISTING_EXPIRY_REMINDER_DAYS * DAY_MS);
+
+export const sweepListingExpiry = async (now = new Date()): Promise<ExpirySweepResult> => {
+  const result: ExpirySweepResult = { vehiclesExpired: 0, vehicleReminders: 0, jobsExpired: 0, jobReminders: 0 };
+
+  // Listings approved before expiry existed get a full lifetime from now
+  const undated = await Vehicle.find({
+    status: 'approved',
+    expiresAt: { $exists: false },
+    approvedAt: { $exists: false },
+  }).select('sellerId createdAt');
+  for (const vehicle of undated) {
+    vehicle.approvedAt = vehicle.createdAt;
+    vehicle.expiresAt = await vehicleExpiryDate(vehicle.sellerId, now);
+    await vehicle.save();
+  }
+
+  // Vehicles that are due
+  const dueVehicles = await Vehicle.find({ status: 'approved', expiresAt: { $lte: now } });
+  for (const vehicle of dueVehicles) {
+    // Skip listings the owner reserved, sold or withdrew since they were loaded
+    if (!(await changeVehicleStatus(vehicle, 'expired', undefined, 'Listing lifetime ended'))) continue;
+    await Notification.create({
+      userId: vehicle.sellerId,
+      type: 'warning',
+      title: 'Listing expired',
+      message: `Your vehicle listing "${vehicle.title}" has expired. Renew it to put it back on sale.`,
+      link: `/vehicle/${vehicle._id}`,
+    });
+    result.vehiclesExpired += 1;
+  }
+
+  // Vehicles about to expire
+  const expiringVehicles = await Vehicle.find({
+    status: 'approved',
+    expiresAt: { $gt: now, $lte: remindAt(now) },
+    expiryReminderSentAt: { $exists: false },
+  });
+  for (const vehicle of expiringVehicles) {
+    await Notification.create({
+      userId: vehicle.sellerId,
+      type: 'warning',
+      title: 'Listing expiring soon',
+      message: `Your vehicle listing "${vehicle.title}" expires on ${vehicle.expiresAt!.toDateString()}. Renew it to keep it live.`,
+      link: `/vehicle/${vehicle._id}`,
+    });
+    vehicle.expiryReminderSentAt = now;
+    await vehicle.save();
+    result.vehicleReminders += 1;
+  }
+
+  // Jobs past their application deadline
+  const dueJobs = await Job.find({ status: 'active', applicationDeadline: { $lte: now } });
+  for (const job of dueJobs) {
+    job.status = 'expired';
+    job.expiredAt = now;
+    await job.save();
+    await Notification.create({
+      userId: job.instituteId,
+      type: 'info',
+      title: 'Job closed',
+      message: `The application deadline for "${job.title}" has passed, so the posting was closed.`,
+      link: `/institute/job/${job._id}/applications`,
+    });
+    await notifyListingRemoved('Job', job, 'has closed: the application deadline has passed');
+    result.jobsExpired += 1;
+  }
+
+  // Jobs whose deadline is near
+  const expiringJobs = await Job.find({
+    status: 'active',
+    applicationDeadline: { $gt: now, $lte: remindAt(now) },
+    deadlineReminderSentAt: { $exists: false },
+  });
+  for (const job of expiringJobs) {
+    await Notification.create({
+      userId: job.instituteId,
+      type: 'warning',
+      title: 'Job deadline approaching',
+      message: `Applications for "${job.title}" close on ${job.applicationDeadline!.toDateString()}. Renew the posting to extend it.`,
+      link: `/institute/job/${job._id}/applications`,
+    });
+    job.deadlineReminderSentAt = now;
+    await job.save();
+    result.jobReminders += 1;
+  }
+
+  return result;
+};
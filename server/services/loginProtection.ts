@@ -0,0 +1,64 @@
+/**
+ * Login Protection Service
+ * Progressive per-account lockout after repeated failed sign-in attempts.
+ *
+ * After LOGIN_MAX_FAILED_ATTEMPTS failures the account is locked for
+ * LOGIN_LOCKOUT_BASE_MINUTES; each further lockout doubles the duration
+ * up to LOGIN_LOCKOUT_MAX_MINUTES. Password and second-factor failures share
+ * the record, which only a fully completed login clears.
+ */
+
+import { ENV } from '../config/environment.js';
+import { getRateLimitStore, FailureRecord } from './rateLimitStore.js';
+
+const ACCOUNT_PREFIX = 'account:';
+
+// How long failure history is remembered after the last failed attempt
+const FAILURE_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+const accountKey = (email: string): string => `${ACCOUNT_PREFIX}${email.toLowerCase().trim()}`;
+
+// Returns the lock expiry if the account is currently locked, otherwise null
+export const getAccountLock = async (email: string): Promise<Date | null> => {
+  const record = await getRateLimitStore().getFailures(accountKey(email));
+  if (record?.lockedUntil && record.lockedUntil.getTime() > Date.now()) {
+    return record.lockedUntil;
+  }
+  return null;
+};
+
+// Record a failed attempt. Returns the lock expiry if this attempt locked the account.
+export const registerFailedLogin = async (email: string): Promise<Date | null> => {
+  const store = getRateLimitStore();
+  const key = accountKey(email);
+  const record = await store.incrementFailures(key, FAILURE_MEMORY_MS);
+
+  if (record.failures < ENV.LOGIN_MAX_FAILED_ATTEMPTS) {
+    return null;
+  }
+
+  const minutes = Math.min(
+    ENV.LOGIN_LOCKOUT_BASE_MINUTES * 2 ** record.lockoutCount,
+    ENV.LOGIN_LOCKOUT_MAX_MINUTES
+  );
+  const lockedUntil = new Date(Date.now() + minutes * 60 * 1000);
+  await store.lock(key, lockedUntil, FAILURE_MEMORY_MS);
+
+  console.warn(`Account ${email} locked for ${minutes} minutes after repeated failed logins`);
+  return lockedUntil;
+};
+
+export const registerSuccessfulLogin = async (email: string): Promise<void> => {
+  await getRateLimitStore().clear(accountKey(email));
+};
+
+export const listAccountLockouts = async (): Promise<Array<FailureRecord & { email: string }>> => {
+  const locked = await getRateLimitStore().listLocked();
+  return locked
+    .filter((record) => record.key.startsWith(ACCOUNT_PREFIX))
+    .map((record) => ({ ...record, email: record.key.slice(ACCOUNT_PREFIX.length) }));
+};
+
+export const clearAccountLockout = async (email: string): Promise<void> => {
+  await getRateLimitStore().clear(accountKey(email));
+};
@@ -0,0 +1,69 @@
+/**
+ * Mail Service
+ * Sends outbound email through a pluggable transport.
+ *
+ * The default transport logs messages to the console. Deployments can
+ * register a real transport at startup, and tests can swap in the
+ * InMemoryMailTransport to inspect what would have been sent. In production
+ * the console transport redacts link tokens, so reset and verification links
+ * never reach the logs.
+ */
+
+import { ENV, isProduction } from '../config/environment.js';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface OutgoingMail extends MailMessage {
+  from: string;
+}
+
+export interface MailTransport {
+  send(mail: OutgoingMail): Promise<void>;
+}
+
+// `?token=abc123` -> `?token=[redacted]`
+export const redactTokens = (text: string): string => text.replace(/([?&]token=)[^&\s]+/gi, '$1[redacted]');
+
+// Logs mail to stdout instead of delivering it
+export class ConsoleMailTransport implements MailTransport {
+  constructor(private readonly redact = false) {}
+
+  async send(mail: OutgoingMail): Promise<void> {
+    const text = this.redact ? redactTokens(mail.text) : mail.text;
+    console.log(`✉ Mail to ${mail.to}: ${mail.subject}\n${text}`);
+  }
+}
+
+// Keeps every message in memory so tests can assert on the outbox
+export class InMemoryMailTransport implements MailTransport {
+  outbox: Array<OutgoingMail & { sentAt: Date }> = [];
+
+  async send(mail: OutgoingMail): Promise<void> {
+    this.outbox.push({ ...mail, sentAt: new Date() });
+  }
+
+  latestTo(email: string) {
+    return [...this.outbox].reverse().find((mail) => mail.to === email);
+  }
+
+  clear(): void {
+    this.outbox = [];
+  }
+}
+
+let transport: MailTransport = new ConsoleMailTransport(isProduction);
+
+export const setMailTransport = (next: MailTransport): void => {
+  transport = next;
+};
+
+export const getMailTransport = (): MailTransport => transport;
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await transport.send({ from: ENV.MAIL_FROM, ...message });
+};
@@ -0,0 +1,176 @@
+/**
+ * Offer Service
+ * Price negotiation on vehicle listings.
+ *
+ * Buyer and seller take turns: an offer waits for the seller (pending) until
+ * they counter, after which it waits for the buyer (countered), and so on.
+ * Whoever's turn it is may accept, reject or counter. Accepting reserves the
+ * vehicle through the shared lifecycle, which closes every other open offer on it.
+ */
+
+import mongoose from 'mongoose';
+import Offer, { IOffer, OfferAction, OfferStatus } from '../models/Offer.js';
+import Vehicle, { IVehicle } from '../models/Vehicle.js';
+import Notification from '../models/Notification.js';
+import { IUser } from '../models/User.js';
+import { can } from './permissionService.js';
+import { changeVehicleStatus } from './vehicleLifecycle.js';
+
+export type OfferSide = 'buyer' | 'seller';
+
+export const OPEN_OFFER_STATUSES: OfferStatus[] = ['pending', 'countered'];
+
+export const formatPrice = (amount: number): string => `₹${amount.toLocaleString('en-IN')}`;
+
+export const isOfferOpen = (offer: IOffer): boolean => OPEN_OFFER_STATUSES.includes(offer.status);
+
+// The side whose answer an open offer is waiting for
+export const offerTurn = (offer: IOffer): OfferSide => (offer.status === 'pending' ? 'seller' : 'buyer');
+
+export const offerSide = async (user: IUser, offer: IOffer): Promise<OfferSide | null> => {
+  if (offer.buyerId.toString() === user._id.toString()) {
+    return 'buyer';
+  }
+  return (await can(user, 'vehicle:manage', { ownerId: offer.sellerId })) ? 'seller' : null;
+};
+
+export const recordOfferEvent = (
+  offer: IOffer,
+  action: OfferAction,
+  by?: mongoose.Types.ObjectId,
+  details: { amount?: number; message?: string } = {}
+): void => {
+  offer.history.push({ action, by, at: new Date(), ...details });
+};
+
+// Mark an unanswered offer expired once its deadline passes. Returns true if it did.
+export const expireIfDue = async (offer: IOffer): Promise<boolean> => {
+  if (!isOfferOpen(offer) || !offer.expiresAt || offer.expiresAt > new Date()) {
+    return false;
+  }
+
+  offer.status = 'expired';
+  recordOfferEvent(offer, 'expired');
+  await offer.save();
+  return true;
+};
+
+const notifyOffer = async (userId: mongoose.Types.ObjectId, offer: IOffer, title: string, message: string) => {
+  await Notification.create({
+    userId,
+    type: 'offer',
+    title,
+    message,
+    link: `/offers/${offer._id}`,
+    metadata: { offerId: offer._id, vehicleId: offer.vehicleId },
+  });
+};
+
+// Tell the other party that it is now their turn (or that the offer ended)
+export const notifyCounterparty = async (
+  offer: IOffer,
+  actingSide: OfferSide,
+  title: string,
+  message: string
+): Promise<void> => {
+  await notifyOffer(actingSide === 'buyer' ? offer.sellerId : offer.buyerId, offer, title, message);
+};
+
+// Close every open offer on a vehicle (except one), telling each buyer why
+export const closeOpenOffers = async (
+  vehicleId: mongoose.Types.ObjectId,
+  notice: (offer: IOffer) => string,
+  exceptOfferId?: mongoose.Types.ObjectId
+): Promise<number> => {
+  const open = await Offer.find({
+    vehicleId,
+    status: { $in: OPEN_OFFER_STATUSES },
+    ...(exceptOfferId ? { _id: { $ne: exceptOfferId } } : {}),
+  });
+
+  for (const offer of open) {
+    offer.status = 'closed';
+    recordOfferEvent(offer, 'closed');
+    await offer.save();
+    await notifyOffer(offer.buyerId, offer, 'Vehicle no longer available', notice(offer));
+  }
+
+  return open.length;
+};
+
+// The accepted offer a vehicle is reserved for, if the sale is not completed yet
+export const findAcceptedOffer = async (vehicleId: mongoose.Types.ObjectId): Promise<IOffer | null> => {
+  return Offer.findOne({ vehicleId, status: 'accepted', completedAt: { $exists: false } });
+};
+
+// The seller released a reservation: the accepted offer is closed
+export const releaseAcceptedOffer = async (
+  vehicleId: mongoose.Types.ObjectId,
+  releasedBy?: mongoose.Types.ObjectId
+): Promise<void> => {
+  const offer = await findAcceptedOffer(vehicleId);
+  if (!offer) return;
+
+  offer.status = 'closed';
+  recordOfferEvent(offer, 'closed', releasedBy);
+  await offer.save();
+  await notifyOffer(
+    offer.buyerId,
+    offer,
+    'Reservation released',
+    `The seller released the reservation of ${offer.vehicleTitle} for your offer`
+  );
+};
+
+// The reserved vehicle was sold: the accepted offer is completed
+export const completeAcceptedOffer = async (
+  vehicleId: mongoose.Types.ObjectId,
+  completedBy?: mongoose.Types.ObjectId
+): Promise<IOffer | null> => {
+  const offer = await findAcceptedOffer(vehicleId);
+  if (!offer) return null;
+
+  offer.completedAt = new Date();
+  recordOfferEvent(offer, 'completed', completedBy, { amount: offer.amount });
+  await offer.save();
+  await notifyOffer(
+    offer.buyerId,
+    offer,
+    'Sale completed',
+    `The sale of ${offer.vehicleTitle} for ${formatPrice(offer.amount)} has been completed`
+  );
+
+  return offer;
+};
+
+// Accept an open offer: reserve the vehicle, which closes competing offers.
+// Returns null if the vehicle is no longer available.
+export const acceptOffer = async (
+  offer: IOffer,
+  acceptedBy: IUser,
+  side: OfferSide
+): Promise<IVehicle | null> => {
+  // Only a listed vehicle can be reserved; the guarded status change also stops
+  // two offers being accepted at once
+  const listed = await Vehicle.findOne({ _id: offer.vehicleId, status: 'approved' });
+  const vehicle = listed
+    ? await changeVehicleStatus(listed, 'reserved', acceptedBy._id, 'Offer accepted', { acceptedOfferId: offer._id })
+    : null;
+  if (!vehicle) {
+    return null;
+  }
+
+  offer.status = 'accepted';
+  offer.acceptedAt = new Date();
+  recordOfferEvent(offer, 'accepted', acceptedBy._id, { amount: offer.amount });
+  await offer.save();
+
+  await notifyCounterparty(
+    offer,
+    side,
+    'Offer accepted',
+    `The offer of ${formatPrice(offer.amount)} for ${offer.vehicleTitle} was accepted`
+  );
+
+  return vehicle;
+};
@@ -0,0 +1,103 @@
+/**
+ * Organization Service
+ * Resolves which institute account a user acts for, and what they may do there.
+ *
+ * Records (vehicles, jobs, applications) stay keyed by the institute owner's
+ * user id. Staff act on the owner's behalf according to their member role,
+ * and count against the owner's subscription limits.
+ */
+
+import mongoose from 'mongoose';
+import Organization, { IOrganization, IOrganizationMember, OrganizationRole } from '../models/Organization.js';
+import User, { IUser } from '../models/User.js';
+
+export type OrganizationCapability =
+  | 'manage_members'
+  | 'manage_jobs'
+  | 'manage_applications'
+  | 'manage_vehicles';
+
+export const ORGANIZATION_ROLES: OrganizationRole[] = ['owner', 'principal', 'hr', 'transport_manager'];
+
+const ROLE_CAPABILITIES: Record<OrganizationRole, OrganizationCapability[]> = {
+  owner: ['manage_members', 'manage_jobs', 'manage_applications', 'manage_vehicles'],
+  principal: ['manage_members', 'manage_jobs', 'manage_applications', 'manage_vehicles'],
+  hr: ['manage_jobs', 'manage_applications'],
+  transport_manager: ['manage_vehicles'],
+};
+
+export interface Membership {
+  organization: IOrganization;
+  member: IOrganizationMember;
+}
+
+export interface ActingAccount {
+  // The institute account that owns the records and the subscription
+  account: IUser;
+  membership: Membership | null;
+}
+
+type UserRef = { _id: mongoose.Types.ObjectId | string };
+
+export const roleHasCapability = (role: OrganizationRole, capability: OrganizationCapability): boolean => {
+  return ROLE_CAPABILITIES[role]?.includes(capability) ?? false;
+};
+
+export const findMembership = async (userId: string | mongoose.Types.ObjectId): Promise<Membership | null> => {
+  const organization = await Organization.findOne({ 'members.userId': userId });
+  if (!organization) {
+    return null;
+  }
+
+  const member = organization.members.find((entry) => entry.userId.toString() === userId.toString());
+  return member ? { organization, member } : null;
+};
+
+// The account a user creates records for: the organization owner for staff,
+// otherwise the user themself. Returns null if their role lacks the capability.
+export const resolveActingAccount = async (
+  user: IUser,
+  capability: OrganizationCapability
+): Promise<ActingAccount | null> => {
+  const membership = await findMembership(user._id);
+
+  if (!membership || membership.organization.ownerId.toString() === user._id.toString()) {
+    return { account: user, membership };
+  }
+
+  if (!roleHasCapability(membership.member.role, capability)) {
+    return null;
+  }
+
+  const owner = await User.findById(membership.organization.ownerId).populate('subscription.planId');
+  if (!owner || !owner.isActive) {
+    return null;
+  }
+
+  return { account: owner, membership };
+};
+
+// The institute id whose records a user sees in their own lists
+export const resolveAccountId = async (userId: string | mongoose.Types.ObjectId): Promise<string> => {
+  const membership = await findMembership(userId);
+  return membership ? membership.organization.ownerId.toString() : userId.toString();
+};
+
+// Whether a user owns a record of the given institute account, directly or as
+// staff whose role covers the capability. Role permissions are checked by can().
+export const canManageInstituteRecord = async (
+  user: UserRef,
+  ownerId: string | mongoose.Types.ObjectId,
+  capability: OrganizationCapability
+): Promise<boolean> => {
+  if (user._id.toString() === ownerId.toString()) {
+    return true;
+  }
+
+  const membership = await findMembership(user._id);
+  return (
+    !!membership &&
+    membership.organization.ownerId.toString() === ownerId.toString() &&
+    roleHasCapability(membership.member.role, capability)
+  );
+};
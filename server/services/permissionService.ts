@@ -0,0 +1,69 @@
+/**
+ * Permission Service
+ * Answers "can this user do X (to this record)?" from the permission registry.
+ *
+ * Role permissions say what a user may do at all. When a record is passed,
+ * non-admins must also own it, directly or through organization membership.
+ */
+
+import mongoose from 'mongoose';
+import {
+  ADMIN_ROLE_PERMISSIONS,
+  ROLE_PERMISSIONS,
+  Permission,
+  AdminRole,
+} from '../config/permissions.js';
+import { canManageInstituteRecord, OrganizationCapability } from './organizationService.js';
+
+export interface PermissionSubject {
+  _id: mongoose.Types.ObjectId | string;
+  role: string;
+  adminRole?: AdminRole;
+}
+
+export interface PermissionResource {
+  ownerId: mongoose.Types.ObjectId | string;
+}
+
+// Which organization capability covers records for an ownership-scoped permission
+const RESOURCE_CAPABILITIES: Partial<Record<Permission, OrganizationCapability>> = {
+  'vehicle:manage': 'manage_vehicles',
+  'job:manage': 'manage_jobs',
+  'application:review': 'manage_applications',
+};
+
+export const permissionsFor = (user?: PermissionSubject | null): readonly Permission[] => {
+  if (!user) {
+    return [];
+  }
+  if (user.role === 'admin') {
+    return ADMIN_ROLE_PERMISSIONS[user.adminRole || 'super_admin'] || [];
+  }
+  return ROLE_PERMISSIONS[user.role] || [];
+};
+
+export const hasPermission = (user: PermissionSubject | null | undefined, permission: Permission): boolean => {
+  return permissionsFor(user).includes(permission);
+};
+
+export const can = async (
+  user: PermissionSubject | null | undefined,
+  action: Permission,
+  resource?: PermissionResource
+): Promise<boolean> => {
+  if (!user || !hasPermission(user, action)) {
+    return false;
+  }
+
+  // Admins holding the permission act on any record
+  if (!resource || user.role === 'admin') {
+    return true;
+  }
+
+  const capability = RESOURCE_CAPABILITIES[action];
+  if (!capability) {
+    return user._id.toString() === resource.ownerId.toString();
+  }
+
+  return canManageInstituteRecord(user, resource.ownerId, capability);
+};
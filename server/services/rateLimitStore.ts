@@ -0,0 +1,221 @@
+/**
+ * Rate Limit Store
+ * Counters behind login lockout and request throttling.
+ *
+ * Two implementations share one interface: an in-memory store for tests
+ * and single-process development, and a MongoDB-backed store so that
+ * counters are shared across instances in production.
+ */
+
+import RateLimitEntry from '../models/RateLimitEntry.js';
+import { ENV, isTest } from '../config/environment.js';
+
+export interface FailureRecord {
+  key: string;
+  failures: number;
+  lockoutCount: number;
+  lockedUntil?: Date;
+  lastFailureAt?: Date;
+}
+
+export interface WindowResult {
+  // Hits inside the window, including this one
+  count: number;
+  // When the oldest hit in the window falls out of it
+  resetAt: Date;
+}
+
+export interface RateLimitStore {
+  // Sliding window: count hits in the last windowMs, including this one. The
+  // hit is only recorded while the window holds fewer than `max`, so a flood of
+  // rejected requests cannot grow the record without bound.
+  hit(key: string, windowMs: number, max: number): Promise<WindowResult>;
+  // Add one failure; the record expires ttlMs after the last activity
+  incrementFailures(key: string, ttlMs: number): Promise<FailureRecord>;
+  // Lock the key until `until`, resetting failures and bumping lockoutCount
+  lock(key: string, until: Date, ttlMs: number): Promise<FailureRecord>;
+  getFailures(key: string): Promise<FailureRecord | null>;
+  clear(key: string): Promise<void>;
+  listLocked(): Promise<FailureRecord[]>;
+}
+
+interface MemoryEntry {
+  hits: number[];
+  failures: number;
+  lockoutCount: number;
+  lockedUntil?: Date;
+  lastFailureAt?: Date;
+  expiresAt: number;
+}
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, MemoryEntry>();
+
+  private entry(key: string): MemoryEntry {
+    const existing = this.entries.get(key);
+    if (existing && existing.expiresAt > Date.now()) {
+      return existing;
+    }
+    const created: MemoryEntry = { hits: [], failures: 0, lockoutCount: 0, expiresAt: 0 };
+    this.entries.set(key, created);
+    return created;
+  }
+
+  private toRecord(key: string, entry: MemoryEntry): FailureRecord {
+    return {
+      key,
+      failures: entry.failures,
+      lockoutCount: entry.lockoutCount,
+      lockedUntil: entry.lockedUntil,
+      lastFailureAt: entry.lastFailureAt,
+    };
+  }
+
+  async hit(key: string, windowMs: number, max: number): Promise<WindowResult> {
+    const now = Date.now();
+    const entry = this.entry(key);
+    entry.hits = entry.hits.filter((time) => time > now - windowMs);
+    if (entry.hits.length > 0 && entry.hits.length >= max) {
+      return { count: entry.hits.length + 1, resetAt: new Date(entry.hits[0] + windowMs) };
+    }
+    entry.hits.push(now);
+    entry.expiresAt = Math.max(entry.expiresAt, now + windowMs);
+    return { count: entry.hits.length, resetAt: new Date(entry.hits[0] + windowMs) };
+  }
+
+  async incrementFailures(key: string, ttlMs: number): Promise<FailureRecord> {
+    const entry = this.entry(key);
+    entry.failures += 1;
+    entry.lastFailureAt = new Date();
+    entry.expiresAt = Date.now() + ttlMs;
+    return this.toRecord(key, entry);
+  }
+
+  async lock(key: string, until: Date, ttlMs: number): Promise<FailureRecord> {
+    const entry = this.entry(key);
+    entry.failures = 0;
+    entry.lockoutCount += 1;
+    entry.lockedUntil = until;
+    entry.expiresAt = Math.max(until.getTime(), Date.now()) + ttlMs;
+    return this.toRecord(key, entry);
+  }
+
+  async getFailures(key: string): Promise<FailureRecord | null> {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return null;
+    }
+    return this.toRecord(key, entry);
+  }
+
+  async clear(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async listLocked(): Promise<FailureRecord[]> {
+    const now = Date.now();
+    return [...this.entries.entries()]
+      .filter(([, entry]) => entry.expiresAt > now && entry.lockedUntil && entry.lockedUntil.getTime() > now)
+      .map(([key, entry]) => this.toRecord(key, entry));
+  }
+}
+
+export class MongoRateLimitStore implements RateLimitStore {
+  private toRecord(doc: any): FailureRecord {
+    return {
+      key: doc.key,
+      failures: doc.failures,
+      lockoutCount: doc.lockoutCount,
+      lockedUntil: doc.lockedUntil,
+      lastFailureAt: doc.lastFailureAt,
+    };
+  }
+
+  async hit(key: string, windowMs: number, max: number): Promise<WindowResult> {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - windowMs);
+
+    // Drop hits that slid out of the window, then record this one unless the
+    // window is already full. A full record fails the filter, so the upsert
+    // tries to insert a second one and hits the unique key instead.
+    await RateLimitEntry.updateOne({ key }, { $pull: { hits: { $lte: windowStart } } });
+    let recorded = true;
+    let entry;
+    try {
+      entry = await RateLimitEntry.findOneAndUpdate(
+        { key, [`hits.${Math.max(max - 1, 0)}`]: { $exists: false } },
+        {
+          $push: { hits: now },
+          $max: { expiresAt: new Date(now.getTime() + windowMs) },
+        },
+        { new: true, upsert: true, setDefaultsOnInsert: true }
+      ).lean();
+    } catch (error: any) {
+      if (error?.code !== 11000) throw error;
+      recorded = false;
+      entry = await RateLimitEntry.findOne({ key }).lean();
+    }
+
+    const hits = (entry?.hits || []).filter((time) => time > windowStart);
+    const oldest = hits.reduce((min, time) => (time < min ? time : min), now);
+    return { count: hits.length + (recorded ? 0 : 1), resetAt: new Date(oldest.getTime() + windowMs) };
+  }
+
+  async incrementFailures(key: string, ttlMs: number): Promise<FailureRecord> {
+    const now = new Date();
+    const entry = await RateLimitEntry.findOneAndUpdate(
+      { key },
+      {
+        $inc: { failures: 1 },
+        $set: { lastFailureAt: now },
+        $max: { expiresAt: new Date(now.getTime() + ttlMs) },
+      },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    ).lean();
+    return this.toRecord(entry);
+  }
+
+  async lock(key: string, until: Date, ttlMs: number): Promise<FailureRecord> {
+    const entry = await RateLimitEntry.findOneAndUpdate(
+      { key },
+      {
+        $set: { failures: 0, lockedUntil: until },
+        $inc: { lockoutCount: 1 },
+        $max: { expiresAt: new Date(Math.max(until.getTime(), Date.now()) + ttlMs) },
+      },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    ).lean();
+    return this.toRecord(entry);
+  }
+
+  async getFailures(key: string): Promise<FailureRecord | null> {
+    const entry = await RateLimitEntry.findOne({ key, expiresAt: { $gt: new Date() } }).lean();
+    return entry ? this.toRecord(entry) : null;
+  }
+
+  async clear(key: string): Promise<void> {
+    await RateLimitEntry.deleteOne({ key });
+  }
+
+  async listLocked(): Promise<FailureRecord[]> {
+    const entries = await RateLimitEntry.find({ lockedUntil: { $gt: new Date() } })
+      .sort({ lockedUntil: -1 })
+      .lean();
+    return entries.map((entry) => this.toRecord(entry));
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+export const setRateLimitStore = (next: RateLimitStore): void => {
+  store = next;
+};
+
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!store) {
+    // Explicit setting wins; otherwise memory under test, Mongo everywhere else
+    const kind = ENV.RATE_LIMIT_STORE || (isTest ? 'memory' : 'mongo');
+    store = kind === 'memory' ? new InMemoryRateLimitStore() : new MongoRateLimitStore();
+  }
+  return store;
+};
@@ -0,0 +1,66 @@
+/**
+ * Registration Conflicts
+ * Detects listings for the same vehicle: another pending, approved or
+ * reserved listing with the same (normalised) registration number.
+ *
+ * A seller can never list a vehicle they already have listed. Another
+ * account's listing is refused or held for moderator review depending on
+ * DUPLICATE_REGISTRATION_POLICY; moderators see the conflicts in the pending
+ * queue and cannot approve over a live listing without overriding.
+ */
+
+import mongoose from 'mongoose';
+import Vehicle, { VehicleStatus } from '../models/Vehicle.js';
+import { normalizeRegistrationNumber } from '../utils/registrationNumber.js';
+
+// Statuses in which a listing holds its registration number
+export const ACTIVE_LISTING_STATUSES: VehicleStatus[] = ['pending', 'approved', 'reserved'];
+
+export interface RegistrationConflict {
+  _id: mongoose.Types.ObjectId;
+  title: string;
+  sellerId: mongoose.Types.ObjectId;
+  sellerName: string;
+  status: VehicleStatus;
+  createdAt: Date;
+}
+
+const CONFLICT_FIELDS = 'title sellerId sellerName status registrationNumber createdAt';
+
+export const findRegistrationConflicts = async (
+  registrationNumber: string,
+  options: { excludeId?: mongoose.Types.ObjectId | string; statuses?: VehicleStatus[] } = {}
+): Promise<RegistrationConflict[]> => {
+  return Vehicle.find({
+    registrationNumber: normalizeRegistrationNumber(registrationNumber),
+    status: { $in: options.statuses ?? ACTIVE_LISTING_STATUSES },
+    ...(options.excludeId ? { _id: { $ne: options.excludeId } } : {}),
+  })
+    .select(CONFLICT_FIELDS)
+    .lean<RegistrationConflict[]>();
+};
+
+// Conflicts for many listings at once (e.g. the moderation queue), keyed by listing id
+export const findRegistrationConflictsFor = async (
+  vehicles: { _id: unknown; registrationNumber: string }[]
+): Promise<Map<string, RegistrationConflict[]>> => {
+  const numbers = [...new Set(vehicles.map((vehicle) => vehicle.registrationNumber))];
+  const candidates = await Vehicle.find({
+    registrationNumber: { $in: numbers },
+    status: { $in: ACTIVE_LISTING_STATUSES },
+  })
+    .select(CONFLICT_FIELDS)
+    .lean<(RegistrationConflict & { registrationNumber: string })[]>();
+
+  const conflicts = new Map<string, RegistrationConflict[]>();
+  for (const vehicle of vehicles) {
+    const id = String(vehicle._id);
+    conflicts.set(
+      id,
+      candidates.filter(
+        (candidate) => candidate.registrationNumber === vehicle.registrationNumber && String(candidate._id) !== id
+      )
+    );
+  }
+  return conflicts;
+};
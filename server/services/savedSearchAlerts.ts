@@ -0,0 +1,161 @@
+/**
+ * Saved Search Alerts
+ * Tells buyers about newly approved vehicles that match their saved searches.
+ *
+ * Accounts whose plan includes instant vehicle alerts are notified when the
+ * listing is approved; everyone else gets the matches in a daily digest
+ * (the saved-search-digest scheduled job).
+ */
+
+import mongoose from 'mongoose';
+import SavedSearch, { ISavedSearch } from '../models/SavedSearch.js';
+import Vehicle, { IVehicle } from '../models/Vehicle.js';
+import User, { IUser } from '../models/User.js';
+import Notification from '../models/Notification.js';
+import { ISubscriptionPlan } from '../models/SubscriptionPlan.js';
+import { matchesVehicleFilters } from './vehicleSearch.js';
+import { formatPrice } from './offerService.js';
+
+export type AlertMode = 'instant' | 'digest';
+
+// Vehicles named in a digest notification; the rest are counted
+const DIGEST_LISTED_VEHICLES = 5;
+
+export const alertModeFor = (user: IUser): AlertMode => {
+  const plan = user.subscription?.planId as unknown as ISubscriptionPlan | undefined;
+  return user.subscription?.status === 'active' && plan?.features?.instantVehicleAlerts ? 'instant' : 'digest';
+};
+
+// A filter left empty matches anything; a set one must accept the value
+const unsetOr = (field: string, condition: unknown) => ({
+  $or: [{ [field]: null }, { [field]: condition }],
+});
+
+// Saved searches (other than the seller's own) that match a vehicle
+export const findMatchingSearches = async (vehicle: IVehicle): Promise<ISavedSearch[]> => {
+  // Narrow down in the database on the exact-value filters, then apply the full test
+  const candidates = await SavedSearch.find({
+    alertsEnabled: true,
+    userId: { $ne: vehicle.sellerId },
+    $and: [
+      unsetOr('filters.type', vehicle.type),
+      unsetOr('filters.condition', vehicle.condition),
+      unsetOr('filters.year', vehicle.year),
+      unsetOr('filters.minPrice', { $lte: vehicle.price }),
+      unsetOr('filters.maxPrice', { $gte: vehicle.price }),
+    ],
+  });
+
+  return candidates.filter((search) => matchesVehicleFilters(vehicle, search.filters ?? {}));
+};
+
+// Called when a listing goes live: notify instant subscribers, queue the rest
+export const notifySavedSearchMatches = async (vehicle: IVehicle): Promise<{ instant: number; queued: number }> => {
+  const searches = await findMatchingSearches(vehicle);
+  if (searches.length === 0) {
+    return { instant: 0, queued: 0 };
+  }
+
+  const users = await User.find({
+    _id: { $in: searches.map((search) => search.userId) },
+    isActive: true,
+    deletedAt: { $exists: false },
+  }).populate('subscription.planId');
+  const usersById = new Map(users.map((user) => [user._id.toString(), user]));
+
+  const instantByUser = new Map<string, ISavedSearch[]>();
+  const queued: mongoose.Types.ObjectId[] = [];
+
+  for (const search of searches) {
+    const user = usersById.get(search.userId.toString());
+    if (!user) continue;
+
+    if (alertModeFor(user) === 'instant') {
+      const list = instantByUser.get(user._id.toString()) ?? [];
+      list.push(search);
+      instantByUser.set(user._id.toString(), list);
+    } else {
+      queued.push(search._id as mongoose.Types.ObjectId);
+    }
+  }
+
+  // One notification per buyer, however many of their searches matched
+  for (const [userId, matched] of instantByUser) {
+    const names = matched.map((search) => `"${search.name}"`).join(', ');
+    await Notification.create({
+      userId,
+      type: 'vehicle_alert',
+      title: 'New vehicle matches your search',
+      message: `${vehicle.title} (${vehicle.year}, ${formatPrice(vehicle.price)}) matches your saved search ${names}`,
+      link: `/vehicle/${vehicle._id}`,
+      metadata: { vehicleId: vehicle._id, savedSearchIds: matched.map((search) => search._id) },
+    });
+  }
+
+  const instantIds = [...instantByUser.values()].flat().map((search) => search._id);
+  if (instantIds.length > 0) {
+    await SavedSearch.updateMany({ _id: { $in: instantIds } }, { $set: { lastAlertedAt: new Date() } });
+  }
+  if (queued.length > 0) {
+    await SavedSearch.updateMany({ _id: { $in: queued } }, { $addToSet: { digestVehicleIds: vehicle._id } });
+  }
+
+  return { instant: instantByUser.size, queued: queued.length };
+};
+
+// Send each buyer one notification with the vehicles queued since their last
+// digest. Listings no longer on sale are dropped. Returns how many were sent.
+export const sendSavedSearchDigests = async (now = new Date()): Promise<number> => {
+  const searches = await SavedSearch.find({ 'digestVehicleIds.0': { $exists: true } });
+  if (searches.length === 0) {
+    return 0;
+  }
+
+  const vehicleIds = [...new Set(searches.flatMap((search) => search.digestVehicleIds.map(String)))];
+  const vehicles = await Vehicle.find({ _id: { $in: vehicleIds }, status: 'approved' }).select('title year price');
+  const vehiclesById = new Map(vehicles.map((vehicle) => [String(vehicle._id), vehicle]));
+
+  const searchesByUser = new Map<string, ISavedSearch[]>();
+  for (const search of searches) {
+    const list = searchesByUser.get(search.userId.toString()) ?? [];
+    list.push(search);
+    searchesByUser.set(search.userId.toString(), list);
+  }
+
+  let sent = 0;
+  for (const [userId, userSearches] of searchesByUser) {
+    const matched = [
+      ...new Set(userSearches.flatMap((search) => search.digestVehicleIds.map(String))),
+    ].flatMap((id) => vehiclesById.get(id) ?? []);
+
+    if (matched.length > 0) {
+      const listed = matched
+        .slice(0, DIGEST_LISTED_VEHICLES)
+        .map((vehicle) => `${vehicle.title} (${vehicle.year}, ${formatPrice(vehicle.price)})`);
+      const more = matched.length - listed.length;
+
+      await Notification.create({
+        userId,
+        type: 'vehicle_alert',
+        title: `${matched.length} new vehicle${matched.length === 1 ? '' : 's'} match your saved searches`,
+        message: `${listed.join('; ')}${more > 0 ? ` and ${more} more` : ''}`,
+        link: '/saved-searches',
+        metadata: {
+          savedSearchIds: userSearches.map((search) => search._id),
+          vehicleIds: matched.map((vehicle) => vehicle._id),
+        },
+      });
+      sent += 1;
+    }
+
+    // Remove only what this digest covered; matches queued meanwhile wait for the next one
+    for (const search of userSearches) {
+      await SavedSearch.updateOne(
+        { _id: search._id },
+        { $pullAll: { digestVehicleIds: search.digestVehicleIds }, $set: { lastDigestAt: now } }
+      );
+    }
+  }
+
+  return sent;
+};
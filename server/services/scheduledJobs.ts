@@ -0,0 +1,79 @@
+/**
+ * Scheduled Jobs
+ * The recurring background jobs this server runs. Importing this module
+ * registers them with the scheduler.
+ */
+
+import { Ad } from '../models/Ad.js';
+import { defineJob } from './scheduler.js';
+import { sweepListingExpiry } from './listingExpiry.js';
+import { sendDocumentExpiryReminders } from './vehicleDocuments.js';
+import { sendSavedSearchDigests } from './savedSearchAlerts.js';
+import { sendWatchedJobDeadlineReminders } from './watchlist.js';
+import { purgeDueAccounts } from './accountDeletion.js';
+import { expireDueSubscriptions, resetDueBillingPeriods } from './subscriptionService.js';
+
+// Ads past their end date stop serving
+export const expireEndedAds = async (now = new Date()): Promise<number> => {
+  const result = await Ad.updateMany(
+    { status: { $in: ['active', 'paused'] }, endDate: { $lt: now } },
+    { $set: { status: 'expired' } }
+  );
+  return result.modifiedCount;
+};
+
+defineJob({
+  name: 'listing-expiry',
+  schedule: '0 * * * *',
+  description: 'Expire vehicle listings and past-deadline jobs, and send expiry reminders',
+  handler: (now) => sweepListingExpiry(now),
+});
+
+defineJob({
+  name: 'vehicle-document-reminders',
+  schedule: '0 8 * * *',
+  description: 'Remind sellers of insurance, fitness, road tax and permit expiry',
+  handler: async (now) => ({ sent: await sendDocumentExpiryReminders(now) }),
+});
+
+defineJob({
+  name: 'saved-search-digest',
+  schedule: '0 7 * * *',
+  description: 'Send the daily digest of new vehicles matching saved searches',
+  handler: async (now) => ({ sent: await sendSavedSearchDigests(now) }),
+});
+
+defineJob({
+  name: 'watchlist-deadline-reminders',
+  schedule: '20 * * * *',
+  description: 'Remind watchers of jobs whose application deadline is near',
+  handler: async (now) => ({ sent: await sendWatchedJobDeadlineReminders(now) }),
+});
+
+defineJob({
+  name: 'subscription-expiry',
+  schedule: '5 * * * *',
+  description: 'Mark subscriptions past their end date as expired',
+  handler: async (now) => ({ expired: await expireDueSubscriptions(now) }),
+});
+
+defineJob({
+  name: 'billing-period-reset',
+  schedule: '10 0 * * *',
+  description: 'Reset browse counts of accounts whose billing period has ended',
+  handler: async (now) => ({ reset: await resetDueBillingPeriods(now) }),
+});
+
+defineJob({
+  name: 'ad-expiry',
+  schedule: '15 * * * *',
+  description: 'Expire ads past their end date',
+  handler: async (now) => ({ expired: await expireEndedAds(now) }),
+});
+
+defineJob({
+  name: 'account-purge',
+  schedule: '30 3 * * *',
+  description: 'Anonymise accounts whose deletion grace period has ended',
+  handler: async (now) => ({ anonymised: await purgeDueAccounts(now) }),
+});
@@ -0,0 +1,262 @@
+/**
+ * Job Scheduler
+ * Runs recurring background jobs inside the API process, with state kept in
+ * MongoDB so several instances can share the work.
+ *
+ * Each job has a cron schedule and a ScheduledJob document holding its next
+ * run time. An instance claims a due job by atomically taking its lock and
+ * renews it while the job runs; the lock expires SCHEDULER_LOCK_MINUTES after
+ * the last renewal so a crashed instance cannot hold it forever. A failed run is retried with exponential backoff up to the
+ * job's maxAttempts, after which the job waits for its next scheduled time.
+ */
+
+import os from 'os';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import ScheduledJob, { IScheduledJob } from '../models/ScheduledJob.js';
+import ScheduledJobRun, { IScheduledJobRun, ScheduledJobTrigger } from '../models/ScheduledJobRun.js';
+import { ENV } from '../config/environment.js';
+import { nextCronDate } from '../utils/cron.js';
+
+export interface JobDefinition {
+  name: string;
+  // Five-field cron expression, see utils/cron.ts
+  schedule: string;
+  description?: string;
+  // Whatever the handler returns is stored on the run (keep it small)
+  handler: (now: Date) => Promise<unknown>;
+  maxAttempts?: number;
+  retryBaseSeconds?: number;
+}
+
+// Identifies this process in locks and run history
+export const INSTANCE_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+
+const definitions = new Map<string, JobDefinition>();
+
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+let synced = false;
+
+export const defineJob = (definition: JobDefinition): void => {
+  nextCronDate(definition.schedule); // throws on an invalid expression
+  definitions.set(definition.name, definition);
+};
+
+export const getJobDefinition = (name: string): JobDefinition | undefined => definitions.get(name);
+
+export const listJobDefinitions = (): JobDefinition[] => [...definitions.values()];
+
+// Delay before retrying after the given failed attempt: base, 2x base, 4x base...
+export const retryDelayMs = (definition: JobDefinition, attempt: number): number => {
+  const base = definition.retryBaseSeconds ?? ENV.SCHEDULER_RETRY_BASE_SECONDS;
+  return base * 1000 * 2 ** (attempt - 1);
+};
+
+// Create a document for every defined job, and reschedule jobs whose schedule changed
+export const syncScheduledJobs = async (now = new Date()): Promise<void> => {
+  for (const definition of definitions.values()) {
+    const existing = await ScheduledJob.findOne({ name: definition.name });
+    if (!existing) {
+      await ScheduledJob.updateOne(
+        { name: definition.name },
+        { $setOnInsert: { schedule: definition.schedule, nextRunAt: nextCronDate(definition.schedule, now) } },
+        { upsert: true }
+      );
+    } else if (existing.schedule !== definition.schedule) {
+      existing.schedule = definition.schedule;
+      existing.nextRunAt = nextCronDate(definition.schedule, now);
+      await existing.save();
+    }
+  }
+};
+
+const lockMs = (): number => ENV.SCHEDULER_LOCK_MINUTES * 60 * 1000;
+
+// Take the job's lock if nobody holds it. Scheduled claims also require the job to be due.
+const claimJob = async (name: string, now: Date, dueOnly: boolean): Promise<IScheduledJob | null> => {
+  return ScheduledJob.findOneAndUpdate(
+    {
+      name,
+      ...(dueOnly ? { enabled: true, nextRunAt: { $lte: now } } : {}),
+      $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: null }, { lockedUntil: { $lte: now } }],
+    },
+    {
+      $set: {
+        lockedBy: INSTANCE_ID,
+        lockedUntil: new Date(now.getTime() + lockMs()),
+      },
+    },
+    { new: true }
+  );
+};
+
+// Renew the lock every third of its lifetime while the handler runs, so a
+// long run is not claimed again by another instance. Returns a stop function.
+const holdLock = (job: IScheduledJob): (() => void) => {
+  const heartbeat = setInterval(() => {
+    ScheduledJob.updateOne(
+      { _id: job._id, lockedBy: INSTANCE_ID },
+      { $set: { lockedUntil: new Date(Date.now() + lockMs()) } }
+    ).catch((error) => console.error(`Failed to renew the lock of scheduled job "${job.name}":`, error));
+  }, lockMs() / 3);
+  heartbeat.unref();
+  return () => clearInterval(heartbeat);
+};
+
+const errorMessage = (error: unknown): string => {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.slice(0, 2000);
+};
+
+// Run a claimed job, record the run and release the lock
+const executeJob = async (
+  definition: JobDefinition,
+  job: IScheduledJob,
+  trigger: ScheduledJobTrigger,
+  triggeredBy?: mongoose.Types.ObjectId
+): Promise<IScheduledJobRun> => {
+  const startedAt = new Date();
+  const attempt = job.attempts + 1;
+
+  // We hold the lock, so a run still marked as running lost its instance
+  await ScheduledJobRun.updateMany(
+    { jobName: definition.name, status: 'running' },
+    { $set: { status: 'failed', error: 'Abandoned: the lock expired before the run finished', finishedAt: startedAt } }
+  );
+
+  const run = await ScheduledJobRun.create({
+    jobName: definition.name,
+    trigger: trigger === 'schedule' && job.attempts > 0 ? 'retry' : trigger,
+    attempt,
+    instanceId: INSTANCE_ID,
+    startedAt,
+    triggeredBy,
+  });
+
+  const jobUpdate: Record<string, unknown> = { lastRunAt: startedAt };
+  const releaseHeartbeat = holdLock(job);
+
+  try {
+    run.result = await definition.handler(startedAt);
+    run.status = 'succeeded';
+
+    Object.assign(jobUpdate, {
+      attempts: 0,
+      lastStatus: 'succeeded',
+      lastSucceededAt: new Date(),
+      lastError: null,
+      nextRunAt: nextCronDate(definition.schedule, new Date()),
+    });
+  } catch (error) {
+    console.error(`Scheduled job "${definition.name}" failed (attempt ${attempt}):`, error);
+    run.status = 'failed';
+    run.error = errorMessage(error);
+
+    const maxAttempts = definition.maxAttempts ?? ENV.SCHEDULER_MAX_ATTEMPTS;
+    const finishedAt = new Date();
+    if (attempt < maxAttempts) {
+      run.retryAt = new Date(finishedAt.getTime() + retryDelayMs(definition, attempt));
+      Object.assign(jobUpdate, { attempts: attempt, nextRunAt: run.retryAt });
+    } else {
+      Object.assign(jobUpdate, { attempts: 0, nextRunAt: nextCronDate(definition.schedule, finishedAt) });
+    }
+    Object.assign(jobUpdate, { lastStatus: 'failed', lastError: run.error });
+  } finally {
+    releaseHeartbeat();
+  }
+
+  run.finishedAt = new Date();
+  run.durationMs = run.finishedAt.getTime() - startedAt.getTime();
+  await run.save();
+
+  // Only release a lock we still hold
+  await ScheduledJob.updateOne(
+    { _id: job._id, lockedBy: INSTANCE_ID },
+    { $set: jobUpdate, $unset: { lockedBy: 1, lockedUntil: 1 } }
+  );
+
+  return run;
+};
+
+// Run every due job once. Jobs run one after another so a slow job cannot
+// overlap with the next tick.
+export const runDueJobs = async (now = new Date()): Promise<number> => {
+  let ran = 0;
+  for (const definition of definitions.values()) {
+    const job = await claimJob(definition.name, now, true);
+    if (!job) continue;
+
+    await executeJob(definition, job, 'schedule');
+    ran += 1;
+  }
+  return ran;
+};
+
+// Run a job right away (admin action). Returns null if another run holds the lock.
+export const runJobNow = async (
+  name: string,
+  triggeredBy?: mongoose.Types.ObjectId
+): Promise<IScheduledJobRun | null> => {
+  const definition = definitions.get(name);
+  if (!definition) {
+    throw new Error(`Unknown scheduled job "${name}"`);
+  }
+
+  await syncScheduledJobs();
+  const job = await claimJob(name, new Date(), false);
+  if (!job) {
+    return null;
+  }
+
+  // A manual run is a fresh attempt, whatever the retry state was
+  job.attempts = 0;
+  return executeJob(definition, job, 'manual', triggeredBy);
+};
+
+// Create the job documents; on failure the next tick tries again
+const syncOnce = async (): Promise<boolean> => {
+  if (!synced) {
+    try {
+      await syncScheduledJobs();
+      synced = true;
+    } catch (error) {
+      console.error('Scheduler sync error (retrying on the next tick):', error);
+    }
+  }
+  return synced;
+};
+
+const tick = async () => {
+  if (ticking) return;
+  ticking = true;
+  try {
+    if (await syncOnce()) {
+      await runDueJobs();
+    }
+  } catch (error) {
+    console.error('Scheduler tick error:', error);
+  } finally {
+    ticking = false;
+  }
+};
+
+export const startScheduler = async (): Promise<void> => {
+  if (timer || !ENV.SCHEDULER_ENABLED) {
+    return;
+  }
+
+  // A database hiccup here must not take the API down: sync failures are
+  // logged and retried by the ticks
+  timer = setInterval(tick, ENV.SCHEDULER_POLL_INTERVAL_SECONDS * 1000);
+  timer.unref();
+  console.log(`✓ Scheduler started (${definitions.size} jobs, instance ${INSTANCE_ID})`);
+  void tick();
+};
+
+export const stopScheduler = (): void => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
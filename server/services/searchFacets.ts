@@ -0,0 +1,131 @@
+/**
+ * Search Facets
+ * Option counts for the filter panels of the vehicle and job lists, asked for
+ * with `facets=type,price`. Each facet is counted against the current filters
+ * except its own, so picking "van" still shows how many school buses there are.
+ */
+
+import mongoose, { PipelineStage } from 'mongoose';
+
+// Listed in order of count, at most this many per facet
+export const MAX_FACET_VALUES = 20;
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+// min is inclusive and max exclusive; null is open-ended
+export interface FacetRange {
+  min: number | null;
+  max: number | null;
+  count: number;
+}
+
+export type FacetBuckets = FacetValue[] | FacetRange[];
+
+interface FacetDefinition {
+  // Filters (query parameters) this facet leaves out of its own counts
+  ignores: string[];
+  // A plain field, counted per value
+  field?: string;
+  // Counted per element when the field holds an array
+  unwind?: boolean;
+  // Or a numeric field counted into bands starting at these boundaries
+  bands?: number[];
+}
+
+export const VEHICLE_FACETS: Record<string, FacetDefinition> = {
+  type: { ignores: ['type'], field: 'type' },
+  manufacturer: { ignores: ['manufacturer'], field: 'manufacturer' },
+  year: { ignores: ['year'], field: 'year', bands: [0, 2005, 2010, 2015, 2020] },
+  condition: { ignores: ['condition'], field: 'condition' },
+  price: {
+    ignores: ['minPrice', 'maxPrice'],
+    field: 'price',
+    bands: [0, 500000, 1000000, 1500000, 2000000, 3000000, 5000000],
+  },
+};
+
+export const JOB_FACETS: Record<string, FacetDefinition> = {
+  subjects: { ignores: ['subjects'], field: 'subjects', unwind: true },
+  employmentType: { ignores: ['employmentType'], field: 'employmentType' },
+  city: { ignores: ['location'], field: 'location.city' },
+  // Monthly salary, banded on the lower end of the advertised range (what minSalary tests)
+  salary: {
+    ignores: ['minSalary', 'maxSalary'],
+    field: 'salary.min',
+    bands: [0, 20000, 30000, 40000, 50000, 75000, 100000],
+  },
+};
+
+// Read `facets=a,b` against the facets a list offers; absent is not an error
+export const parseFacetNames = (
+  value: unknown,
+  definitions: Record<string, FacetDefinition>
+): { names: string[]; error?: string } => {
+  if (value === undefined || value === '') return { names: [] };
+
+  const names = [...new Set(String(value).split(',').map((name) => name.trim()).filter(Boolean))];
+  const unknown = names.filter((name) => !Object.hasOwn(definitions, name));
+  if (unknown.length > 0) {
+    return { names: [], error: `facets must be a comma-separated list of: ${Object.keys(definitions).join(', ')}` };
+  }
+  return { names };
+};
+
+const ABOVE_LAST_BAND = 'above';
+
+const facetPipeline = (definition: FacetDefinition): PipelineStage[] => {
+  const field = `$${definition.field}`;
+
+  if (definition.bands) {
+    return [{ $bucket: { groupBy: field, boundaries: definition.bands, default: ABOVE_LAST_BAND } }];
+  }
+
+  return [
+    ...(definition.unwind ? [{ $unwind: field }] : []),
+    { $match: { [definition.field!]: { $nin: [null, ''] } } },
+    { $group: { _id: field, count: { $sum: 1 } } },
+    { $sort: { count: -1, _id: 1 } },
+    { $limit: MAX_FACET_VALUES },
+  ];
+};
+
+// $bucket names a band by its lower boundary; values outside every band
+// (above the last boundary) land in the default bucket
+const toRanges = (bands: number[], buckets: { _id: number | string; count: number }[]): FacetRange[] =>
+  buckets.map(({ _id, count }) => {
+    if (_id === ABOVE_LAST_BAND) {
+      return { min: bands[bands.length - 1], max: null, count };
+    }
+    const index = bands.indexOf(_id as number);
+    return { min: index === 0 ? null : (_id as number), max: bands[index + 1] ?? null, count };
+  });
+
+// Count each requested facet. `matchFor` returns the list's full query minus
+// the filters named, and must not use $nearSphere (aggregate cannot sort by
+// distance inside $match; use withinRadiusQuery instead).
+export const computeFacets = async (
+  model: mongoose.Model<any>,
+  names: string[],
+  definitions: Record<string, FacetDefinition>,
+  matchFor: (ignores: string[]) => Record<string, unknown>
+): Promise<Record<string, FacetBuckets>> => {
+  const results = await Promise.all(
+    names.map((name) => {
+      const definition = definitions[name];
+      return model.aggregate([{ $match: matchFor(definition.ignores) }, ...facetPipeline(definition)]);
+    })
+  );
+
+  return Object.fromEntries(
+    names.map((name, index) => {
+      const definition = definitions[name];
+      const buckets = definition.bands
+        ? toRanges(definition.bands, results[index])
+        : results[index].map(({ _id, count }: { _id: string; count: number }) => ({ value: _id, count }));
+      return [name, buckets];
+    })
+  );
+};
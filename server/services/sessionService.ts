@@ -0,0 +1,244 @@
+/**
+ * Session Service
+ * Issues access/refresh token pairs and manages the server-side Session store.
+ *
+ * - Access tokens are short-lived JWTs carrying the user id and session id.
+ * - Refresh tokens are opaque and stored hashed; each refresh rotates them.
+ * - Presenting an already-rotated refresh token revokes the whole session
+ *   (token family), since it means the token was copied.
+ * - Impersonation sessions (admin signed in as a user) are short-lived and
+ *   have no usable refresh token.
+ */
+
+import { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import Session, { ISession } from '../models/Session.js';
+import { JWT_CONFIG } from '../config/jwt.js';
+import { durationToMs } from '../utils/duration.js';
+import { createHashedToken, hashToken } from '../utils/tokens.js';
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  session: ISession;
+}
+
+export type RotateResult =
+  | ({ status: 'rotated' } & AuthTokens)
+  | { status: 'reused'; session: ISession }
+  | { status: 'revoked'; session: ISession }
+  | { status: 'invalid' };
+
+// `iatMs` is the issue time in milliseconds: `iat` only has seconds, too coarse
+// to tell a token issued just before a password change from one just after
+export const signAccessToken = (userId: string, sessionId: string, expiresIn = JWT_CONFIG.expiresIn): string => {
+  return jwt.sign({ userId, sid: sessionId, iatMs: Date.now() }, JWT_CONFIG.secret, {
+    expiresIn: expiresIn as any,
+  });
+};
+
+const refreshExpiry = (): Date => {
+  return new Date(Date.now() + durationToMs(JWT_CONFIG.refreshExpiresIn));
+};
+
+const clientInfo = (req: Request) => ({
+  userAgent: req.get('user-agent')?.slice(0, 512),
+  ipAddress: req.ip,
+});
+
+// Start a new session for a user who just proved their identity
+export const createSession = async (
+  userId: string | mongoose.Types.ObjectId,
+  req: Request
+): Promise<AuthTokens> => {
+  const { token, hash } = createHashedToken(48);
+
+  const session = await Session.create({
+    userId,
+    refreshTokenHash: hash,
+    ...clientInfo(req),
+    lastUsedAt: new Date(),
+    expiresAt: refreshExpiry(),
+  });
+
+  return {
+    accessToken: signAccessToken(userId.toString(), session._id.toString()),
+    refreshToken: token,
+    session,
+  };
+};
+
+// Start a time-limited session for an admin acting as another user
+export const createImpersonationSession = async (
+  adminId: string | mongoose.Types.ObjectId,
+  userId: string | mongoose.Types.ObjectId,
+  req: Request,
+  ttlMinutes: number
+): Promise<{ accessToken: string; session: ISession }> => {
+  // The refresh token is never handed out, so the session cannot be extended
+  const { hash } = createHashedToken(48);
+
+  const session = await Session.create({
+    userId,
+    refreshTokenHash: hash,
+    impersonatedBy: adminId,
+    ...clientInfo(req),
+    lastUsedAt: new Date(),
+    expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+  });
+
+  return {
+    accessToken: signAccessToken(userId.toString(), session._id.toString(), `${ttlMinutes}m`),
+    session,
+  };
+};
+
+// Exchange a refresh token for a new token pair
+export const rotateSession = async (refreshToken: string, req: Request): Promise<RotateResult> => {
+  const hash = hashToken(refreshToken);
+  const { token: nextToken, hash: nextHash } = createHashedToken(48);
+
+  // Atomic swap so two concurrent refreshes cannot both succeed
+  const session = await Session.findOneAndUpdate(
+    {
+      refreshTokenHash: hash,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    },
+    {
+      $set: {
+        refreshTokenHash: nextHash,
+        ...clientInfo(req),
+        lastUsedAt: new Date(),
+        expiresAt: refreshExpiry(),
+      },
+      $push: { previousTokenHashes: hash },
+    },
+    { new: true }
+  );
+
+  if (session) {
+    return {
+      status: 'rotated',
+      accessToken: signAccessToken(session.userId.toString(), session._id.toString()),
+      refreshToken: nextToken,
+      session,
+    };
+  }
+
+  // A rotated-out token was replayed: revoke the whole family
+  const reused = await Session.findOne({ previousTokenHashes: hash });
+  if (reused) {
+    if (!reused.revokedAt) {
+      reused.revokedAt = new Date();
+      reused.revokedReason = 'refresh_token_reuse';
+      await reused.save();
+    }
+    return { status: 'reused', session: reused };
+  }
+
+  const current = await Session.findOne({ refreshTokenHash: hash });
+  if (current?.revokedAt) {
+    return { status: 'revoked', session: current };
+  }
+
+  return { status: 'invalid' };
+};
+
+// How often lastUsedAt is written while a session is being used
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+// Look up a live session for an access token, recording activity
+export const findActiveSession = async (sessionId: string, userId: string): Promise<ISession | null> => {
+  if (!mongoose.isValidObjectId(sessionId)) {
+    return null;
+  }
+
+  const session = await Session.findOne({
+    _id: sessionId,
+    userId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  });
+
+  if (session && Date.now() - session.lastUsedAt.getTime() > LAST_SEEN_RESOLUTION_MS) {
+    session.lastUsedAt = new Date();
+    await session.save();
+  }
+
+  return session;
+};
+
+export const listActiveSessions = async (userId: string | mongoose.Types.ObjectId): Promise<ISession[]> => {
+  return Session.find({
+    userId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  }).sort({ lastUsedAt: -1 });
+};
+
+// Revoke one session belonging to a user. Returns false if it was not found.
+export const revokeSession = async (
+  userId: string | mongoose.Types.ObjectId,
+  sessionId: string,
+  reason: string
+): Promise<boolean> => {
+  if (!mongoose.isValidObjectId(sessionId)) {
+    return false;
+  }
+
+  const result = await Session.updateOne(
+    { _id: sessionId, userId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return result.modifiedCount > 0;
+};
+
+// Remove the session identified by a refresh token (logout)
+export const deleteSessionByToken = async (refreshToken: string): Promise<boolean> => {
+  const result = await Session.deleteOne({ refreshTokenHash: hashToken(refreshToken) });
+  return result.deletedCount > 0;
+};
+
+export const deleteSessionById = async (sessionId: string): Promise<boolean> => {
+  if (!mongoose.isValidObjectId(sessionId)) {
+    return false;
+  }
+  const result = await Session.deleteOne({ _id: sessionId });
+  return result.deletedCount > 0;
+};
+
+// Revoke every live session for a user (password reset, deactivation, etc.)
+export const revokeAllSessions = async (
+  userId: string | mongoose.Types.ObjectId,
+  reason: string,
+  exceptSessionId?: string
+): Promise<number> => {
+  const filter: any = { userId, revokedAt: { $exists: false } };
+  if (exceptSessionId) {
+    filter._id = { $ne: exceptSessionId };
+  }
+
+  const result = await Session.updateMany(filter, {
+    $set: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return result.modifiedCount;
+};
+
+export const setAuthCookies = (res: Response, tokens: Pick<AuthTokens, 'accessToken' | 'refreshToken'>): void => {
+  res.cookie('token', tokens.accessToken, JWT_CONFIG.cookieOptions);
+  res.cookie(JWT_CONFIG.refreshCookieName, tokens.refreshToken, JWT_CONFIG.refreshCookieOptions);
+};
+
+export const clearAuthCookies = (res: Response): void => {
+  res.clearCookie('token', { path: JWT_CONFIG.cookieOptions.path });
+  res.clearCookie(JWT_CONFIG.refreshCookieName, { path: JWT_CONFIG.refreshCookieOptions.path });
+};
+
+// Read the refresh token from the dedicated cookie or the request body
+export const getRefreshTokenFromRequest = (req: Request): string | undefined => {
+  const fromCookie = req.cookies?.[JWT_CONFIG.refreshCookieName];
+  const fromBody = typeof req.body?.refreshToken === 'string' ? req.body.refreshToken : undefined;
+  return fromCookie || fromBody;
+};
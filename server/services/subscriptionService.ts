@@ -0,0 +1,118 @@
+/**
+ * Subscription Service
+ * Shared helpers for assigning subscription plans to accounts, and the
+ * periodic upkeep (browse-count resets, expiry) the scheduler runs
+ */
+
+import SubscriptionPlan from '../models/SubscriptionPlan.js';
+import User, { IUser } from '../models/User.js';
+import Notification from '../models/Notification.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Browse counts start over after this many days
+export const BILLING_PERIOD_DAYS = 30;
+
+// Map a signup role to the plan type it subscribes to.
+// Defaults to institute if not specified or unrecognized.
+export const planTypeForRole = (role?: string): 'institute' | 'teacher' | 'vendor' => {
+  if (role === 'teacher') {
+    return 'teacher';
+  }
+  if (role === 'supplier' || role === 'vendor') {
+    return 'vendor';
+  }
+  return 'institute';
+};
+
+// Build the subscription sub-document for the role's default free plan,
+// or undefined if no active free plan exists for it
+export const buildFreeSubscription = async (role?: string): Promise<IUser['subscription']> => {
+  const freePlan = await SubscriptionPlan.findOne({
+    planType: planTypeForRole(role),
+    price: 0,
+    isActive: true
+  });
+
+  if (!freePlan) {
+    return undefined;
+  }
+
+  const startDate = new Date();
+  const endDate = new Date();
+  endDate.setDate(endDate.getDate() + freePlan.duration);
+
+  return {
+    planId: freePlan._id,
+    status: 'active' as const,
+    paymentStatus: 'completed' as const,
+    startDate,
+    endDate,
+    listingsUsed: 0,
+    listingsLimit: freePlan.features.maxListings,
+    jobPostsUsed: 0,
+    jobPostsLimit: freePlan.features.maxJobPosts,
+    browseCount: 0,
+    browseCountLimit: freePlan.features.maxBrowsesPerMonth,
+    lastBrowseReset: startDate,
+    notes: 'Free plan assigned on signup'
+  };
+};
+
+// Reset the user's browse count if a billing period has passed since the last
+// reset. Saves the user and returns true if it did.
+export const resetBillingPeriodIfDue = async (user: IUser, now = new Date()): Promise<boolean> => {
+  if (!user.subscription || !user.subscription.lastBrowseReset) {
+    return false;
+  }
+
+  const lastReset = new Date(user.subscription.lastBrowseReset);
+  if (now.getTime() - lastReset.getTime() < BILLING_PERIOD_DAYS * DAY_MS) {
+    return false;
+  }
+
+  user.subscription.browseCount = 0;
+  user.subscription.lastBrowseReset = now;
+  await user.save();
+  return true;
+};
+
+// Reset the browse count of every account whose billing period has ended.
+// Returns how many were reset.
+export const resetDueBillingPeriods = async (now = new Date()): Promise<number> => {
+  const result = await User.updateMany(
+    { 'subscription.lastBrowseReset': { $lte: new Date(now.getTime() - BILLING_PERIOD_DAYS * DAY_MS) } },
+    { $set: { 'subscription.browseCount': 0, 'subscription.lastBrowseReset': now } }
+  );
+  return result.modifiedCount;
+};
+
+// Mark active subscriptions past their end date as expired and tell their
+// owners. Returns how many expired.
+export const expireDueSubscriptions = async (now = new Date()): Promise<number> => {
+  const due = await User.find({
+    'subscription.status': 'active',
+    'subscription.endDate': { $lt: now },
+  }).select('_id');
+
+  let expired = 0;
+  for (const user of due) {
+    // Guarded on the status so a concurrent lazy check does not notify twice
+    const result = await User.updateOne(
+      { _id: user._id, 'subscription.status': 'active' },
+      { $set: { 'subscription.status': 'expired' } }
+    );
+    if (!result.modifiedCount) continue;
+
+    await Notification.create({
+      userId: user._id,
+      type: 'warning',
+      title: 'Subscription expired',
+      message: 'Your subscription has expired. Renew or change your plan to keep using its features.',
+      link: '/dashboard',
+    });
+    expired += 1;
+  }
+
+  return expired;
+};
@@ -0,0 +1,90 @@
+/**
+ * Two-Factor Service
+ * TOTP enrollment helpers, recovery codes and the short-lived login
+ * challenge token that bridges the password step and the code step.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { IUser } from '../models/User.js';
+import { ENV } from '../config/environment.js';
+import { JWT_CONFIG } from '../config/jwt.js';
+import { verifyTotp } from '../utils/totp.js';
+import { decryptSecret } from '../utils/encryption.js';
+import { hashToken } from '../utils/tokens.js';
+
+const CHALLENGE_PURPOSE = '2fa_challenge';
+const RECOVERY_CODE_COUNT = 10;
+
+// Projection that loads the hidden 2FA fields
+export const TWO_FACTOR_FIELDS =
+  '+twoFactor.secret +twoFactor.pendingSecret +twoFactor.recoveryCodes +twoFactor.lastUsedStep';
+
+// Whether policy forces this account to use 2FA
+export const isTwoFactorRequired = (user: Pick<IUser, 'role'>): boolean => {
+  return ENV.REQUIRE_ADMIN_2FA && user.role === 'admin';
+};
+
+const normalizeRecoveryCode = (code: string): string => code.toLowerCase().replace(/[^a-f0-9]/g, '');
+
+// Codes look like "a1b2c-3d4e5"; only hashes are stored
+export const generateRecoveryCodes = (): { codes: string[]; hashes: string[] } => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map((code) => hashToken(normalizeRecoveryCode(code))) };
+};
+
+/**
+ * Check a TOTP code or a recovery code against a user loaded with
+ * TWO_FACTOR_FIELDS. On success the user document is updated (replay
+ * step recorded / recovery code consumed); the caller must save it.
+ */
+export const verifySecondFactor = (
+  user: IUser,
+  input: { code?: string; recoveryCode?: string }
+): boolean => {
+  const twoFactor = user.twoFactor;
+  if (!twoFactor?.enabled || !twoFactor.secret) {
+    return false;
+  }
+
+  if (input.code) {
+    const step = verifyTotp(decryptSecret(twoFactor.secret), input.code);
+    // Each time step may only be used once
+    if (step === null || (twoFactor.lastUsedStep !== undefined && step <= twoFactor.lastUsedStep)) {
+      return false;
+    }
+    twoFactor.lastUsedStep = step;
+    return true;
+  }
+
+  if (input.recoveryCode) {
+    const hash = hashToken(normalizeRecoveryCode(input.recoveryCode));
+    const remaining = twoFactor.recoveryCodes || [];
+    if (!remaining.includes(hash)) {
+      return false;
+    }
+    twoFactor.recoveryCodes = remaining.filter((stored) => stored !== hash);
+    return true;
+  }
+
+  return false;
+};
+
+export const issueChallengeToken = (userId: string): string => {
+  return jwt.sign({ userId, purpose: CHALLENGE_PURPOSE }, JWT_CONFIG.secret, {
+    expiresIn: ENV.TWO_FACTOR_CHALLENGE_EXPIRES_IN as any,
+  });
+};
+
+// Returns the user id for a valid, unexpired challenge token, otherwise null
+export const verifyChallengeToken = (token: string): string | null => {
+  try {
+    const decoded = jwt.verify(token, JWT_CONFIG.secret) as { userId?: string; purpose?: string };
+    return decoded.purpose === CHALLENGE_PURPOSE && decoded.userId ? decoded.userId : null;
+  } catch (error) {
+    return null;
+  }
+};
@@ -0,0 +1,157 @@
+/**
+ * Vehicle Comparison
+ * Lays two to four listings side by side as rows of comparable values, with
+ * the rows whose values differ flagged and the best value in each marked.
+ */
+
+import { IVehicle, VehicleDocument, VEHICLE_CONDITIONS } from '../models/Vehicle.js';
+import {
+  MANDATORY_VEHICLE_DOCUMENTS,
+  VEHICLE_DOCUMENT_LABELS,
+  documentCompliance,
+  documentsVerified,
+} from './vehicleDocuments.js';
+
+export const MIN_COMPARE_VEHICLES = 2;
+export const MAX_COMPARE_VEHICLES = 4;
+
+export type ComparisonValue = string | number | boolean | null;
+
+export interface ComparisonRow {
+  key: string;
+  label: string;
+  group: 'overview' | 'features' | 'documents';
+  // One value per compared vehicle, in request order (null: not known)
+  values: ComparisonValue[];
+  different: boolean;
+  // Columns holding the best value, for rows where better/worse makes sense
+  best: number[];
+}
+
+export interface VehicleComparison {
+  vehicles: {
+    _id: unknown;
+    title: string;
+    image?: string;
+    status: string;
+    sellerName: string;
+    location?: IVehicle['location'];
+  }[];
+  rows: ComparisonRow[];
+}
+
+type ComparedVehicle = Pick<
+  IVehicle,
+  | '_id'
+  | 'title'
+  | 'images'
+  | 'status'
+  | 'sellerName'
+  | 'location'
+  | 'price'
+  | 'year'
+  | 'mileage'
+  | 'seatingCapacity'
+  | 'condition'
+  | 'type'
+  | 'manufacturer'
+  | 'vehicleModel'
+  | 'features'
+  | 'documentVerifications'
+  | VehicleDocument
+>;
+
+// Two decimals are plenty for a rupee amount
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const columnsWith = (values: ComparisonValue[], pick: (numbers: number[]) => number): number[] => {
+  const numbers = values.filter((value): value is number => typeof value === 'number');
+  if (numbers.length < 2) return [];
+  const target = pick(numbers);
+  return values.flatMap((value, index) => (value === target ? [index] : []));
+};
+
+const lowest = (values: ComparisonValue[]) => columnsWith(values, (numbers) => Math.min(...numbers));
+const highest = (values: ComparisonValue[]) => columnsWith(values, (numbers) => Math.max(...numbers));
+
+const row = (
+  key: string,
+  label: string,
+  group: ComparisonRow['group'],
+  values: ComparisonValue[],
+  best: number[] = []
+): ComparisonRow => ({
+  key,
+  label,
+  group,
+  values,
+  different: new Set(values.map((value) => JSON.stringify(value))).size > 1,
+  // Marking a best value only helps when the values differ
+  best: new Set(values).size > 1 ? best : [],
+});
+
+// Condition as a score, best first: excellent 4 ... needs-repair 1
+const conditionScore = (condition: string): number =>
+  VEHICLE_CONDITIONS.length - VEHICLE_CONDITIONS.indexOf(condition as (typeof VEHICLE_CONDITIONS)[number]);
+
+export const buildVehicleComparison = (vehicles: ComparedVehicle[], now = new Date()): VehicleComparison => {
+  const column = <T extends ComparisonValue>(value: (vehicle: ComparedVehicle) => T) => vehicles.map(value);
+
+  const prices = column((vehicle) => vehicle.price);
+  const years = column((vehicle) => vehicle.year);
+  const mileages = column((vehicle) => vehicle.mileage);
+  const seats = column((vehicle) => vehicle.seatingCapacity ?? null);
+  const pricePerSeat = column((vehicle) =>
+    vehicle.seatingCapacity ? round(vehicle.price / vehicle.seatingCapacity) : null
+  );
+  const pricePerKm = column((vehicle) => (vehicle.mileage > 0 ? round(vehicle.price / vehicle.mileage) : null));
+  const conditions = column((vehicle) => vehicle.condition);
+
+  const rows: ComparisonRow[] = [
+    row('type', 'Type', 'overview', column((vehicle) => vehicle.type)),
+    row('make', 'Make and model', 'overview', column((vehicle) => `${vehicle.manufacturer} ${vehicle.vehicleModel}`)),
+    row('price', 'Price', 'overview', prices, lowest(prices)),
+    row('year', 'Year', 'overview', years, highest(years)),
+    row('mileage', 'Kilometres driven', 'overview', mileages, lowest(mileages)),
+    row('condition', 'Condition', 'overview', conditions, highest(conditions.map(conditionScore))),
+    row('seatingCapacity', 'Seats', 'overview', seats, highest(seats)),
+    row('pricePerSeat', 'Price per seat', 'overview', pricePerSeat, lowest(pricePerSeat)),
+    row('pricePerKm', 'Price per km driven', 'overview', pricePerKm, lowest(pricePerKm)),
+  ];
+
+  // Every feature any of the vehicles lists, matched case-insensitively
+  const features = new Map<string, string>();
+  for (const vehicle of vehicles) {
+    for (const feature of vehicle.features ?? []) {
+      const key = feature.trim().toLowerCase();
+      if (key && !features.has(key)) features.set(key, feature.trim());
+    }
+  }
+  for (const [key, label] of [...features].sort(([, a], [, b]) => a.localeCompare(b))) {
+    const present = column((vehicle) => (vehicle.features ?? []).some((feature) => feature.trim().toLowerCase() === key));
+    rows.push(row(`feature:${key}`, label, 'features', present));
+  }
+
+  // Each mandatory document as valid / expired / missing, then the overall picture
+  const compliance = vehicles.map((vehicle) => documentCompliance(vehicle, now));
+  for (const name of MANDATORY_VEHICLE_DOCUMENTS) {
+    const states = compliance.map((result) =>
+      result.expired.includes(name) ? 'expired' : result.missing.includes(name) ? 'missing' : 'valid'
+    );
+    rows.push(row(`document:${name}`, VEHICLE_DOCUMENT_LABELS[name], 'documents', states));
+  }
+  rows.push(row('documentCompliance', 'All documents valid', 'documents', compliance.map((result) => result.status === 'valid')));
+  rows.push(row('documentsVerified', 'Documents verified', 'documents', column((vehicle) => documentsVerified(vehicle, now))));
+
+  return {
+    vehicles: vehicles.map((vehicle) => ({
+      _id: vehicle._id,
+      title: vehicle.title,
+      image: vehicle.images?.[0],
+      status: vehicle.status,
+      sellerName: vehicle.sellerName,
+      location: vehicle.location,
+    })),
+    rows,
+  };
+};
@@ -0,0 +1,264 @@
+/**
+ * Vehicle Documents
+ * Compliance of a listing's insurance, fitness certificate, road tax and
+ * permit, reminders to the seller before any of them expires, and moderator
+ * verification of the uploaded papers.
+ *
+ * A document counts as valid while its expiry date is in the future and the
+ * seller has not marked it invalid. Reminders go out VEHICLE_DOCUMENT_REMINDER_DAYS
+ * before expiry (30, 7 and 1 days by default); each is sent once per expiry
+ * date, so renewing a document with a new date starts the reminders over.
+ *
+ * Uploaded documents wait in the moderation queue; the latest upload of each
+ * document decides the listing's "documents verified" badge. Verifying one
+ * also confirms the listing's expiry date for it.
+ */
+
+import mongoose from 'mongoose';
+import Vehicle, { IVehicle, VehicleDocument, VEHICLE_DOCUMENTS } from '../models/Vehicle.js';
+import VehicleDocumentUpload, {
+  IVehicleDocumentUpload,
+  VerifiableDocument,
+} from '../models/VehicleDocumentUpload.js';
+import Notification from '../models/Notification.js';
+import { ENV } from '../config/environment.js';
+import { documentMimeType } from '../config/multer.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DocumentComplianceStatus = 'valid' | 'expired' | 'incomplete';
+
+export interface DocumentCompliance {
+  // expired: a mandatory document has lapsed; incomplete: one has no expiry date
+  status: DocumentComplianceStatus;
+  expired: VehicleDocument[];
+  missing: VehicleDocument[];
+}
+
+// A school transport vehicle needs all of them to be on the road
+export const MANDATORY_VEHICLE_DOCUMENTS: VehicleDocument[] = [...VEHICLE_DOCUMENTS];
+
+// Documents that must be verified for the badge: the RC and every mandatory document
+export const BADGE_DOCUMENTS: VerifiableDocument[] = ['rc', ...MANDATORY_VEHICLE_DOCUMENTS];
+
+export const VEHICLE_DOCUMENT_LABELS: Record<VerifiableDocument, string> = {
+  rc: 'Registration certificate',
+  insurance: 'Insurance',
+  fitness: 'Fitness certificate',
+  roadTax: 'Road tax',
+  permit: 'Permit',
+};
+
+// Days before expiry at which reminders go out, largest first
+export const documentReminderDays = (): number[] =>
+  ENV.VEHICLE_DOCUMENT_REMINDER_DAYS.split(',')
+    .map((value) => parseInt(value.trim(), 10))
+    .filter((days) => days > 0)
+    .sort((a, b) => b - a);
+
+// Statuses in which the seller still cares about the vehicle's paperwork
+const REMINDER_VEHICLE_STATUSES = ['pending', 'approved', 'reserved'];
+
+type VehicleDocuments = Pick<IVehicle, VehicleDocument | 'documentVerifications'>;
+
+export const documentCompliance = (vehicle: VehicleDocuments, now = new Date()): DocumentCompliance => {
+  const expired: VehicleDocument[] = [];
+  const missing: VehicleDocument[] = [];
+
+  for (const name of MANDATORY_VEHICLE_DOCUMENTS) {
+    const document = vehicle[name];
+    if (document?.valid === false || (document?.expiryDate && new Date(document.expiryDate) <= now)) {
+      expired.push(name);
+    } else if (!document?.expiryDate) {
+      missing.push(name);
+    }
+  }
+
+  const status: DocumentComplianceStatus = expired.length ? 'expired' : missing.length ? 'incomplete' : 'valid';
+  return { status, expired, missing };
+};
+
+// Every badge document's latest upload is verified and not past its expiry.
+// Only entries tied to an upload and a moderator review count.
+export const documentsVerified = (vehicle: VehicleDocuments, now = new Date()): boolean => {
+  return BADGE_DOCUMENTS.every((name) => {
+    const verification = vehicle.documentVerifications?.find((entry) => entry.document === name);
+    return (
+      verification?.status === 'verified' &&
+      !!verification.uploadId &&
+      !!verification.reviewedAt &&
+      (!verification.expiryDate || new Date(verification.expiryDate) > now)
+    );
+  });
+};
+
+export const withDocumentCompliance = <T extends VehicleDocuments>(vehicle: T, now = new Date()) => ({
+  ...vehicle,
+  documentCompliance: documentCompliance(vehicle, now),
+  documentsVerified: documentsVerified(vehicle, now),
+});
+
+// Query condition for listings whose mandatory documents are all valid
+export const allDocumentsValidQuery = (now = new Date()) => ({
+  $and: MANDATORY_VEHICLE_DOCUMENTS.map((name) => ({
+    [`${name}.expiryDate`]: { $gt: now },
+    [`${name}.valid`]: { $ne: false },
+  })),
+});
+
+// The reminder a document is due for: the smallest threshold it is within,
+// so a listing created 5 days before expiry gets the 7-day reminder only
+const dueReminderDays = (expiryDate: Date, now: Date, thresholds: number[]): number | undefined => {
+  const daysLeft = Math.ceil((expiryDate.getTime() - now.getTime()) / DAY_MS);
+  return [...thresholds].reverse().find((days) => daysLeft <= days);
+};
+
+const reminderSent = (vehicle: IVehicle, name: VehicleDocument, daysBefore: number, expiryDate: Date): boolean =>
+  vehicle.documentReminders.some(
+    (reminder) =>
+      reminder.document === name &&
+      reminder.daysBefore === daysBefore &&
+      reminder.expiryDate.getTime() === expiryDate.getTime()
+  );
+
+// Send the reminders that are due. Idempotent; returns how many were sent.
+export const sendDocumentExpiryReminders = async (now = new Date()): Promise<number> => {
+  const thresholds = documentReminderDays();
+  if (!thresholds.length) {
+    return 0;
+  }
+
+  const horizon = new Date(now.getTime() + thresholds[0] * DAY_MS);
+  const vehicles = await Vehicle.find({
+    status: { $in: REMINDER_VEHICLE_STATUSES },
+    $or: VEHICLE_DOCUMENTS.map((name) => ({ [`${name}.expiryDate`]: { $gt: now, $lte: horizon } })),
+  });
+
+  let sent = 0;
+  for (const vehicle of vehicles) {
+    const due: { name: VehicleDocument; daysBefore: number; expiryDate: Date }[] = [];
+
+    for (const name of VEHICLE_DOCUMENTS) {
+      const expiryDate = vehicle[name]?.expiryDate;
+      if (!expiryDate || expiryDate <= now || expiryDate > horizon) continue;
+
+      const daysBefore = dueReminderDays(expiryDate, now, thresholds);
+      if (daysBefore !== undefined && !reminderSent(vehicle, name, daysBefore, expiryDate)) {
+        due.push({ name, daysBefore, expiryDate });
+      }
+    }
+
+    if (!due.length) continue;
+
+    // One notification per vehicle, listing every document that is due
+    const lines = due.map(({ name, expiryDate }) => `${VEHICLE_DOCUMENT_LABELS[name]} expires on ${expiryDate.toDateString()}`);
+    await Notification.create({
+      userId: vehicle.sellerId,
+      type: 'warning',
+      title: 'Vehicle documents expiring',
+      message: `${vehicle.title} (${vehicle.registrationNumber}): ${lines.join('; ')}. Renew and update the listing to keep it compliant.`,
+      link: `/vehicle/${vehicle._id}`,
+      metadata: { vehicleId: vehicle._id as mongoose.Types.ObjectId, documents: due.map(({ name }) => name) },
+    });
+
+    for (const { name, daysBefore, expiryDate } of due) {
+      vehicle.documentReminders.push({ document: name, daysBefore, expiryDate, sentAt: now });
+    }
+    await vehicle.save();
+    sent += due.length;
+  }
+
+  return sent;
+};
+
+const isExpiringDocument = (name: VerifiableDocument): name is VehicleDocument =>
+  (VEHICLE_DOCUMENTS as string[]).includes(name);
+
+// Store an uploaded document and put it in the moderation queue. An older
+// upload of the same document that was never reviewed is superseded.
+export const recordDocumentUpload = async (
+  vehicle: IVehicle,
+  document: VerifiableDocument,
+  file: { originalname: string; mimetype: string; size: number; buffer: Buffer },
+  uploadedBy: mongoose.Types.ObjectId,
+  expiryDate?: Date
+): Promise<IVehicleDocumentUpload> => {
+  await VehicleDocumentUpload.updateMany(
+    { vehicleId: vehicle._id, document, status: 'pending' },
+    { $set: { status: 'superseded' } }
+  );
+
+  const upload = await VehicleDocumentUpload.create({
+    vehicleId: vehicle._id,
+    sellerId: vehicle.sellerId,
+    uploadedBy,
+    document,
+    fileName: file.originalname,
+    mimeType: documentMimeType(file.originalname) ?? 'application/octet-stream',
+    size: file.size,
+    data: file.buffer,
+    expiryDate,
+  });
+
+  vehicle.documentVerifications = [
+    ...vehicle.documentVerifications.filter((entry) => entry.document !== document),
+    { document, uploadId: upload._id as mongoose.Types.ObjectId, status: 'pending', expiryDate },
+  ];
+  await vehicle.save();
+
+  return upload;
+};
+
+// Verify or reject a pending upload, update the listing and tell the seller
+export const reviewDocumentUpload = async (
+  upload: IVehicleDocumentUpload,
+  decision: 'verified' | 'rejected',
+  reviewedBy: mongoose.Types.ObjectId,
+  details: { reason?: string; expiryDate?: Date } = {}
+): Promise<IVehicleDocumentUpload> => {
+  const reviewedAt = new Date();
+
+  upload.status = decision;
+  upload.reviewedBy = reviewedBy;
+  upload.reviewedAt = reviewedAt;
+  upload.rejectionReason = decision === 'rejected' ? details.reason : undefined;
+  if (details.expiryDate) {
+    upload.expiryDate = details.expiryDate;
+  }
+  await upload.save();
+
+  const vehicle = await Vehicle.findById(upload.vehicleId);
+  if (vehicle) {
+    const verification = vehicle.documentVerifications.find(
+      (entry) => entry.uploadId.toString() === upload._id!.toString()
+    );
+    if (verification) {
+      verification.status = decision;
+      verification.expiryDate = upload.expiryDate;
+      verification.reviewedAt = reviewedAt;
+    }
+
+    // A verified expiry date replaces the seller's declaration
+    if (decision === 'verified' && upload.expiryDate && isExpiringDocument(upload.document)) {
+      vehicle.set(`${upload.document}.valid`, true);
+      vehicle.set(`${upload.document}.expiryDate`, upload.expiryDate);
+    }
+    await vehicle.save();
+  }
+
+  const label = VEHICLE_DOCUMENT_LABELS[upload.document];
+  const title = vehicle?.title ?? 'your vehicle';
+  await Notification.create({
+    userId: upload.sellerId,
+    type: decision === 'verified' ? 'approval' : 'rejection',
+    title: decision === 'verified' ? 'Document verified' : 'Document rejected',
+    message:
+      decision === 'verified'
+        ? `${label} for ${title} has been verified.`
+        : `${label} for ${title} was rejected${details.reason ? `: ${details.reason}` : ''}. Please upload it again.`,
+    link: `/vehicle/${upload.vehicleId}`,
+    metadata: { vehicleId: upload.vehicleId, uploadId: upload._id, document: upload.document },
+  });
+
+  return upload;
+};
@@ -0,0 +1,91 @@
+/**
+ * Vehicle Lifecycle
+ * Owner-driven status changes for vehicle listings and their side effects on offers.
+ *
+ * Listings are never deleted to mark them off the market: they move to
+ * reserved, sold or withdrawn, keeping their history and plan accounting.
+ */
+
+import mongoose from 'mongoose';
+import Vehicle, { IVehicle, VehicleStatus, vehicleStatusUpdate } from '../models/Vehicle.js';
+import { closeOpenOffers, releaseAcceptedOffer, completeAcceptedOffer } from './offerService.js';
+import { WATCHABLE_VEHICLE_STATUSES, notifyListingRemoved } from './watchlist.js';
+
+// Statuses hidden from the marketplace unless explicitly requested
+export const INACTIVE_VEHICLE_STATUSES: VehicleStatus[] = ['reserved', 'sold', 'withdrawn', 'expired'];
+
+// Statuses anyone may see a listing in (others only for the owner and moderators)
+export const PUBLIC_VEHICLE_STATUSES: VehicleStatus[] = ['approved', 'reserved', 'sold'];
+
+// Moves an owner may make. Approval is the moderators' job; expired listings are renewed instead.
+const OWNER_TRANSITIONS: Record<VehicleStatus, VehicleStatus[]> = {
+  pending: ['withdrawn'],
+  approved: ['reserved', 'sold', 'withdrawn'],
+  rejected: ['withdrawn'],
+  reserved: ['approved', 'sold', 'withdrawn'],
+  sold: [],
+  withdrawn: ['pending'],
+  expired: [],
+};
+
+export const ownerTransitionsFrom = (status: VehicleStatus): VehicleStatus[] => OWNER_TRANSITIONS[status] ?? [];
+
+export const canOwnerTransition = (from: VehicleStatus, to: VehicleStatus): boolean => {
+  return ownerTransitionsFrom(from).includes(to);
+};
+
+export interface VehicleStatusChangeOptions {
+  // The offer the listing is being reserved for; every other open offer is closed
+  acceptedOfferId?: mongoose.Types.ObjectId;
+}
+
+// Apply a status change, then settle offers that the new status affects and
+// tell watchers when the listing goes off sale. The change is atomic and
+// guarded on the status the listing was loaded in: returns null (and changes
+// nothing) if it has moved on since, e.g. another offer was accepted first.
+export const changeVehicleStatus = async (
+  vehicle: IVehicle,
+  to: VehicleStatus,
+  changedBy?: mongoose.Types.ObjectId,
+  reason?: string,
+  options: VehicleStatusChangeOptions = {}
+): Promise<IVehicle | null> => {
+  const from = vehicle.status;
+
+  const updated = await Vehicle.findOneAndUpdate(
+    { _id: vehicle._id, status: from },
+    vehicleStatusUpdate(to, changedBy, reason),
+    { new: true }
+  );
+  if (!updated) {
+    return null;
+  }
+
+  const vehicleId = updated._id as mongoose.Types.ObjectId;
+
+  if (from === 'reserved' && to === 'sold') {
+    await completeAcceptedOffer(vehicleId, changedBy);
+  } else if (from === 'reserved') {
+    await releaseAcceptedOffer(vehicleId, changedBy);
+  }
+
+  // Anything but going back on sale ends the negotiations still open
+  if (options.acceptedOfferId) {
+    await closeOpenOffers(
+      vehicleId,
+      (offer) => `${offer.vehicleTitle} has been reserved for another buyer, so your offer was closed`,
+      options.acceptedOfferId
+    );
+  } else if (to !== 'approved' && to !== 'pending') {
+    await closeOpenOffers(vehicleId, (offer) => `${offer.vehicleTitle} is no longer available, so your offer was closed`);
+  }
+
+  // Watchers hear when a listing goes off sale: reserved (it can still be
+  // watched in case it comes back), then sold or withdrawn
+  if (WATCHABLE_VEHICLE_STATUSES.includes(from) && to !== 'approved') {
+    const reasons: Partial<Record<VehicleStatus, string>> = { reserved: 'has been reserved', sold: 'has been sold' };
+    await notifyListingRemoved('Vehicle', updated, reasons[to] ?? 'is no longer on sale');
+  }
+
+  return updated;
+};
@@ -0,0 +1,128 @@
+/**
+ * Vehicle Search Filters
+ * The filter set shared by the vehicle list endpoint and saved searches, so a
+ * saved search alerts on exactly the listings the same filters would return.
+ */
+
+import { VEHICLE_TYPES, VEHICLE_CONDITIONS, VehicleFilters } from '../models/Vehicle.js';
+import { formatPrice } from './offerService.js';
+
+export const VEHICLE_FILTER_KEYS: (keyof VehicleFilters)[] = [
+  'type',
+  'manufacturer',
+  'year',
+  'condition',
+  'minPrice',
+  'maxPrice',
+  'city',
+  'state',
+];
+
+const NUMERIC_FILTERS = new Set<keyof VehicleFilters>(['year', 'minPrice', 'maxPrice']);
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const sameText = (a: string | undefined, b: string): boolean =>
+  (a ?? '').trim().toLowerCase() === b.trim().toLowerCase();
+
+// Read filters from a query string or request body. Values are kept even when
+// invalid (an unknown type simply matches nothing); `errors` lists them for
+// callers that must reject bad input.
+export const parseVehicleFilters = (source: Record<string, unknown>): { filters: VehicleFilters; errors: string[] } => {
+  const filters: Record<string, string | number> = {};
+  const errors: string[] = [];
+
+  for (const key of VEHICLE_FILTER_KEYS) {
+    const raw = source[key];
+    if (raw === undefined || raw === null || raw === '') continue;
+
+    const value = String(raw).trim();
+    if (NUMERIC_FILTERS.has(key)) {
+      const number = Number(value);
+      if (!Number.isFinite(number) || number < 0) {
+        errors.push(`${key} must be a non-negative number`);
+        continue;
+      }
+      filters[key] = number;
+    } else {
+      filters[key] = value;
+    }
+  }
+
+  const result = filters as VehicleFilters;
+  if (result.type && !VEHICLE_TYPES.includes(result.type)) {
+    errors.push(`type must be one of: ${VEHICLE_TYPES.join(', ')}`);
+  }
+  if (result.condition && !VEHICLE_CONDITIONS.includes(result.condition)) {
+    errors.push(`condition must be one of: ${VEHICLE_CONDITIONS.join(', ')}`);
+  }
+  if (result.minPrice !== undefined && result.maxPrice !== undefined && result.minPrice > result.maxPrice) {
+    errors.push('minPrice cannot be greater than maxPrice');
+  }
+
+  return { filters: result, errors };
+};
+
+// MongoDB conditions for the filters (status is up to the caller)
+export const vehicleFilterQuery = (filters: VehicleFilters): Record<string, unknown> => {
+  const query: Record<string, unknown> = {};
+
+  if (filters.type) query.type = filters.type;
+  if (filters.manufacturer) query.manufacturer = filters.manufacturer;
+  if (filters.year !== undefined) query.year = filters.year;
+  if (filters.condition) query.condition = filters.condition;
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    query.price = {
+      ...(filters.minPrice !== undefined ? { $gte: filters.minPrice } : {}),
+      ...(filters.maxPrice !== undefined ? { $lte: filters.maxPrice } : {}),
+    };
+  }
+  if (filters.city) query['location.city'] = { $regex: `^${escapeRegex(filters.city)}$`, $options: 'i' };
+  if (filters.state) query['location.state'] = { $regex: `^${escapeRegex(filters.state)}$`, $options: 'i' };
+
+  return query;
+};
+
+// The filters without the given keys, e.g. to count a facet across all its values
+export const omitFilters = (filters: VehicleFilters, keys: (keyof VehicleFilters)[]): VehicleFilters =>
+  Object.fromEntries(Object.entries(filters).filter(([key]) => !keys.includes(key as keyof VehicleFilters)));
+
+// The same test in memory, for checking one vehicle against many saved searches
+export const matchesVehicleFilters = (
+  vehicle: {
+    type: string;
+    manufacturer: string;
+    year: number;
+    condition: string;
+    price: number;
+    location?: { city?: string; state?: string };
+  },
+  filters: VehicleFilters
+): boolean => {
+  if (filters.type && vehicle.type !== filters.type) return false;
+  if (filters.manufacturer && vehicle.manufacturer !== filters.manufacturer) return false;
+  if (filters.year !== undefined && vehicle.year !== filters.year) return false;
+  if (filters.condition && vehicle.condition !== filters.condition) return false;
+  if (filters.minPrice !== undefined && vehicle.price < filters.minPrice) return false;
+  if (filters.maxPrice !== undefined && vehicle.price > filters.maxPrice) return false;
+  if (filters.city && !sameText(vehicle.location?.city, filters.city)) return false;
+  if (filters.state && !sameText(vehicle.location?.state, filters.state)) return false;
+  return true;
+};
+
+// Short human description, e.g. "school-bus, Tata, ₹5,00,000–₹10,00,000, Pune"
+export const describeVehicleFilters = (filters: VehicleFilters): string => {
+  const price = (amount?: number) => (amount !== undefined ? formatPrice(amount) : 'any');
+  const parts = [
+    filters.type,
+    filters.manufacturer,
+    filters.year?.toString(),
+    filters.condition,
+    filters.minPrice !== undefined || filters.maxPrice !== undefined
+      ? `${price(filters.minPrice)}–${price(filters.maxPrice)}`
+      : undefined,
+    filters.city,
+    filters.state,
+  ];
+  return parts.filter(Boolean).join(', ') || 'all vehicles';
+};
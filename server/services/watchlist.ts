@@ -0,0 +1,217 @@
+/**
+ * Watchlist
+ * Bookmarked vehicles, jobs and suppliers, and the notifications watchers get:
+ * a watched vehicle's price drops, a watched job's application deadline is
+ * near (the watchlist-deadline-reminders scheduled job), or the listing is
+ * taken off the market or deleted.
+ */
+
+import mongoose from 'mongoose';
+import Watch, { WatchTargetType, WATCH_TARGET_TYPES } from '../models/Watch.js';
+import Vehicle, { IVehicle, VehicleStatus } from '../models/Vehicle.js';
+import Job from '../models/Job.js';
+import Supplier from '../models/Supplier.js';
+import Notification from '../models/Notification.js';
+import { ENV } from '../config/environment.js';
+import { formatPrice } from './offerService.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Vehicles on the market; a watched vehicle leaving these is reported as removed
+export const WATCHABLE_VEHICLE_STATUSES: VehicleStatus[] = ['approved', 'reserved'];
+
+// What the watchlist shows for a listing, whatever its type
+export interface WatchTargetSummary {
+  title: string;
+  status: string;
+  available: boolean;
+  link: string;
+  image?: string;
+  price?: number;
+  applicationDeadline?: Date;
+}
+
+export interface WatchTarget {
+  ownerId: mongoose.Types.ObjectId;
+  summary: WatchTargetSummary;
+}
+
+// "vehicle", "Vehicle" and "VEHICLE" all name the Vehicle collection
+export const parseWatchTargetType = (value: unknown): WatchTargetType | null => {
+  const name = String(value ?? '').toLowerCase();
+  return WATCH_TARGET_TYPES.find((type) => type.toLowerCase() === name) ?? null;
+};
+
+export const summarizeWatchTarget = (type: WatchTargetType, target: any): WatchTargetSummary => {
+  switch (type) {
+    case 'Vehicle':
+      return {
+        title: target.title,
+        status: target.status,
+        available: WATCHABLE_VEHICLE_STATUSES.includes(target.status),
+        link: `/vehicle/${target._id}`,
+        image: target.images?.[0],
+        price: target.price,
+      };
+    case 'Job':
+      return {
+        title: target.title,
+        status: target.status,
+        available: target.status === 'active',
+        link: `/job/${target._id}`,
+        applicationDeadline: target.applicationDeadline,
+      };
+    case 'Supplier':
+      return {
+        title: target.name,
+        status: target.status,
+        available: target.status === 'approved',
+        link: `/supplier/${target._id}`,
+        image: target.logo,
+      };
+  }
+};
+
+// The listing a watch points at, with its owner, or null if it no longer exists
+export const loadWatchTarget = async (type: WatchTargetType, id: string): Promise<WatchTarget | null> => {
+  switch (type) {
+    case 'Vehicle': {
+      const vehicle = await Vehicle.findById(id).select('title status price images sellerId');
+      return vehicle && { ownerId: vehicle.sellerId, summary: summarizeWatchTarget(type, vehicle) };
+    }
+    case 'Job': {
+      const job = await Job.findById(id).select('title status applicationDeadline instituteId');
+      return job && { ownerId: job.instituteId, summary: summarizeWatchTarget(type, job) };
+    }
+    case 'Supplier': {
+      const supplier = await Supplier.findById(id).select('name status logo createdBy');
+      return supplier && { ownerId: supplier.createdBy, summary: summarizeWatchTarget(type, supplier) };
+    }
+  }
+};
+
+// Number of watchers per listing, keyed by listing id (listings nobody watches are absent)
+export const watcherCountsFor = async (type: WatchTargetType, ids: unknown[]): Promise<Map<string, number>> => {
+  const rows = await Watch.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+    {
+      $match: {
+        targetType: type,
+        targetId: { $in: ids.map((id) => new mongoose.Types.ObjectId(String(id))) },
+      },
+    },
+    { $group: { _id: '$targetId', count: { $sum: 1 } } },
+  ]);
+  return new Map(rows.map((row) => [String(row._id), row.count]));
+};
+
+// Add `watcherCount` to an owner's listings
+export const withWatcherCounts = async <T extends { _id: unknown }>(
+  type: WatchTargetType,
+  listings: T[]
+): Promise<(T & { watcherCount: number })[]> => {
+  const counts = await watcherCountsFor(type, listings.map((listing) => listing._id));
+  return listings.map((listing) => ({ ...listing, watcherCount: counts.get(String(listing._id)) ?? 0 }));
+};
+
+// One notification to each watcher of a listing. Returns how many were sent.
+const notifyWatchers = async (
+  type: WatchTargetType,
+  targetId: unknown,
+  notification: { title: string; message: string; link: string },
+  metadata: Record<string, unknown> = {}
+): Promise<number> => {
+  const watches = await Watch.find({ targetType: type, targetId: targetId as mongoose.Types.ObjectId }).select('userId');
+  if (watches.length === 0) {
+    return 0;
+  }
+
+  await Notification.insertMany(
+    watches.map((watch) => ({
+      userId: watch.userId,
+      type: 'watchlist',
+      ...notification,
+      metadata: { targetType: type, targetId, ...metadata },
+    }))
+  );
+  return watches.length;
+};
+
+// Called after a listing's price is edited; only a cut on a live listing is news
+export const notifyVehiclePriceDrop = async (vehicle: IVehicle, previousPrice: number): Promise<number> => {
+  if (!(vehicle.price < previousPrice) || !WATCHABLE_VEHICLE_STATUSES.includes(vehicle.status)) {
+    return 0;
+  }
+
+  return notifyWatchers(
+    'Vehicle',
+    vehicle._id,
+    {
+      title: 'Price drop on a vehicle you watch',
+      message: `${vehicle.title} is now ${formatPrice(vehicle.price)} (was ${formatPrice(previousPrice)})`,
+      link: `/vehicle/${vehicle._id}`,
+    },
+    { previousPrice, price: vehicle.price }
+  );
+};
+
+// Called when a watched listing is taken off the market (sold, withdrawn,
+// expired, closed) or deleted. Deleted listings also lose their watches.
+export const notifyListingRemoved = async (
+  type: WatchTargetType,
+  target: { _id: unknown; title: string },
+  reason: string,
+  options: { deleted?: boolean } = {}
+): Promise<number> => {
+  const sent = await notifyWatchers(
+    type,
+    target._id,
+    {
+      title: 'A listing you watch is no longer available',
+      message: `"${target.title}" ${reason}.`,
+      link: '/watchlist',
+    },
+    { reason }
+  );
+
+  if (options.deleted) {
+    await Watch.deleteMany({ targetType: type, targetId: target._id as mongoose.Types.ObjectId });
+  }
+  return sent;
+};
+
+// Remind watchers of active jobs whose application deadline is within
+// WATCHED_JOB_DEADLINE_REMINDER_DAYS, once per deadline. Returns how many were sent.
+export const sendWatchedJobDeadlineReminders = async (now = new Date()): Promise<number> => {
+  const jobs = await Job.find({
+    status: 'active',
+    applicationDeadline: { $gt: now, $lte: new Date(now.getTime() + ENV.WATCHED_JOB_DEADLINE_REMINDER_DAYS * DAY_MS) },
+  }).select('title instituteName applicationDeadline');
+
+  let sent = 0;
+  for (const job of jobs) {
+    const watches = await Watch.find({
+      targetType: 'Job',
+      targetId: job._id,
+      deadlineReminderFor: { $ne: job.applicationDeadline },
+    }).select('userId');
+    if (watches.length === 0) continue;
+
+    await Notification.insertMany(
+      watches.map((watch) => ({
+        userId: watch.userId,
+        type: 'watchlist',
+        title: 'Application deadline approaching',
+        message: `Applications for "${job.title}" at ${job.instituteName} close on ${job.applicationDeadline!.toDateString()}.`,
+        link: `/job/${job._id}`,
+        metadata: { targetType: 'Job', targetId: job._id, applicationDeadline: job.applicationDeadline },
+      }))
+    );
+    await Watch.updateMany(
+      { _id: { $in: watches.map((watch) => watch._id) } },
+      { $set: { deadlineReminderFor: job.applicationDeadline } }
+    );
+    sent += watches.length;
+  }
+
+  return sent;
+};
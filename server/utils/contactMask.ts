@@ -0,0 +1,24 @@
+/**
+ * Contact Masking Utilities
+ * Partially hide email addresses and phone numbers shown to strangers
+ */
+
+// "rajesh@school.in" -> "r*****@school.in"
+export const maskEmail = (email?: string): string | undefined => {
+  if (!email) return email;
+
+  const at = email.indexOf('@');
+  if (at <= 0) return '*'.repeat(email.length);
+
+  const local = email.slice(0, at);
+  return `${local[0]}${'*'.repeat(Math.max(local.length - 1, 3))}${email.slice(at)}`;
+};
+
+// "+91 98765 43210" -> "+** ***** ***10" (keeps separators and the last two digits)
+export const maskPhone = (phone?: string): string | undefined => {
+  if (!phone) return phone;
+
+  const digits = phone.replace(/\D/g, '').length;
+  let seen = 0;
+  return phone.replace(/\d/g, (digit) => (++seen > digits - 2 ? digit : '*'));
+};
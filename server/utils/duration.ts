@@ -0,0 +1,24 @@
+/**
+ * Duration Utilities
+ * Converts jsonwebtoken-style duration strings ('15m', '7d') to milliseconds
+ */
+
+const UNIT_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+export const durationToMs = (value: string): number => {
+  const match = /^(\d+)\s*(ms|s|m|h|d|w)?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+
+  const amount = parseInt(match[1], 10);
+  // Bare numbers are seconds, matching jsonwebtoken's expiresIn
+  return amount * UNIT_MS[match[2] || 's'];
+};
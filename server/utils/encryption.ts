@@ -0,0 +1,28 @@
+/**
+ * Encryption Utilities
+ * AES-256-GCM helpers for secrets that must be recoverable (e.g. TOTP seeds),
+ * as opposed to tokens that only ever need to be compared (see tokens.ts)
+ */
+
+import crypto from 'crypto';
+import { ENV } from '../config/environment.js';
+
+const key = crypto.createHash('sha256').update(ENV.DATA_ENCRYPTION_KEY).digest();
+
+// Output format: iv.authTag.ciphertext (base64url parts)
+export const encryptSecret = (plaintext: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [iv, authTag, ciphertext].map((part) => part.toString('base64url')).join('.');
+};
+
+export const decryptSecret = (payload: string): string => {
+  const [iv, authTag, ciphertext] = payload.split('.').map((part) => Buffer.from(part, 'base64url'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
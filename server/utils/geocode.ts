@@ -0,0 +1,92 @@
+/**
+ * Offline Geocoding
+ * Turns an Indian address (pincode, city, state) into coordinates using the
+ * bundled dataset in data/indianPincodes.ts, plus great-circle distances.
+ *
+ * An exact pincode wins, then the city (checked against the state when one is
+ * given, so Bilaspur, Himachal Pradesh is not placed in Chhattisgarh), then the
+ * pincode's sorting district.
+ */
+
+import { PLACES, PINCODE_POINTS, CITY_ALIASES, PlaceEntry } from '../data/indianPincodes.js';
+
+export const EARTH_RADIUS_KM = 6378.1;
+
+export interface GeoPlace {
+  pincode?: string;
+  city?: string;
+  state?: string;
+}
+
+export interface GeoCoordinates {
+  lat: number;
+  lng: number;
+}
+
+export interface GeocodeResult extends GeoCoordinates {
+  precision: 'pincode' | 'city' | 'district';
+}
+
+// Lower-case letters only: "Navi  Mumbai" and "navi-mumbai" are the same place
+const placeKey = (value?: string): string => String(value ?? '').toLowerCase().replace(/[^a-z]/g, '');
+
+const placesByCity = new Map<string, PlaceEntry[]>();
+const placesByPrefix = new Map<string, PlaceEntry>();
+for (const entry of PLACES) {
+  const key = placeKey(entry[0]);
+  placesByCity.set(key, [...(placesByCity.get(key) ?? []), entry]);
+  for (const prefix of entry[4]) {
+    placesByPrefix.set(prefix, entry);
+  }
+}
+
+const cityAliases = new Map(Object.entries(CITY_ALIASES).map(([alias, city]) => [alias, placeKey(city)]));
+
+export const geocodePlace = (place: GeoPlace): GeocodeResult | null => {
+  const pincode = String(place.pincode ?? '').replace(/\s/g, '');
+  const validPincode = /^[1-9]\d{5}$/.test(pincode);
+
+  if (validPincode && PINCODE_POINTS[pincode]) {
+    const [lat, lng] = PINCODE_POINTS[pincode];
+    return { lat, lng, precision: 'pincode' };
+  }
+
+  const cityKey = placeKey(place.city);
+  if (cityKey) {
+    const candidates = placesByCity.get(cityAliases.get(cityKey) ?? cityKey) ?? [];
+    const stateKey = placeKey(place.state);
+    const match = stateKey ? candidates.find((entry) => placeKey(entry[1]) === stateKey) : candidates[0];
+    if (match) {
+      return { lat: match[2], lng: match[3], precision: 'city' };
+    }
+  }
+
+  const district = validPincode ? placesByPrefix.get(pincode.slice(0, 3)) : undefined;
+  if (district) {
+    return { lat: district[2], lng: district[3], precision: 'district' };
+  }
+
+  return null;
+};
+
+// "18.52,73.85" -> { lat: 18.52, lng: 73.85 }, or null if it is not a valid point
+export const parseLatLng = (value: unknown): GeoCoordinates | null => {
+  const parts = String(value ?? '').split(',');
+  if (parts.length !== 2 || parts.some((part) => part.trim() === '')) return null;
+
+  const [lat, lng] = parts.map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null;
+  }
+  return { lat, lng };
+};
+
+// Haversine distance in kilometres
+export const distanceKm = (from: GeoCoordinates, to: GeoCoordinates): number => {
+  const radians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = radians(to.lat - from.lat);
+  const dLng = radians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 + Math.cos(radians(from.lat)) * Math.cos(radians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
@@ -0,0 +1,47 @@
+/**
+ * Indian Vehicle Registration Numbers
+ * Normalisation and format checks for the standard state scheme
+ * (e.g. "KA 01 AB 1234", "DL 3C AB 1234") and Bharat series plates
+ * (e.g. "22 BH 1234 AA").
+ */
+
+export type RegistrationScheme = 'standard' | 'bh';
+
+// State and union territory codes, including retired ones still on older plates
+const STATE_CODES = new Set([
+  'AN', 'AP', 'AR', 'AS', 'BR', 'CG', 'CH', 'DD', 'DL', 'DN', 'GA', 'GJ', 'HP', 'HR', 'JH', 'JK',
+  'KA', 'KL', 'LA', 'LD', 'MH', 'ML', 'MN', 'MP', 'MZ', 'NL', 'OD', 'OR', 'PB', 'PY', 'RJ', 'SK',
+  'TN', 'TR', 'TS', 'UA', 'UK', 'UP', 'WB',
+]);
+
+// State code, RTO number, optional series letters (Delhi also uses a letter
+// after the RTO number), then a number of up to four digits
+const STANDARD_PATTERN = /^([A-Z]{2})(\d{1,2})([A-Z]{0,3})(\d{1,4})$/;
+
+// Year of registration, "BH", four digits, then one or two letters (I and O are not used)
+const BH_PATTERN = /^(\d{2})BH(\d{4})([A-HJ-NP-Z]{1,2})$/;
+
+// Upper-case and drop spaces, dashes and dots: "ka-01 ab.1234" -> "KA01AB1234"
+export const normalizeRegistrationNumber = (value: string): string => {
+  return String(value ?? '').toUpperCase().replace(/[\s.\-]/g, '');
+};
+
+// The scheme a registration number follows, or null if it is not valid
+export const registrationScheme = (value: string): RegistrationScheme | null => {
+  const normalized = normalizeRegistrationNumber(value);
+
+  const standard = STANDARD_PATTERN.exec(normalized);
+  if (standard) {
+    const [, state, rto, , number] = standard;
+    return STATE_CODES.has(state) && Number(rto) > 0 && Number(number) > 0 ? 'standard' : null;
+  }
+
+  const bh = BH_PATTERN.exec(normalized);
+  if (bh) {
+    return Number(bh[2]) > 0 ? 'bh' : null;
+  }
+
+  return null;
+};
+
+export const isValidRegistrationNumber = (value: string): boolean => registrationScheme(value) !== null;
@@ -0,0 +1,18 @@
+/**
+ * Token Utilities
+ * Helpers for opaque, single-use tokens that are stored hashed at rest
+ */
+
+import crypto from 'crypto';
+
+// Hash a raw token for storage/lookup (SHA-256, hex encoded)
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+// Generate a random token and its hash. Only the hash should be persisted;
+// the raw token is handed to the user (e.g. in an email link).
+export const createHashedToken = (bytes = 32): { token: string; hash: string } => {
+  const token = crypto.randomBytes(bytes).toString('hex');
+  return { token, hash: hashToken(token) };
+};
@@ -0,0 +1,50 @@
+/**
+ * User-Agent Utilities
+ * Lightweight parsing of User-Agent strings for display (session lists)
+ */
+
+export interface DeviceInfo {
+  browser: string;
+  os: string;
+  type: 'desktop' | 'mobile' | 'tablet' | 'unknown';
+}
+
+// Order matters: Edge and Opera also advertise Chrome, Chrome advertises Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/PostmanRuntime/, 'Postman'],
+  [/curl\//, 'curl'],
+];
+
+const OPERATING_SYSTEMS: Array<[RegExp, string]> = [
+  [/Windows NT/, 'Windows'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+export const describeUserAgent = (userAgent?: string): DeviceInfo => {
+  if (!userAgent) {
+    return { browser: 'Unknown', os: 'Unknown', type: 'unknown' };
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] || 'Unknown';
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1] || 'Unknown';
+
+  let type: DeviceInfo['type'] = 'desktop';
+  if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) {
+    type = 'tablet';
+  } else if (/Mobi|iPhone|iPod/.test(userAgent)) {
+    type = 'mobile';
+  } else if (browser === 'Unknown' && os === 'Unknown') {
+    type = 'unknown';
+  }
+
+  return { browser, os, type };
+};